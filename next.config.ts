@@ -10,6 +10,8 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // OCR loads native binaries, WASM and language data from node_modules at runtime, so keep it unbundled.
+  serverExternalPackages: ['sharp', 'tesseract.js', 'heic-decode', '@tesseract.js-data/eng'],
   experimental: {
     allowedDevOrigins: [
         '6000-firebase-studio-1757927243403.cluster-ubrd2huk7jh6otbgyei4h62ope.cloudworkstations.dev'
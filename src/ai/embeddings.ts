@@ -0,0 +1,66 @@
+import { embedder, genkitPluginV2 } from 'genkit/plugin';
+
+/**
+ * An in-process embedder, so document Q&A retrieval works offline and without an embedding API. It
+ * hashes words and adjacent word pairs into a fixed-size vector (the "hashing trick"), which matches a
+ * question to the passages that share its vocabulary. Semantic embedders can be configured instead
+ * with `AI_EMBEDDING_MODEL` (see `embedderFor` in genkit.ts).
+ */
+
+export const BUILTIN_EMBEDDER = 'builtin/hashed-words';
+
+const DIMENSIONS = 1024;
+
+// Words too common in contracts and questions to say anything about which passage is relevant.
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how',
+  'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'shall', 'so', 'that', 'the', 'their',
+  'then', 'there', 'this', 'to', 'was', 'what', 'when', 'which', 'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+// Crude suffix stripping, so "terminate", "terminated" and "terminating" share a feature.
+const stem = (word: string) => word.length > 4 ? word.replace(/(?:ing|ed|es|e|s|ly|ion|ions)$/, '') : word;
+
+const words = (text: string) => (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+  .filter(word => !STOP_WORDS.has(word))
+  .map(stem);
+
+// FNV-1a, for a stable bucket per feature across processes.
+const hash = (feature: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export function hashedEmbedding(text: string): number[] {
+  const counts = new Map<string, number>();
+  const tokens = words(text);
+  tokens.forEach((word, i) => {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+    if (i > 0) counts.set(`${tokens[i - 1]} ${word}`, (counts.get(`${tokens[i - 1]} ${word}`) ?? 0) + 1);
+  });
+
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  for (const [feature, count] of counts) {
+    const h = hash(feature);
+    // A sign bit from the hash keeps collisions from only ever adding up.
+    vector[h % DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  }
+  const norm = Math.hypot(...vector);
+  return norm ? vector.map(v => v / norm) : vector;
+}
+
+export const builtinEmbedders = () => genkitPluginV2({
+  name: 'builtin',
+  init: () => [embedder({
+    name: BUILTIN_EMBEDDER,
+    info: { label: 'Hashed word features', dimensions: DIMENSIONS, supports: { input: ['text'] } },
+  }, async (request) => ({
+    embeddings: request.input.map(document => ({
+      embedding: hashedEmbedding(document.content.map(part => part.text ?? '').join(' ')),
+    })),
+  }))],
+});
@@ -0,0 +1,196 @@
+import { GenkitError, type GenerateRequest, type GenerateResponseData, type MessageData } from 'genkit';
+import { genkitPluginV2, model } from 'genkit/plugin';
+
+/**
+ * A deterministic stand-in for Gemini, so flows, tasks and server actions can run offline (for example
+ * against the Firebase emulators). Enabled with `AI_FAKE_MODEL=true`, which points every flow at
+ * `fake/<flow>`. Structured outputs are generated from the requested JSON schema, with clause references
+ * and sources quoted from the document so anchoring has something to find.
+ *
+ * Failures are simulated with `AI_FAKE_FAILURE`, either for every call (`timeout`) or per flow
+ * (`classify=malformed-json,askQuestion=safety`), or by putting `[[fake:<failure>]]` in a document or
+ * question. Failures: timeout, empty, safety, malformed-json.
+ */
+
+export const FAKE_MODEL_ENABLED = ['1', 'true'].includes(process.env.AI_FAKE_MODEL ?? '');
+
+const FAKE_FAILURES = ['timeout', 'empty', 'safety', 'malformed-json'] as const;
+type FakeFailure = typeof FAKE_FAILURES[number];
+
+const LATENCY_MS = Number(process.env.AI_FAKE_LATENCY_MS ?? 0);
+const LAWYER_CATEGORY = process.env.AI_FAKE_LAWYER_CATEGORY || 'Contract Law';
+const FAILURE_MARKER = /\[\[fake:([a-z-]+)\]\]/;
+
+// One fake model per flow, so the failure spec can target a flow by name.
+const FAKE_MODEL_NAMES = ['classify', 'askQuestion', 'summarizeConversation', 'startRolePlay', 'continueRolePlay', 'speech'];
+
+// 100ms of 24kHz 16-bit mono silence, the PCM format Gemini's TTS models return.
+const SILENT_PCM = Buffer.alloc(4800).toString('base64');
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const parseFailureSpec = (spec: string, flow: string): FakeFailure | null => {
+  for (const entry of spec.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [target, failure] = entry.includes('=') ? entry.split('=') : [flow, entry];
+    if (target !== flow) continue;
+    if (!FAKE_FAILURES.includes(failure as FakeFailure)) {
+      throw new Error(`Unknown fake model failure '${failure}'. Use one of: ${FAKE_FAILURES.join(', ')}.`);
+    }
+    return failure as FakeFailure;
+  }
+  return null;
+};
+
+// Text and plain-text documents in the request, which is what the fixtures quote from.
+const requestText = (messages: MessageData[]) => messages.flatMap(m => m.content).map((part) => {
+  if (part.text) return part.text;
+  const match = part.media?.url.match(/^data:text\/plain;base64,(.*)$/);
+  return match ? Buffer.from(match[1], 'base64').toString('utf-8') : '';
+}).join('\n');
+
+// Sentences of the document, or of the passages retrieved from it, long enough to quote, skipping the
+// prompt around it. Prompts without a document (combining a long document's parts) reuse the clause
+// quotes of the analyses they were given.
+const quotableSentences = (text: string) => {
+  const document = text.match(/<(document|passages)>\n([\s\S]*)\n<\/\1>/)?.[2];
+  const analyzedQuotes = [...text.matchAll(/"clause":"\\"(.+?)\\""/g)].map(m => m[1]);
+  if (!document && analyzedQuotes.length) return analyzedQuotes;
+  return (document ?? text)
+    .split(/(?<=[.;:])\s+|\n+/)
+    .map(s => s.replace(/^-+ Page \d+ -+$/, '').trim())
+    .filter(s => s.length >= 24 && !s.includes('"'))
+    .map(s => s.slice(0, 100));
+};
+
+type FixtureContext = {
+  flow: string;
+  quotes: string[];
+};
+
+// Values for fields whose content matters to the code that consumes them.
+const fieldOverride = (key: string, index: number, context: FixtureContext): unknown => {
+  const quote = context.quotes.length ? context.quotes[index % context.quotes.length] : null;
+  switch (key) {
+    case 'clause':
+      return quote ? `"${quote}"` : `Clause ${index + 1}`;
+    case 'sources':
+      return quote ?? 'The document does not contain enough text to quote.';
+    case 'lawyerCategory':
+      return LAWYER_CATEGORY;
+    case 'estimatedHearings':
+      return 3;
+    default:
+      return undefined;
+  }
+};
+
+const fakeValue = (schema: JsonSchema, key: string, index: number, context: FixtureContext): unknown => {
+  if (schema.anyOf?.length) {
+    return fakeValue(schema.anyOf.find(s => s.type !== 'null') ?? schema.anyOf[0], key, index, context);
+  }
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  if (type !== 'object' && type !== 'array') {
+    // Array items share their array's key, so `sources` overrides each source rather than the list.
+    const override = fieldOverride(key, index, context);
+    if (override !== undefined) return override;
+  }
+  if (schema.enum?.length) {
+    return schema.enum[index % schema.enum.length];
+  }
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties ?? {})
+        .filter(([name]) => schema.required?.includes(name) ?? true)
+        .map(([name, property]) => [name, fakeValue(property, name, index, context)]));
+    case 'array': {
+      const length = Math.max(2, schema.minItems ?? 0);
+      return Array.from({ length }, (_, i) => fakeValue(schema.items ?? { type: 'string' }, key, i, context));
+    }
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? min + 10;
+      return Math.round((min + max) / 2);
+    }
+    case 'boolean':
+      return index % 2 === 0;
+    case 'null':
+      return null;
+    default:
+      return `Fake ${key || context.flow} ${index + 1}`;
+  }
+};
+
+const fakeResponse = (request: GenerateRequest, flow: string): GenerateResponseData => {
+  const text = requestText(request.messages);
+  const context: FixtureContext = { flow, quotes: quotableSentences(text) };
+
+  if (flow === 'speech') {
+    return {
+      message: { role: 'model', content: [{ media: { url: `data:audio/L16;codec=pcm;rate=24000;base64,${SILENT_PCM}`, contentType: 'audio/L16' } }] },
+      finishReason: 'stop',
+    };
+  }
+  if (request.output?.schema) {
+    const value = fakeValue(request.output.schema as JsonSchema, '', 0, context);
+    return { message: { role: 'model', content: [{ text: JSON.stringify(value) }] }, finishReason: 'stop' };
+  }
+  const last = request.messages[request.messages.length - 1]?.content.map(p => p.text ?? '').join(' ').trim();
+  return {
+    message: { role: 'model', content: [{ text: `Fake ${flow} reply to: "${last.slice(0, 80)}"` }] },
+    finishReason: 'stop',
+  };
+};
+
+// Roughly four characters per token, so usage accounting has numbers to show offline.
+const approximateTokens = (messages: MessageData[]) =>
+  Math.ceil(messages.flatMap(m => m.content).reduce((chars, part) => chars + (part.text?.length ?? 0), 0) / 4);
+
+const withUsage = (request: GenerateRequest, response: GenerateResponseData): GenerateResponseData => ({
+  ...response,
+  usage: {
+    inputTokens: approximateTokens(request.messages),
+    outputTokens: response.message ? approximateTokens([response.message]) : 0,
+  },
+});
+
+const simulateFailure = async (failure: FakeFailure, flow: string, request: GenerateRequest): Promise<GenerateResponseData> => {
+  switch (failure) {
+    case 'timeout':
+      throw new GenkitError({ status: 'DEADLINE_EXCEEDED', message: `Fake ${flow} model timed out.` });
+    case 'empty':
+      return { message: { role: 'model', content: [] }, finishReason: 'stop' };
+    case 'safety':
+      return { message: { role: 'model', content: [] }, finishReason: 'blocked', finishMessage: 'The response was blocked for SAFETY reasons.' };
+    case 'malformed-json': {
+      const valid = fakeResponse(request, flow).message?.content[0]?.text ?? '{}';
+      return { message: { role: 'model', content: [{ text: `${valid.slice(0, Math.floor(valid.length / 2))}, "unterminated` }] }, finishReason: 'stop' };
+    }
+  }
+};
+
+export const fakeModels = () => genkitPluginV2({
+  name: 'fake',
+  init: () => FAKE_MODEL_NAMES.map(flow => model({
+    name: `fake/${flow}`,
+    label: `Fake ${flow} model`,
+    supports: { multiturn: true, media: true, systemRole: true, output: ['json', 'text'], constrained: 'all' },
+  }, async (request) => {
+    if (LATENCY_MS > 0) await sleep(LATENCY_MS);
+    const marker = FAILURE_MARKER.exec(requestText(request.messages))?.[1];
+    const failure = parseFailureSpec(marker ?? process.env.AI_FAKE_FAILURE ?? '', flow);
+    return withUsage(request, failure ? await simulateFailure(failure, flow, request) : fakeResponse(request, flow));
+  })),
+});
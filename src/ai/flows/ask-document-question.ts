@@ -2,42 +2,24 @@
 /**
  * @fileOverview A Q&A and Scenario Simulation agent for legal documents.
  *
- * - askDocumentQuestion - A function that answers questions about a document based on retrieved passages.
+ * - askDocumentQuestion - A function that answers questions about a document from the passages retrieved for
+ *   the question (see src/lib/document-index.ts), or from the whole file when it has no text to retrieve from.
+ *   Earlier turns of the conversation can be passed as `history`, with older ones condensed into `conversationSummary`.
  * - AskDocumentQuestionInput - The input type for the askDocumentQuestion function.
  * - AskDocumentQuestionOutput - The return type for the askDocumentQuestion function.
  */
 
-import { ai } from '@/ai/genkit';
-import { googleAI } from '@genkit-ai/googleai';
-import { z } from 'genkit';
+import type { Part } from 'genkit';
+import { ai, documentPart, modelFor } from '@/ai/genkit';
+import {
+    AskDocumentQuestionInputSchema,
+    AskDocumentQuestionOutputSchema,
+    type AskDocumentQuestionInput,
+    type AskDocumentQuestionOutput,
+} from '@/ai/schemas/ask-document-question';
+import { generateStructured } from '@/ai/structured-output';
 
-const AskDocumentQuestionInputSchema = z.object({
-    fileAsBase64: z.string().describe("The file content as a Base64 encoded string."),
-    mimeType: z.string().describe("The mime type of the file."),
-    question: z.string().describe("The user's question or scenario to simulate about the document."),
-});
-export type AskDocumentQuestionInput = z.infer<typeof AskDocumentQuestionInputSchema>;
-
-const AskDocumentQuestionOutputSchema = z.object({
-    plainEnglish: z.string().describe("A plain-English rewrite of the clause in simple, everyday language (max 2 sentences)."),
-    analysis: z.object({
-        parties: z.array(z.string()).describe("The parties involved in the clause."),
-        obligations: z.array(z.string()).describe("The key obligations mentioned in the clause."),
-        deadlinesOrPenalties: z.array(z.string()).describe("Any deadlines or penalties mentioned."),
-        rightsWaivedOrGained: z.array(z.string()).describe("Any rights waived or gained by the parties."),
-        severity: z.enum(["Low", "Medium", "High"]).describe("The severity score of the clause."),
-        severityJustification: z.string().describe("A one-sentence justification for the severity score."),
-    }),
-    riskHeatmapLabel: z.enum(["Safe", "Caution", "High-Risk"]).describe("A risk heatmap label for the clause."),
-    riskJustification: z.string().describe("A short phrase justifying the risk label, tied to the source text."),
-    negotiationHelper: z.object({
-        alternativeClause: z.string().describe("A suggested fairer or safer alternative to the clause."),
-        messageTemplate: z.string().describe("A polite negotiation message template the user could send."),
-    }),
-    sources: z.array(z.string()).describe("The exact source spans (verbatim copy) from the document that support the answer."),
-    confidenceScore: z.number().min(0).max(100).describe("A confidence score (0-100) in the accuracy of the answer."),
-});
-export type AskDocumentQuestionOutput = z.infer<typeof AskDocumentQuestionOutputSchema>;
+export type { AskDocumentQuestionInput, AskDocumentQuestionOutput };
 
 export async function askDocumentQuestion(input: AskDocumentQuestionInput): Promise<AskDocumentQuestionOutput | { error: string }> {
   try {
@@ -48,6 +30,21 @@ export async function askDocumentQuestion(input: AskDocumentQuestionInput): Prom
   }
 }
 
+// Earlier turns, so follow-ups like "and what if I leave after 6 months instead?" can be understood.
+const renderConversation = ({ conversationSummary, history = [] }: AskDocumentQuestionInput) => {
+    if (!conversationSummary && !history.length) {
+        return '';
+    }
+    const turns = history.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`);
+    return `
+The user has asked about this document before. Use the conversation to understand what the question refers to, but answer only from the document.
+
+<conversation>
+${[...(conversationSummary ? [`Summary of the earlier conversation: ${conversationSummary}`] : []), ...turns].join('\n')}
+</conversation>
+`;
+};
+
 const askDocumentQuestionFlow = ai.defineFlow(
     {
         name: 'askDocumentQuestionFlow',
@@ -55,8 +52,17 @@ const askDocumentQuestionFlow = ai.defineFlow(
         outputSchema: AskDocumentQuestionOutputSchema,
     },
     async (input) => {
-        const { output } = await ai.generate({
-            model: googleAI.model('gemini-1.5-flash-latest'),
+        let context: Part;
+        if (input.passages) {
+            context = { text: `The following passages were retrieved from the document as the most relevant to the question. They are not the whole document: if they don't answer the question, say so rather than guessing what the rest of it says.\n\n<passages>\n${input.passages}\n</passages>` };
+        } else if (input.fileAsBase64 && input.mimeType) {
+            context = documentPart('askQuestion', { fileAsBase64: input.fileAsBase64, mimeType: input.mimeType });
+        } else {
+            throw new Error('No document passages or file were provided.');
+        }
+
+        const { output } = await generateStructured({
+            ...modelFor('askQuestion'),
             prompt: [
                 {
                     text: `You are LegalIntel — an advanced legal-document AI assistant built to make complex legal agreements clear, safe, and actionable. Your mission is to simplify, detect risks, simulate scenarios, and guide users with negotiation-ready insights. Always operate within the bounds of the provided "context" (retrieved clauses) and NEVER invent facts beyond it. If insufficient info exists, say clearly: "This document does not provide enough detail; seek a lawyer review."
@@ -88,18 +94,14 @@ Core tasks (apply to every interaction):
    - End every answer with: “This is an AI-powered simplification, not legal advice.”
 
 You MUST ONLY use information from the provided document context to answer the user's question. First, find the most relevant clause(s) to the user's question, and then perform the analysis based on those clauses.
-
+${renderConversation(input)}
 User Question: "${input.question}"
 `,
                 },
-                {
-                    media: {
-                        url: `data:${input.mimeType};base64,${input.fileAsBase64}`,
-                    }
-                }
+                context,
             ],
-            output: { schema: AskDocumentQuestionOutputSchema },
+            schema: AskDocumentQuestionOutputSchema,
         });
-        return output!;
+        return output;
     }
 );
@@ -7,8 +7,7 @@
  * - ContinueRolePlayOutput - The return type for the function.
  */
 
-import { ai } from '@/ai/genkit';
-import { googleAI } from '@genkit-ai/googleai';
+import { ai, modelFor } from '@/ai/genkit';
 import { z } from 'genkit';
 import { Message, Part } from 'genkit/generate';
 
@@ -65,18 +64,10 @@ const continueRolePlayFlow = ai.defineFlow(
     const lastMessage = genkitMessages.slice(-1)[0];
 
     const { output } = await ai.generate({
-      model: googleAI.model('gemini-1.5-flash-latest'),
+      ...modelFor('continueRolePlay'),
       system: systemPrompt,
       history: history,
       prompt: lastMessage.content[0] as Part,
-      config: {
-        safetySettings: [
-            { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-            { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-            { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-            { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-        ],
-      },
     });
     
     if (!output?.text) {
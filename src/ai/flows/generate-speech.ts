@@ -7,8 +7,7 @@
  * - GenerateSpeechOutput - The return type for the generateSpeech function.
  */
 
-import { ai } from '@/ai/genkit';
-import { googleAI } from '@genkit-ai/googleai';
+import { ai, modelFor } from '@/ai/genkit';
 import { z } from 'genkit';
 import wav from 'wav';
 
@@ -58,9 +57,12 @@ const generateSpeechFlow = ai.defineFlow(
     outputSchema: GenerateSpeechOutputSchema,
   },
   async (query) => {
+    const { model, config, use } = modelFor('speech');
     const { media } = await ai.generate({
-      model: googleAI.model('gemini-2.5-flash-preview-tts'),
+      model,
+      use,
       config: {
+        ...config,
         responseModalities: ['AUDIO'],
         speechConfig: {
           voiceConfig: {
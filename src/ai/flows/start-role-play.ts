@@ -7,8 +7,8 @@
  * - StartRolePlayOutput - The return type for the function.
  */
 
-import { ai } from '@/ai/genkit';
-import { googleAI } from '@genkit-ai/googleai';
+import { ai, modelFor } from '@/ai/genkit';
+import { generateStructured } from '@/ai/structured-output';
 import { z } from 'genkit';
 
 const StartRolePlayInputSchema = z.object({
@@ -32,7 +32,7 @@ export async function startRolePlay(input: StartRolePlayInput): Promise<StartRol
   }
 }
 
-const startRolePlayPrompt = `You are an expert AI actor for legal role-playing simulations. Your task is to start a conversation based on the user's chosen role and scenario.
+const startRolePlayPrompt = (input: StartRolePlayInput) => `You are an expert AI actor for legal role-playing simulations. Your task is to start a conversation based on the user's chosen role and scenario.
 You will play the opposite role. For example, if the user is a "Client", you might be a "Lawyer". If the user is a "Judge", you might be a "Lawyer" or "Defendant".
 Your goal is to create an immersive and realistic legal simulation.
 
@@ -40,8 +40,8 @@ Generate two things:
 1.  **initialResponse**: Your first line of dialogue to kick off the role-play. It should be engaging and directly address the user's scenario from your assigned character's perspective.
 2.  **conversationSummary**: A concise, one-sentence summary of the provided scenario. This summary should be in the third person. For example: "This is a simulation where the user, acting as a client, is seeking advice on a domestic violence case."
 
-User's Role: "{{role}}"
-Scenario: "{{scenario}}"
+User's Role: "${input.role}"
+Scenario: "${input.scenario}"
 `;
 
 const startRolePlayFlow = ai.defineFlow(
@@ -51,20 +51,13 @@ const startRolePlayFlow = ai.defineFlow(
     outputSchema: StartRolePlayOutputSchema,
   },
   async (input) => {
-    const { output } = await ai.generate({
-      model: googleAI.model('gemini-1.5-flash-latest'),
-      prompt: startRolePlayPrompt,
-      input: input,
-      output: { schema: StartRolePlayOutputSchema },
-      config: {
-        safetySettings: [
-            { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-            { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-            { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-            { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-        ],
-      },
+    const { output } = await generateStructured({
+      ...modelFor('startRolePlay'),
+      prompt: startRolePlayPrompt(input),
+      schema: StartRolePlayOutputSchema,
+      // The summary only labels the session in history, so the scenario itself will do.
+      fallbacks: { conversationSummary: `The user, acting as ${input.role}, is role-playing this scenario: ${input.scenario}` },
     });
-    return output!;
+    return output;
   }
 );
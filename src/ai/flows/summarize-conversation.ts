@@ -0,0 +1,58 @@
+'use server';
+/**
+ * @fileOverview Condenses the older turns of a document Q&A conversation, so long conversations keep
+ * their context without sending every turn with each question.
+ *
+ * - summarizeConversation - A function that folds turns into a running summary.
+ * - SummarizeConversationInput - The input type for the function.
+ * - SummarizeConversationOutput - The return type for the function.
+ */
+
+import { ai, modelFor } from '@/ai/genkit';
+import { z } from 'genkit';
+import { ConversationTurnSchema } from '@/ai/schemas/ask-document-question';
+
+const SummarizeConversationInputSchema = z.object({
+  previousSummary: z.string().optional().describe('The summary of the turns before these, if any.'),
+  turns: z.array(ConversationTurnSchema).describe('The turns to fold into the summary, oldest first.'),
+});
+export type SummarizeConversationInput = z.infer<typeof SummarizeConversationInputSchema>;
+
+const SummarizeConversationOutputSchema = z.object({
+  summary: z.string().describe('A summary of the whole conversation so far.'),
+});
+export type SummarizeConversationOutput = z.infer<typeof SummarizeConversationOutputSchema>;
+
+export async function summarizeConversation(input: SummarizeConversationInput): Promise<SummarizeConversationOutput | { error: string }> {
+  try {
+    return await summarizeConversationFlow(input);
+  } catch (e: any) {
+    console.error("Error in summarizeConversationFlow", e);
+    return { error: 'Failed to summarize the conversation. ' + e.message };
+  }
+}
+
+const summarizeConversationFlow = ai.defineFlow(
+  {
+    name: 'summarizeConversationFlow',
+    inputSchema: SummarizeConversationInputSchema,
+    outputSchema: SummarizeConversationOutputSchema,
+  },
+  async (input) => {
+    const turns = input.turns.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`).join('\n');
+    const { text } = await ai.generate({
+      ...modelFor('summarizeConversation'),
+      prompt: `You are condensing a conversation between a user and an assistant about one of the user's legal documents, so the assistant can answer follow-up questions without rereading it.
+
+Write a summary of at most 150 words. Keep the user's situation and role (tenant, employee, borrower...), the scenarios and clauses they asked about, and the conclusions the assistant gave, with any figures, dates and deadlines. Leave out pleasantries and disclaimers.
+${input.previousSummary ? `\nSummary of the conversation before these turns:\n${input.previousSummary}\n` : ''}
+Turns to add to the summary:
+${turns}`,
+    });
+
+    if (!text.trim()) {
+      throw new Error('The AI returned an empty summary.');
+    }
+    return { summary: text.trim() };
+  }
+);
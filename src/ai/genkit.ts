@@ -1,17 +1,189 @@
-import {genkit} from 'genkit';
+import {embedderRef, genkit, modelRef, type EmbedderReference, type ModelReference, type Part, type z} from 'genkit';
+import type {ModelMiddleware} from 'genkit/model';
 import {googleAI} from '@genkit-ai/googleai';
+import {openAICompatible, compatOaiModelRef, defineCompatOpenAIEmbedder, defineCompatOpenAIModel} from '@genkit-ai/compat-oai';
+import { BUILTIN_EMBEDDER, builtinEmbedders } from '@/ai/embeddings';
+import { FAKE_MODEL_ENABLED, fakeModels } from '@/ai/fake-model';
 import { serviceAccount } from '@/lib/firebase-admin';
+import { usageRecorder } from '@/lib/usage';
 
 if (!serviceAccount) {
   throw new Error('The FIREBASE_SERVICE_ACCOUNT_JSON environment variable is not set for Genkit.');
 }
 
+// An OpenAI-compatible server (Ollama, llama.cpp, vLLM...) for keeping documents on self-hosted
+// infrastructure. Its models are named `local/<model>`, e.g. `local/llama3.1:8b`.
+const LOCAL_MODEL_BASE_URL = process.env.LOCAL_MODEL_BASE_URL;
+
 export const ai = genkit({
   plugins: [
     googleAI({
       serviceAccount: serviceAccount as any,
     }),
+    ...(LOCAL_MODEL_BASE_URL ? [openAICompatible({
+      name: 'local',
+      baseURL: LOCAL_MODEL_BASE_URL,
+      apiKey: process.env.LOCAL_MODEL_API_KEY || 'local', // Most local servers ignore the key but the client requires one
+      // The default resolver only knows chat models; `local/<model>` can also name an embedding model.
+      resolver: (client, actionType, actionName) => {
+        if (actionType === 'embedder') {
+          return defineCompatOpenAIEmbedder({ name: actionName, client });
+        }
+        if (actionType === 'model') {
+          return defineCompatOpenAIModel({ name: actionName, client, modelRef: compatOaiModelRef({ name: actionName }) });
+        }
+        return undefined;
+      },
+    })] : []),
+    builtinEmbedders(),
+    ...(FAKE_MODEL_ENABLED ? [fakeModels()] : []),
   ],
 });
 
 export const proModel = googleAI.model('gemini-1.5-pro-latest');
+
+/**
+ * Model configuration per flow. Each flow calls `modelFor(flow)` instead of naming a model, so models,
+ * temperatures and safety profiles can be changed through the environment:
+ *
+ * - `AI_MODEL`: default model for every flow except speech
+ * - `AI_<FLOW>_MODEL`, `AI_<FLOW>_TEMPERATURE`, `AI_<FLOW>_SAFETY`: per-flow overrides, where FLOW is
+ *   CLASSIFY, ASK_QUESTION, SUMMARIZE_CONVERSATION, START_ROLE_PLAY, CONTINUE_ROLE_PLAY or SPEECH
+ *
+ * Models are `googleai/<model>` (the default provider, so the prefix can be left off) or `local/<model>`.
+ * `AI_FAKE_MODEL=true` overrides all of this with the offline fake models in `fake-model.ts`.
+ */
+export type ModelFlow = 'classify' | 'askQuestion' | 'summarizeConversation' | 'startRolePlay' | 'continueRolePlay' | 'speech';
+
+// 'default' leaves the provider's own filters in place; 'relaxed' only blocks high-probability harm;
+// 'off' blocks nothing, for role-play about crimes and abuse. Local models have no safety settings.
+export type SafetyProfile = 'default' | 'relaxed' | 'off';
+
+type FlowModelSettings = {
+  model: string;
+  temperature?: number;
+  safety: SafetyProfile;
+};
+
+const DEFAULT_TEXT_MODEL = process.env.AI_MODEL || 'googleai/gemini-1.5-flash-latest';
+
+const FLOW_DEFAULTS: Record<ModelFlow, FlowModelSettings> = {
+  classify: { model: DEFAULT_TEXT_MODEL, safety: 'default' },
+  askQuestion: { model: DEFAULT_TEXT_MODEL, safety: 'default' },
+  summarizeConversation: { model: DEFAULT_TEXT_MODEL, safety: 'default' },
+  startRolePlay: { model: DEFAULT_TEXT_MODEL, safety: 'off' },
+  continueRolePlay: { model: DEFAULT_TEXT_MODEL, safety: 'off' },
+  speech: { model: 'googleai/gemini-2.5-flash-preview-tts', safety: 'default' },
+};
+
+const SAFETY_CATEGORIES = ['HARM_CATEGORY_HATE_SPEECH', 'HARM_CATEGORY_DANGEROUS_CONTENT', 'HARM_CATEGORY_HARASSMENT', 'HARM_CATEGORY_SEXUALLY_EXPLICIT'] as const;
+const SAFETY_THRESHOLDS: Record<Exclude<SafetyProfile, 'default'>, string> = {
+  relaxed: 'BLOCK_ONLY_HIGH',
+  off: 'BLOCK_NONE',
+};
+
+const envName = (flow: ModelFlow) => flow.replace(/[A-Z]/g, c => `_${c}`).toUpperCase();
+
+const flowSettings = (flow: ModelFlow): FlowModelSettings => {
+  const prefix = `AI_${envName(flow)}`;
+  const defaults = FLOW_DEFAULTS[flow];
+  const temperature = process.env[`${prefix}_TEMPERATURE`];
+  const safety = process.env[`${prefix}_SAFETY`] ?? defaults.safety;
+  if (!['default', 'relaxed', 'off'].includes(safety)) {
+    throw new Error(`${prefix}_SAFETY must be 'default', 'relaxed' or 'off', not '${safety}'.`);
+  }
+  if (temperature && Number.isNaN(Number(temperature))) {
+    throw new Error(`${prefix}_TEMPERATURE must be a number, not '${temperature}'.`);
+  }
+  return {
+    model: FAKE_MODEL_ENABLED ? `fake/${flow}` : process.env[`${prefix}_MODEL`] || defaults.model,
+    temperature: temperature ? Number(temperature) : defaults.temperature,
+    safety: safety as SafetyProfile,
+  };
+};
+
+const parseModelName = (model: string) => {
+  const slash = model.indexOf('/');
+  const provider = slash < 0 ? 'googleai' : model.slice(0, slash);
+  const name = slash < 0 ? model : model.slice(slash + 1);
+  if (provider !== 'googleai' && provider !== 'local' && provider !== 'fake') {
+    throw new Error(`Unknown model provider '${provider}' in '${model}'. Use 'googleai/<model>' or 'local/<model>'.`);
+  }
+  if (provider === 'fake' && !FAKE_MODEL_ENABLED) {
+    throw new Error(`'${model}' needs AI_FAKE_MODEL=true.`);
+  }
+  if (provider === 'local' && !LOCAL_MODEL_BASE_URL) {
+    throw new Error(`'${model}' needs LOCAL_MODEL_BASE_URL to point at an OpenAI-compatible server.`);
+  }
+  return { provider, name };
+};
+
+// The flow's model as `provider/model`, e.g. for recording which model produced a result.
+export const configuredModel = (flow: ModelFlow) => {
+  const { provider, name } = parseModelName(flowSettings(flow).model);
+  return `${provider}/${name}`;
+};
+
+// Whether the flow's model is given uploaded files as-is. Local and fake models only get the document's text.
+export const modelReadsFiles = (flow: ModelFlow) => parseModelName(flowSettings(flow).model).provider === 'googleai';
+
+/**
+ * The `model` and `config` to spread into `ai.generate` for a flow, and the middleware that records the
+ * call's token usage and cost (see src/lib/usage.ts).
+ */
+export function modelFor(flow: ModelFlow): { model: ModelReference<z.ZodTypeAny>, config: Record<string, unknown>, use: ModelMiddleware[] } {
+  const settings = flowSettings(flow);
+  const { provider, name } = parseModelName(settings.model);
+  const config: Record<string, unknown> = {};
+  const use = [usageRecorder(flow, `${provider}/${name}`)];
+  if (settings.temperature !== undefined) {
+    config.temperature = settings.temperature;
+  }
+
+  if (provider === 'local') {
+    return { model: compatOaiModelRef({ name: `local/${name}` }), config, use };
+  }
+  if (provider === 'fake') {
+    return { model: modelRef({ name: `fake/${name}` }), config, use };
+  }
+  if (settings.safety !== 'default') {
+    const threshold = SAFETY_THRESHOLDS[settings.safety];
+    config.safetySettings = SAFETY_CATEGORIES.map(category => ({ category, threshold }));
+  }
+  return { model: googleAI.model(name), config, use };
+}
+
+/**
+ * The embedder for indexing documents for Q&A retrieval, from `AI_EMBEDDING_MODEL`: `builtin/hashed-words`
+ * (the default, which runs in-process and needs no API), `googleai/<model>` or `local/<model>`.
+ */
+export const configuredEmbedder = () => process.env.AI_EMBEDDING_MODEL || BUILTIN_EMBEDDER;
+
+export function embedderFor(): EmbedderReference<z.ZodTypeAny> {
+  const configured = configuredEmbedder();
+  if (configured === BUILTIN_EMBEDDER) {
+    return embedderRef({ name: BUILTIN_EMBEDDER });
+  }
+  const { provider, name } = parseModelName(configured);
+  if (provider === 'local') {
+    return embedderRef({ name: `local/${name}` });
+  }
+  if (provider === 'fake') {
+    throw new Error(`AI_EMBEDDING_MODEL can't be a fake model; use '${BUILTIN_EMBEDDER}' for offline runs.`);
+  }
+  return googleAI.embedder(name);
+}
+
+/**
+ * The prompt part carrying a document. Gemini reads the file itself; local models are sent plain-text
+ * documents inline, since OpenAI-compatible servers only accept images as media.
+ */
+export function documentPart(flow: ModelFlow, document: { fileAsBase64: string, mimeType: string }): Part {
+  if (modelReadsFiles(flow)) {
+    return { media: { url: `data:${document.mimeType};base64,${document.fileAsBase64}` } };
+  }
+  if (document.mimeType !== 'text/plain') {
+    throw new Error(`The model configured for ${flow} can only read text, not '${document.mimeType}' files.`);
+  }
+  return { text: `<document>\n${Buffer.from(document.fileAsBase64, 'base64').toString('utf-8')}\n</document>` };
+}
@@ -0,0 +1,45 @@
+/**
+ * @fileOverview Input and output schemas for the document Q&A flow.
+ *
+ * These live outside the flow file because a 'use server' module may only export async functions.
+ */
+
+import { z } from 'genkit';
+
+export const ConversationTurnSchema = z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+});
+export type ConversationTurn = z.infer<typeof ConversationTurnSchema>;
+
+export const AskDocumentQuestionInputSchema = z.object({
+    // Either the passages retrieved for the question, or the whole file when it has no extracted text to retrieve from.
+    passages: z.string().optional().describe("The passages of the document most relevant to the question, each in a <passage> tag with its location."),
+    fileAsBase64: z.string().optional().describe("The file content as a Base64 encoded string."),
+    mimeType: z.string().optional().describe("The mime type of the file."),
+    question: z.string().describe("The user's question or scenario to simulate about the document."),
+    conversationSummary: z.string().optional().describe("A summary of the earlier part of the conversation, when it has grown too long to send in full."),
+    history: z.array(ConversationTurnSchema).optional().describe("The most recent turns of the conversation before this question, oldest first."),
+});
+export type AskDocumentQuestionInput = z.infer<typeof AskDocumentQuestionInputSchema>;
+
+export const AskDocumentQuestionOutputSchema = z.object({
+    plainEnglish: z.string().describe("A plain-English rewrite of the clause in simple, everyday language (max 2 sentences)."),
+    analysis: z.object({
+        parties: z.array(z.string()).describe("The parties involved in the clause."),
+        obligations: z.array(z.string()).describe("The key obligations mentioned in the clause."),
+        deadlinesOrPenalties: z.array(z.string()).describe("Any deadlines or penalties mentioned."),
+        rightsWaivedOrGained: z.array(z.string()).describe("Any rights waived or gained by the parties."),
+        severity: z.enum(["Low", "Medium", "High"]).describe("The severity score of the clause."),
+        severityJustification: z.string().describe("A one-sentence justification for the severity score."),
+    }),
+    riskHeatmapLabel: z.enum(["Safe", "Caution", "High-Risk"]).describe("A risk heatmap label for the clause."),
+    riskJustification: z.string().describe("A short phrase justifying the risk label, tied to the source text."),
+    negotiationHelper: z.object({
+        alternativeClause: z.string().describe("A suggested fairer or safer alternative to the clause."),
+        messageTemplate: z.string().describe("A polite negotiation message template the user could send."),
+    }),
+    sources: z.array(z.string()).describe("The exact source spans (verbatim copy) from the document that support the answer."),
+    confidenceScore: z.number().min(0).max(100).describe("A confidence score (0-100) in the accuracy of the answer."),
+});
+export type AskDocumentQuestionOutput = z.infer<typeof AskDocumentQuestionOutputSchema>;
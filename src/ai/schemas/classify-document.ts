@@ -0,0 +1,147 @@
+/**
+ * @fileOverview Input and output schemas for the document classification flow.
+ *
+ * These live outside the flow file because a 'use server' module may only export async functions.
+ */
+
+import { z } from 'genkit';
+
+export const ClassifyDocumentInputSchema = z.object({
+  fileAsBase64: z.string().describe('The file content as a Base64 encoded string.'),
+  mimeType: z.string().describe('The mime type of the file.'),
+});
+export type ClassifyDocumentInput = z.infer<typeof ClassifyDocumentInputSchema>;
+
+export const ClassifyDocumentOutputSchema = z.object({
+  executiveSummary: z.object({
+    overview: z.string().describe('A 5-7 sentence plain-English overview of the entire document.'),
+    balanceOfPower: z.string().describe('Which party benefits more overall (e.g., "Party A Favored (70/30)", "Balanced").'),
+  }),
+  clauseByClause: z.array(z.object({
+    clause: z.string().describe('The clause reference: its section number if it has one, then a short verbatim quote in double quotes (e.g. 5.2 "The tenant shall not sublet...").'),
+    simplification: z.string().describe('A 1-3 sentence plain-English rewrite of the clause.'),
+    riskLevel: z.enum(['Low', 'Medium', 'High']).describe('The risk level of the clause.'),
+    riskReason: z.string().optional().describe('Why the clause is risky (if applicable).'),
+    suggestions: z.array(z.string()).describe('2-3 suggested user actions.'),
+    clarityScore: z.number().min(1).max(10).describe('A score from 1-10 on how easy the clause is to understand.'),
+  })).describe('A clause-by-clause simplification of the document.'),
+  riskRadar: z.array(z.object({
+    clause: z.string().describe('The clause reference of the high-risk item: its section number if it has one, then a short verbatim quote in double quotes.'),
+    risk: z.string().describe('An explanation of what the risk means in everyday language.'),
+    suggestion: z.string().describe('A practical next step or precaution, with user-specific guidance.'),
+  })).describe('The top 3-5 clauses that pose the highest risk.'),
+  hiddenTraps: z.array(z.object({
+    clause: z.string().describe('The clause reference where a hidden trap was found.'),
+    trap: z.string().describe('An explanation of the hidden fee, renewal, or extra duty.'),
+  })).describe('Clauses that bury fees, renewals, or extra duties.'),
+  jargonBuster: z.array(z.object({
+    term: z.string().describe('The legal term.'),
+    explanation: z.string().describe('A plain-English explanation of the term.'),
+    clause: z.string().describe('Where the term appears in the document.'),
+  })).describe('A glossary of legal terms found in the document.'),
+  timeBombDetector: z.array(z.object({
+    action: z.string().describe('The action or event.'),
+    deadline: z.string().describe('The deadline for the action.'),
+    consequence: z.string().describe('The consequence of missing the deadline.'),
+  })).describe('A timeline of important deadlines, renewals, or penalty escalations.'),
+  privacyDataUse: z.array(z.object({
+    clause: z.string().describe('The clause reference for the privacy policy.'),
+    dataShared: z.string().describe('What data is shared.'),
+    sharedWith: z.string().describe('With whom the data is shared.'),
+    duration: z.string().describe('For how long the data is used or stored.'),
+  })).describe('An explanation of privacy and data use clauses.'),
+  consumerChecklist: z.array(z.string()).describe('A simple checklist of key things the user must confirm before signing.'),
+  negotiationPlaybook: z.array(z.object({
+    clause: z.string().describe('The clause to negotiate.'),
+    strategy: z.string().describe('A suggested negotiation strategy.'),
+  })).describe('Negotiation strategies for risky clauses.'),
+  costBenefitSnapshot: z.object({
+    summary: z.string().describe('A summary of whether potential costs outweigh benefits (e.g., "Potential Costs > Benefits", "Balanced").'),
+    costs: z.array(z.string()).describe('List of potential financial exposures.'),
+    benefits: z.array(z.string()).describe('List of benefits and rights.'),
+  }),
+  fairnessScoreJurisdiction: z.object({
+    fairnessScore: z.number().min(1).max(10).describe('An overall fairness score from 1-10.'),
+    fairnessReasoning: z.string().describe('A 2-3 sentence explanation for the fairness score.'),
+    jurisdiction: z.string().describe('The governing law/jurisdiction.'),
+    jurisdictionImpact: z.string().describe('The potential impact of the jurisdiction.'),
+  }),
+  complianceEthicalNote: z.object({
+    complianceWarning: z.string().optional().describe('A warning if a clause may conflict with common consumer protection laws.'),
+    ethicalNote: z.string().optional().describe('A short note on potential ethical or human impact.'),
+  }),
+  actionPrioritizer: z.object({
+    critical: z.array(z.string()).describe('Critical priority actions.'),
+    important: z.array(z.string()).describe('Important priority actions.'),
+    optional: z.array(z.string()).describe('Optional priority actions.'),
+  }),
+  expenditureAnalysis: z.object({
+    proceedingType: z.string().describe("The most likely type of legal proceeding (e.g., 'Small Claims Court', 'Civil Litigation', 'Arbitration')."),
+    estimatedHearings: z.number().describe("An estimated number of hearings or sessions required for the proceeding."),
+    costFactors: z.array(z.string()).describe("A list of the primary factors influencing the cost (e.g., 'Lawyer fees', 'Court filing fees', 'Expert witness costs')."),
+    disclaimer: z.string().describe("A standard disclaimer that this is a rough estimate and not a guarantee."),
+  }).describe("An analysis of potential legal expenditures."),
+  lawyerCategory: z.string().describe("The specific category of lawyer that would be best suited for this document (e.g., 'Contract Law', 'Family Law', 'Tenant Law', 'Intellectual Property'). DO NOT invent a lawyer's name or contact information."),
+});
+
+export type ClassifyDocumentOutput = z.infer<typeof ClassifyDocumentOutputSchema>;
+
+// The flows return the model's output plus the top-level sections it couldn't produce validly, which
+// were filled with placeholders (see src/ai/structured-output.ts). The model never sees this field.
+const DegradedSectionsSchema = z.array(z.string()).describe('Sections filled with placeholders because the model could not produce them.');
+
+export const ClassifyDocumentResultSchema = ClassifyDocumentOutputSchema.extend({
+  degradedSections: DegradedSectionsSchema,
+});
+export type ClassifyDocumentResult = z.infer<typeof ClassifyDocumentResultSchema>;
+
+// Long documents are analyzed in parts (see src/lib/long-documents.ts). Each part yields the clause-level
+// fields; a reduce step then writes the document-level ones from all the parts' results.
+
+export const ClassifyDocumentChunkInputSchema = ClassifyDocumentInputSchema.extend({
+  part: z.number().describe('The 1-based number of this part.'),
+  totalParts: z.number().describe('How many parts the document was split into.'),
+});
+export type ClassifyDocumentChunkInput = z.infer<typeof ClassifyDocumentChunkInputSchema>;
+
+export const ClassifyDocumentChunkOutputSchema = ClassifyDocumentOutputSchema.pick({
+  clauseByClause: true,
+  hiddenTraps: true,
+  jargonBuster: true,
+  timeBombDetector: true,
+  privacyDataUse: true,
+  negotiationPlaybook: true,
+}).extend({
+  summary: z.string().describe('A 2-4 sentence plain-English summary of what this part of the document covers.'),
+  keyFacts: z.array(z.string()).describe('Facts in this part that matter for the document as a whole: parties, governing law, fees, term, renewal, termination and dispute resolution.'),
+});
+export type ClassifyDocumentChunkOutput = z.infer<typeof ClassifyDocumentChunkOutputSchema>;
+
+export const ClassifyDocumentChunkResultSchema = ClassifyDocumentChunkOutputSchema.extend({
+  degradedSections: DegradedSectionsSchema,
+});
+export type ClassifyDocumentChunkResult = z.infer<typeof ClassifyDocumentChunkResultSchema>;
+
+export const CombineChunkAnalysesInputSchema = z.object({
+  totalParts: z.number().describe('How many parts the document was split into.'),
+  partAnalyses: z.string().describe('The analyses of the parts that could be analyzed, as JSON.'),
+});
+export type CombineChunkAnalysesInput = z.infer<typeof CombineChunkAnalysesInputSchema>;
+
+export const CombineChunkAnalysesOutputSchema = ClassifyDocumentOutputSchema.pick({
+  executiveSummary: true,
+  riskRadar: true,
+  consumerChecklist: true,
+  costBenefitSnapshot: true,
+  fairnessScoreJurisdiction: true,
+  complianceEthicalNote: true,
+  actionPrioritizer: true,
+  expenditureAnalysis: true,
+  lawyerCategory: true,
+});
+export type CombineChunkAnalysesOutput = z.infer<typeof CombineChunkAnalysesOutputSchema>;
+
+export const CombineChunkAnalysesResultSchema = CombineChunkAnalysesOutputSchema.extend({
+  degradedSections: DegradedSectionsSchema,
+});
+export type CombineChunkAnalysesResult = z.infer<typeof CombineChunkAnalysesResultSchema>;
@@ -0,0 +1,143 @@
+import { GenerationBlockedError, z, type GenerateOptions, type Part } from 'genkit';
+import { extractJson } from 'genkit/extract';
+import type { ModelMiddleware } from 'genkit/model';
+import { ai } from '@/ai/genkit';
+
+/**
+ * Structured generation that survives a model returning nothing, or JSON that only partly matches the
+ * schema. The output is checked against the zod schema; when it doesn't match, the model is asked again
+ * with the validation errors. If the last attempt still doesn't match, every top-level section that did
+ * validate is kept and the rest are replaced by the caller's fallbacks and listed in `degradedSections`.
+ * The call only fails when a section without a fallback can't be recovered.
+ *
+ * Blocked responses and API errors are thrown as they are, so the task queue can retry transient ones.
+ */
+
+// Extra attempts after the first, each with the previous attempt's validation errors.
+const REPAIR_ATTEMPTS = Number(process.env.AI_SCHEMA_REPAIR_ATTEMPTS ?? 2);
+const MAX_REPORTED_ISSUES = 20;
+const MAX_ECHOED_OUTPUT_CHARS = 4000;
+
+// Placeholder for text fields of a section the model couldn't produce. The section is also listed in
+// `degradedSections`, so the UI can say so instead of showing the placeholder as a finding.
+export const NOT_FOUND = 'Not found: this section could not be generated for this document.';
+
+type StructuredGenerateOptions<S extends z.AnyZodObject> = Omit<GenerateOptions, 'prompt' | 'output'> & {
+  prompt: string | Part[];
+  schema: S;
+  // Values for top-level sections that may be left out when the model can't produce them.
+  fallbacks?: Partial<z.infer<S>>;
+};
+
+export type StructuredResult<T> = {
+  output: T;
+  // Top-level sections that were filled from fallbacks or lost invalid items. Empty when the output was valid.
+  degradedSections: string[];
+};
+
+type Attempt = {
+  data: unknown;
+  text: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Runs one generation and returns whatever the model produced, valid or not.
+async function attemptGeneration(options: Omit<GenerateOptions, 'prompt' | 'output'>, prompt: Part[], schema: z.AnyZodObject): Promise<Attempt> {
+  const captured: { text: string | null } = { text: null };
+  const captureText: ModelMiddleware = async (request, next) => {
+    const response = await next(request);
+    captured.text = response.message?.content.map(part => part.text ?? '').join('') ?? '';
+    return response;
+  };
+
+  try {
+    const response = await ai.generate({ ...options, prompt, output: { schema }, use: [...(options.use ?? []), captureText] });
+    return { data: response.output, text: captured.text ?? '' };
+  } catch (e) {
+    // Genkit rejects output that doesn't match the schema; repair it here instead. Errors raised before
+    // the model answered, and safety blocks, are real failures.
+    if (captured.text === null || e instanceof GenerationBlockedError) {
+      throw e;
+    }
+    return { data: captured.text.trim() ? extractJson(captured.text, false) : null, text: captured.text };
+  }
+}
+
+const describeIssues = (error: z.ZodError) => error.issues
+  .slice(0, MAX_REPORTED_ISSUES)
+  .map(issue => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+const repairPrompt = (attempt: Attempt, issues: string[]): Part => ({
+  text: attempt.text.trim()
+    ? `Your previous response did not match the required JSON schema:
+${issues.join('\n')}
+
+Previous response:
+${attempt.text.slice(0, MAX_ECHOED_OUTPUT_CHARS)}
+
+Respond again with the complete JSON object, fixing these problems and keeping everything that was correct.`
+    : 'Your previous response was empty. Respond with the complete JSON object described by the schema.',
+});
+
+// How many top-level sections of the output are valid, to pick the most complete attempt to salvage.
+const validSections = (schema: z.AnyZodObject, data: unknown) => isRecord(data)
+  ? Object.entries(schema.shape).filter(([key, field]) => (field as z.ZodTypeAny).safeParse(data[key]).success).length
+  : 0;
+
+function salvage<S extends z.AnyZodObject>(schema: S, data: unknown, fallbacks: Partial<z.infer<S>>, issues: string[]): StructuredResult<z.infer<S>> {
+  const source = isRecord(data) ? data : {};
+  const output: Record<string, unknown> = {};
+  const degradedSections: string[] = [];
+  const missing: string[] = [];
+
+  for (const [key, field] of Object.entries(schema.shape) as [string, z.ZodTypeAny][]) {
+    const value = source[key];
+    const parsed = field.safeParse(value);
+    if (parsed.success) {
+      output[key] = parsed.data;
+    } else if (field instanceof z.ZodArray && Array.isArray(value)) {
+      // Keep the items that are valid rather than dropping the whole list.
+      output[key] = value.flatMap((item) => {
+        const parsedItem = field.element.safeParse(item);
+        return parsedItem.success ? [parsedItem.data] : [];
+      });
+      degradedSections.push(key);
+    } else if (key in fallbacks) {
+      output[key] = fallbacks[key as keyof typeof fallbacks];
+      degradedSections.push(key);
+    } else {
+      missing.push(key);
+    }
+  }
+
+  if (missing.length) {
+    throw new Error(`The model's output was invalid after ${REPAIR_ATTEMPTS + 1} attempts; could not recover ${missing.join(', ')}.\n${issues.join('\n')}`);
+  }
+  return { output: schema.parse(output), degradedSections };
+}
+
+export async function generateStructured<S extends z.AnyZodObject>({ prompt, schema, fallbacks = {}, ...options }: StructuredGenerateOptions<S>): Promise<StructuredResult<z.infer<S>>> {
+  const basePrompt: Part[] = typeof prompt === 'string' ? [{ text: prompt }] : prompt;
+  let best: unknown = null;
+  let issues: string[] = [];
+  let previous: Attempt | null = null;
+
+  for (let attempt = 0; attempt <= REPAIR_ATTEMPTS; attempt++) {
+    const result: Attempt = await attemptGeneration(options, previous ? [...basePrompt, repairPrompt(previous, issues)] : basePrompt, schema);
+    const parsed = schema.safeParse(result.data);
+    if (parsed.success) {
+      return { output: parsed.data, degradedSections: [] };
+    }
+    if (validSections(schema, result.data) >= validSections(schema, best)) {
+      best = result.data;
+    }
+    issues = describeIssues(parsed.error);
+    previous = result;
+  }
+
+  const salvaged = salvage(schema, best, fallbacks, issues);
+  console.warn(`Structured output still invalid after ${REPAIR_ATTEMPTS + 1} attempts; degraded sections: ${salvaged.degradedSections.join(', ')}`);
+  return salvaged;
+}
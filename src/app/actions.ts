@@ -1,171 +1,232 @@
 
 'use server';
 
-import { classifyDocument, type ClassifyDocumentOutput } from '@/ai/flows/classify-uploaded-document';
-import { askDocumentQuestion, type AskDocumentQuestionOutput } from '@/ai/flows/ask-document-question';
 import { generateSpeech, type GenerateSpeechOutput } from '@/ai/flows/generate-speech';
 import { startRolePlay, type StartRolePlayInput, type StartRolePlayOutput } from '@/ai/flows/start-role-play';
 import { continueRolePlay, type ContinueRolePlayInput, type ContinueRolePlayOutput } from '@/ai/flows/continue-role-play';
 import { FieldValue } from 'firebase-admin/firestore';
 import { z } from 'zod';
 import { db, auth, storage } from '@/lib/firebase-admin';
+import { cancelQueuedTask, enqueueTask } from '@/lib/task-queue';
+import { getDocumentSignedUrl, readDocument } from '@/lib/document-storage';
+import { withUsageAttribution } from '@/lib/usage';
+import { authorize } from '@/lib/authorization';
+import { getUserAccess, hasAssignedRole, isNewAccount, setUserRole } from '@/lib/roles';
+import { consumeQuota, getQuotaLimits, getQuotaUsage, quotaActionError, refundQuota, setQuotaOverrides, withQuota } from '@/lib/quotas';
+import type { QuotaActionError, QuotaCharge, QuotaKind, QuotaLimits, UserQuotaLimits } from '@/lib/quota-types';
+import { isInScope, ROLE_DEFINITIONS, roleNeedsFirm, USER_ROLES, type Caller, type UserRole } from '@/lib/auth-types';
+import { extractDocumentText } from '@/lib/document-text';
+import type { CanonicalDocument } from '@/lib/anchor-types';
+import { isOwnDocumentPath, ScannedPagesManifestSchema } from '@/lib/documents';
+import { getTaskDefinition, type CachedTaskResult, type TaskInput, type TaskOutput, type TaskType } from '@/lib/tasks';
+
+
+export async function createTask<T extends TaskType>(
+    idToken: string,
+    taskData: { type: T, payload: TaskInput<T> },
+    options: { reanalyze?: boolean } = {},
+): Promise<{ taskId: string } | { cached: CachedTaskResult<TaskOutput<T>> } | QuotaActionError> {
+    const caller = await authorize(idToken);
+    if ('error' in caller) {
+        return caller;
+    }
+    const userId = caller.uid;
+    if (!taskData) {
+        return { error: 'Task data is required.' };
+    }
 
+    const definition = getTaskDefinition(taskData.type);
+    if (!definition) {
+        return { error: `Unknown task type '${taskData.type}'.` };
+    }
 
-// Helper to update task status in Firestore
-const updateTask = async (userId: string, taskId: string, data: any) => {
-    const taskRef = db.collection('users').doc(userId).collection('tasks').doc(taskId);
-    await taskRef.update(data);
-};
-
-
-export async function createTask(userId: string, taskData: { type: string, payload: any }): Promise<{ taskId: string } | { error: string }> {
-    if (!userId || !taskData) {
-        return { error: 'User ID and task data are required.' };
+    const validation = definition.input.safeParse(taskData.payload);
+    if (!validation.success) {
+        return { error: 'Invalid task payload. ' + validation.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') };
     }
-    try {
-        const taskRef = await db.collection('users').doc(userId).collection('tasks').add({
-            ...taskData,
-            status: 'pending',
-            createdAt: FieldValue.serverTimestamp(),
-        });
 
-        // This is where a background worker would normally take over.
-        // For this environment, we'll process it immediately but the client won't wait.
-        if (taskData.type === 'classifyDocument') {
-            processClassifyDocumentTask(userId, taskRef.id, taskData.payload);
-        } else if (taskData.type === 'askQuestion') {
-            processAskQuestionTask(userId, taskRef.id, taskData.payload);
+    // Serve an identical earlier result (e.g. the same file analyzed by the same model) unless
+    // the user explicitly asked to re-run it.
+    if (definition.findCachedResult && !options.reanalyze) {
+        try {
+            const cached = await definition.findCachedResult(validation.data, { userId });
+            if (cached) {
+                return { cached };
+            }
+        } catch (error) {
+            // A failed lookup shouldn't block the analysis itself.
+            console.error('Error looking up cached task result:', error);
         }
+    }
 
-        return { taskId: taskRef.id };
+    try {
+        let charge: QuotaCharge | null = null;
+        if (definition.quota) {
+            const { kind, scope } = definition.quota(validation.data);
+            charge = await consumeQuota(userId, kind, 1, scope);
+        }
+        // The task is picked up by a worker (see src/lib/task-worker.ts), not processed here,
+        // so it survives this request ending or the instance being recycled. The charge goes with
+        // it, so the worker can refund it if the task fails.
+        try {
+            const taskId = await enqueueTask(userId, taskData.type, validation.data, { maxAttempts: definition.maxAttempts, stages: definition.stages, quota: charge });
+            return { taskId };
+        } catch (error) {
+            // Nothing was queued, so the user shouldn't be charged for it.
+            await refundQuota(userId, charge).catch(e => console.error('Error refunding quota:', e));
+            throw error;
+        }
     } catch (error: any) {
+        const quotaError = quotaActionError(error);
+        if (quotaError) {
+            return quotaError;
+        }
         console.error('Error creating task:', error);
         return { error: 'Failed to create the task. ' + error.message };
     }
 }
 
 
-async function processClassifyDocumentTask(userId: string, taskId: string, payload: any) {
+export async function cancelTask(idToken: string, taskId: string): Promise<{ success: boolean } | { error: string }> {
+    const caller = await authorize(idToken);
+    if ('error' in caller) {
+        return caller;
+    }
+    const userId = caller.uid;
+    if (!taskId) {
+        return { error: 'Task ID is required.' };
+    }
     try {
-        await updateTask(userId, taskId, { status: 'processing' });
-        const result = await classifyDocument(payload);
-
-        if ('error' in result) {
-            throw new Error(result.error);
+        const cancelled = await cancelQueuedTask(userId, taskId);
+        if (!cancelled) {
+            return { error: 'The task has already finished.' };
         }
-        
-        let recommendedLawyers: any[] = [];
-        let estimatedCostRange = 'N/A';
-
-        if (result.lawyerCategory) {
-            const lawyersSnapshot = await db.collection('lawyers')
-                .where('specialty', '==', result.lawyerCategory)
-                .limit(3)
-                .get();
-
-            if (!lawyersSnapshot.empty) {
-                recommendedLawyers = lawyersSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-
-                // Calculate estimated cost range
-                if (result.expenditureAnalysis.estimatedHearings > 0 && recommendedLawyers.length > 0) {
-                    const costs = recommendedLawyers
-                        .map(l => l.costPerHearing * result.expenditureAnalysis.estimatedHearings)
-                        .filter(c => c > 0);
-                    
-                    if (costs.length > 0) {
-                        const minCost = Math.min(...costs);
-                        const maxCost = Math.max(...costs);
-                        estimatedCostRange = `₹${minCost.toLocaleString()} - ₹${maxCost.toLocaleString()}`;
-                    }
-                }
-            }
-        }
-        
-        const finalResult = { 
-            ...result, 
-            recommendedLawyers,
-            expenditureAnalysis: {
-                ...result.expenditureAnalysis,
-                estimatedCostRange: estimatedCostRange,
-            }
-        };
+        return { success: true };
+    } catch (error: any) {
+        console.error('Error cancelling task:', error);
+        return { error: 'Failed to cancel the task. ' + error.message };
+    }
+}
 
-        // Save to history
-        try {
-            await db.collection('users').doc(userId).collection('history').add({
-                ...finalResult,
-                fileName: payload.fileName,
-                fileAsBase64: payload.fileAsBase64,
-                mimeType: payload.mimeType,
-                createdAt: FieldValue.serverTimestamp(),
-            });
-        } catch (dbError) {
-            console.error('Firestore history write error:', dbError);
-            // Don't fail the whole task if history write fails
-        }
-        
-        await updateTask(userId, taskId, { status: 'completed', result: finalResult });
 
-    } catch (e: any) {
-        console.error(`Error processing classify task ${taskId}:`, e);
-        await updateTask(userId, taskId, { status: 'failed', error: e.message });
+// For a scanned document, pass the 1-based `page` to get a link to that page's image rather than the manifest.
+export async function getDocumentUrl(idToken: string, storagePath: string, page?: number): Promise<{ url: string } | { error: string }> {
+    const caller = await authorize(idToken);
+    if ('error' in caller) {
+        return caller;
+    }
+    const userId = caller.uid;
+    if (!storagePath) {
+        return { error: 'Storage path is required.' };
+    }
+    if (!isOwnDocumentPath(userId, storagePath)) {
+        return { error: 'You do not have access to this document.' };
+    }
+    try {
+        let targetPath = storagePath;
+        if (page !== undefined) {
+            const manifest = ScannedPagesManifestSchema.parse(JSON.parse((await readDocument(storagePath)).toString('utf-8')));
+            const pageDoc = manifest.pages[page - 1];
+            if (!pageDoc || !isOwnDocumentPath(userId, pageDoc.storagePath)) {
+                return { error: `Page ${page} was not found in this document.` };
+            }
+            targetPath = pageDoc.storagePath;
+        }
+        const url = await getDocumentSignedUrl(targetPath);
+        return { url };
+    } catch (error: any) {
+        console.error('Error creating document URL:', error);
+        return { error: 'Failed to get a link to the document. ' + error.message };
     }
 }
 
-async function processAskQuestionTask(userId: string, taskId: string, payload: any) {
+// The canonical text that analysis anchors point into, for the side-by-side document viewer.
+export async function getDocumentText(idToken: string, storagePath: string, mimeType: string): Promise<{ document: CanonicalDocument } | { error: string }> {
+    const caller = await authorize(idToken);
+    if ('error' in caller) {
+        return caller;
+    }
+    const userId = caller.uid;
+    if (!storagePath || !mimeType) {
+        return { error: 'Storage path and MIME type are required.' };
+    }
+    if (!isOwnDocumentPath(userId, storagePath)) {
+        return { error: 'You do not have access to this document.' };
+    }
     try {
-        await updateTask(userId, taskId, { status: 'processing' });
-        const result = await askDocumentQuestion(payload);
-
-        if ('error' in result) {
-            throw new Error(result.error);
-        }
-        
-        await updateTask(userId, taskId, { status: 'completed', result });
-    } catch (e: any) {
-        console.error(`Error processing question task ${taskId}:`, e);
-        await updateTask(userId, taskId, { status: 'failed', error: e.message });
+        const { canonical } = await extractDocumentText(userId, storagePath, mimeType, await readDocument(storagePath));
+        return { document: canonical };
+    } catch (error: any) {
+        console.error('Error extracting document text:', error);
+        return { error: 'Failed to load the document text. ' + error.message };
     }
 }
 
 
-export async function getSpeech(text: string): Promise<GenerateSpeechOutput | { error: string }> {
+export async function getSpeech(idToken: string, text: string): Promise<GenerateSpeechOutput | QuotaActionError> {
+  const caller = await authorize(idToken);
+  if ('error' in caller) {
+    return caller;
+  }
+  const userId = caller.uid;
   try {
-    const result = await generateSpeech(text);
+    const result = await withQuota(userId, 'ttsCharacters', text.length, () => withUsageAttribution({ userId }, () => generateSpeech(text)));
     return result;
   } catch (error: any) {
+    const quotaError = quotaActionError(error);
+    if (quotaError) {
+      return quotaError;
+    }
     console.error('Error generating speech:', error);
     return { error: 'Failed to generate speech.' };
   }
 }
 
-export async function startNewRolePlay(input: StartRolePlayInput & { userId: string }): Promise<(StartRolePlayOutput & { sessionId: string }) | { error: string }> {
-  if (!input.scenario || !input.role || !input.userId) {
-    return { error: 'Role, scenario, and user ID are required.' };
+export async function startNewRolePlay(idToken: string, input: StartRolePlayInput): Promise<(StartRolePlayOutput & { sessionId: string }) | QuotaActionError> {
+  const caller = await authorize(idToken);
+  if ('error' in caller) {
+    return caller;
+  }
+  const userId = caller.uid;
+  if (!input.scenario || !input.role) {
+    return { error: 'Role and scenario are required.' };
   }
   try {
-    const result = await startRolePlay(input);
-    if ('error' in result) {
-      return result;
-    }
-    
-    const sessionRef = await db.collection('users').doc(input.userId).collection('rolePlaySessions').add({
-      ...input,
-      ...result,
-      createdAt: FieldValue.serverTimestamp(),
+    // Saving the session is part of the turn, so a failed save is refunded along with a failed model call.
+    return await withQuota(userId, 'rolePlayTurns', 1, async () => {
+      const result = await withUsageAttribution({ userId }, () => startRolePlay(input));
+      if ('error' in result) {
+        return result;
+      }
+
+      const sessionRef = await db.collection('users').doc(userId).collection('rolePlaySessions').add({
+        ...input,
+        userId,
+        ...result,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+
+      return { ...result, sessionId: sessionRef.id };
     });
 
-    return { ...result, sessionId: sessionRef.id };
-
   } catch (error: any) {
+    const quotaError = quotaActionError(error);
+    if (quotaError) {
+      return quotaError;
+    }
     console.error('Error starting role play:', error);
     return { error: 'Failed to start role-play session. ' + error.message };
   }
 }
 
-export async function deleteRolePlaySession(userId: string, sessionId: string): Promise<{ success: boolean } | { error: string }> {
-    if (!userId || !sessionId) {
-        return { error: 'User ID and Session ID are required.' };
+export async function deleteRolePlaySession(idToken: string, sessionId: string): Promise<{ success: boolean } | { error: string }> {
+    const caller = await authorize(idToken);
+    if ('error' in caller) {
+        return caller;
+    }
+    const userId = caller.uid;
+    if (!sessionId) {
+        return { error: 'Session ID is required.' };
     }
     try {
         await db.collection('users').doc(userId).collection('rolePlaySessions').doc(sessionId).delete();
@@ -176,20 +237,54 @@ export async function deleteRolePlaySession(userId: string, sessionId: string):
     }
 }
 
-export async function continueExistingRolePlay(input: ContinueRolePlayInput): Promise<ContinueRolePlayOutput | { error:string }> {
+export async function continueExistingRolePlay(idToken: string, input: ContinueRolePlayInput): Promise<ContinueRolePlayOutput | QuotaActionError> {
+  const caller = await authorize(idToken);
+  if ('error' in caller) {
+    return caller;
+  }
+  const userId = caller.uid;
   if (!input.messages || input.messages.length === 0) {
     return { error: 'Conversation history is required.' };
   }
   try {
-    const result = await continueRolePlay(input);
+    const result = await withQuota(userId, 'rolePlayTurns', 1, () => withUsageAttribution({ userId }, () => continueRolePlay({ messages: input.messages })));
     return result;
   } catch (error: any) {
+    const quotaError = quotaActionError(error);
+    if (quotaError) {
+      return quotaError;
+    }
     console.error('Error continuing role play:', error);
     return { error: 'Failed to get a response. ' + error.message };
   }
 }
 
 
+// A new account picks a user or lawyer role once, at signup. Any later change is made by an admin, so an
+// older account without a role, such as one that signed in with Google, stays a regular user.
+export async function completeSignup(idToken: string, role: 'user' | 'lawyer'): Promise<{ success: boolean } | { error: string }> {
+    const caller = await authorize(idToken);
+    if ('error' in caller) {
+        return caller;
+    }
+    if (role !== 'user' && role !== 'lawyer') {
+        return { error: 'New accounts can only be user or lawyer accounts.' };
+    }
+    try {
+        if (await hasAssignedRole(caller.uid)) {
+            return { error: 'This account already has a role.' };
+        }
+        if (role === 'lawyer' && !await isNewAccount(caller.uid)) {
+            return { error: 'Lawyer accounts can only be requested at signup. Ask an admin to change your role.' };
+        }
+        await setUserRole(caller.uid, role);
+        return { success: true };
+    } catch (e: any) {
+        console.error("Error completing signup:", e);
+        return { error: e.message };
+    }
+}
+
 const profileFormSchema = z.object({
   displayName: z.string().min(1, "Display name is required.").optional(),
   about: z.string().optional(),
@@ -197,10 +292,12 @@ const profileFormSchema = z.object({
   photoMimeType: z.string().optional(),
 });
 
-export async function updateUserProfile(userId: string, data: z.infer<typeof profileFormSchema>): Promise<{ success: boolean } | { error: string }> {
-    if (!userId) {
-        return { error: 'User not authenticated.' };
+export async function updateUserProfile(idToken: string, data: z.infer<typeof profileFormSchema>): Promise<{ success: boolean } | { error: string }> {
+    const caller = await authorize(idToken);
+    if ('error' in caller) {
+        return caller;
     }
+    const userId = caller.uid;
 
     const validation = profileFormSchema.safeParse(data);
     if (!validation.success) {
@@ -257,7 +354,15 @@ export async function updateUserProfile(userId: string, data: z.infer<typeof pro
 }
 
 // Admin Actions
-export async function createNewUser(data: { email: string, password?: string, displayName: string, role: 'user' | 'lawyer' | 'admin' }): Promise<{ uid: string } | { error: string }> {
+export async function createNewUser(idToken: string, data: { email: string, password?: string, displayName: string, role: UserRole, firmId?: string }): Promise<{ uid: string } | { error: string }> {
+    const caller = await authorize(idToken, 'user.manage');
+    if ('error' in caller) {
+        return caller;
+    }
+    // Checked up front so the account isn't created without its role.
+    if (roleNeedsFirm(data.role) && !data.firmId?.trim()) {
+        return { error: 'Paralegals and firm admins must belong to a firm.' };
+    }
     try {
         const userRecord = await auth.createUser({
             email: data.email,
@@ -269,10 +374,10 @@ export async function createNewUser(data: { email: string, password?: string, di
         await db.collection('users').doc(userRecord.uid).set({
             email: data.email,
             displayName: data.displayName,
-            role: data.role,
             createdAt: FieldValue.serverTimestamp(),
             photoURL: null,
         });
+        await setUserRole(userRecord.uid, data.role, data.firmId?.trim());
 
         return { uid: userRecord.uid };
     } catch (e: any) {
@@ -281,7 +386,59 @@ export async function createNewUser(data: { email: string, password?: string, di
     }
 }
 
-export async function addLawyer(lawyer: { name: string, email: string, password?: string, specialty: string, location: string, contact: string, costPerHearing: number }): Promise<{ id: string } | { error: string }> {
+// Sets a user's role and firm together, since firm roles can't be held outside a firm.
+export async function updateUserRole(idToken: string, userId: string, role: UserRole, firmId?: string): Promise<{ success: boolean } | { error: string }> {
+    const caller = await authorize(idToken, 'user.manage');
+    if ('error' in caller) {
+        return caller;
+    }
+    if (!userId || !USER_ROLES.includes(role)) {
+        return { error: 'A user and a valid role are required.' };
+    }
+    try {
+        await setUserRole(userId, role, firmId?.trim());
+        return { success: true };
+    } catch (e: any) {
+        console.error("Error updating user role:", e);
+        return { error: e.message };
+    }
+}
+
+export async function getUserQuotas(idToken: string, userId: string): Promise<(UserQuotaLimits & { usage: Partial<Record<QuotaKind, number>> }) | { error: string }> {
+    const caller = await authorize(idToken, 'user.manage');
+    if ('error' in caller) {
+        return caller;
+    }
+    try {
+        const [limits, usage] = await Promise.all([getQuotaLimits(userId), getQuotaUsage(userId)]);
+        return { ...limits, usage };
+    } catch (e: any) {
+        console.error("Error fetching user quotas:", e);
+        return { error: e.message };
+    }
+}
+
+export async function updateUserQuotaOverrides(idToken: string, userId: string, overrides: Partial<QuotaLimits>): Promise<{ success: boolean } | { error: string }> {
+    const caller = await authorize(idToken, 'user.manage');
+    if ('error' in caller) {
+        return caller;
+    }
+    try {
+        await setQuotaOverrides(userId, overrides, caller.uid);
+        return { success: true };
+    } catch (e: any) {
+        console.error("Error updating user quotas:", e);
+        return { error: e.message };
+    }
+}
+
+// Firm admins add lawyers to their own firm; admins to the firm given, if any.
+export async function addLawyer(idToken: string, lawyer: { name: string, email: string, password?: string, specialty: string, location: string, contact: string, costPerHearing: number, firmId?: string }): Promise<{ id: string } | { error: string }> {
+    const caller = await authorize(idToken, 'lawyer.manage');
+    if ('error' in caller) {
+        return caller;
+    }
+    const firmId = ROLE_DEFINITIONS[caller.role].scope === 'firm' ? caller.firmId : lawyer.firmId?.trim() || undefined;
     try {
         // Create the user in Firebase Auth
         const userRecord = await auth.createUser({
@@ -295,10 +452,10 @@ export async function addLawyer(lawyer: { name: string, email: string, password?
         await db.collection('users').doc(userRecord.uid).set({
             email: lawyer.email,
             displayName: lawyer.name,
-            role: 'lawyer',
             createdAt: FieldValue.serverTimestamp(),
             photoURL: null,
         });
+        await setUserRole(userRecord.uid, 'lawyer', firmId);
 
         // Create the lawyer profile in the 'lawyers' collection
         const docRef = await db.collection('lawyers').add({
@@ -308,6 +465,7 @@ export async function addLawyer(lawyer: { name: string, email: string, password?
             contact: lawyer.contact,
             costPerHearing: lawyer.costPerHearing,
             uid: userRecord.uid, // Link to the auth user
+            firmId: firmId ?? null,
             createdAt: FieldValue.serverTimestamp()
         });
         return { id: docRef.id };
@@ -316,13 +474,21 @@ export async function addLawyer(lawyer: { name: string, email: string, password?
     }
 }
 
-export async function deleteLawyer(id: string): Promise<{ success: boolean } | { error: string }> {
+export async function deleteLawyer(idToken: string, id: string): Promise<{ success: boolean } | { error: string }> {
+    const caller = await authorize(idToken, 'lawyer.manage');
+    if ('error' in caller) {
+        return caller;
+    }
     try {
         const lawyerDoc = await db.collection('lawyers').doc(id).get();
         if (!lawyerDoc.exists) {
             throw new Error('Lawyer not found');
         }
         const lawyerData = lawyerDoc.data();
+        const lawyerAccess = lawyerData?.uid ? await getUserAccess(lawyerData.uid) : { uid: '', firmId: lawyerData?.firmId };
+        if (!isInScope(caller, lawyerAccess)) {
+            return { error: 'You can only remove lawyers in your firm.' };
+        }
         
         if (lawyerData?.uid) {
             // Delete from auth
@@ -349,10 +515,12 @@ const lawyerProfileSchema = z.object({
   costPerHearing: z.coerce.number().min(0, "Cost must be a positive number."),
 });
 
-export async function updateLawyerProfile(userId: string, data: z.infer<typeof lawyerProfileSchema>): Promise<{ success: boolean } | { error: string }> {
-    if (!userId) {
-        return { error: 'User not authenticated.' };
+export async function updateLawyerProfile(idToken: string, data: z.infer<typeof lawyerProfileSchema>): Promise<{ success: boolean } | { error: string }> {
+    const caller = await authorize(idToken, 'lawyerProfile.edit');
+    if ('error' in caller) {
+        return caller;
     }
+    const userId = caller.uid;
 
     const validation = lawyerProfileSchema.safeParse(data);
     if (!validation.success) {
@@ -395,16 +563,30 @@ export async function updateLawyerProfile(userId: string, data: z.infer<typeof l
 }
 
 
-// Lawyer Case Log Actions
+// Lawyer Case Log Actions. Case logs live under the lawyer's user doc. Lawyers work on their own;
+// paralegals on those of the lawyers in their firm.
 const caseLogSchema = z.object({
     caseName: z.string().min(1, "Case name is required."),
     clientName: z.string().min(1, "Client name is required."),
     caseNumber: z.string().optional(),
 });
 
-export async function createCaseLog(userId: string, data: z.infer<typeof caseLogSchema>): Promise<{ caseId: string } | { error: string }> {
-    if (!userId) {
-        return { error: 'User not authenticated.' };
+// The case logs of `lawyerId`, if they're a lawyer in the caller's scope.
+async function caseLogsInScope(caller: Caller, lawyerId: string) {
+    const lawyer = await getUserAccess(lawyerId);
+    if (lawyer.role !== 'lawyer' || !isInScope(caller, lawyer)) {
+        return null;
+    }
+    return db.collection('users').doc(lawyerId).collection('caseLogs');
+}
+
+export async function createCaseLog(idToken: string, lawyerId: string, data: z.infer<typeof caseLogSchema>): Promise<{ caseId: string } | { error: string }> {
+    const caller = await authorize(idToken, 'caseLog.write');
+    if ('error' in caller) {
+        return caller;
+    }
+    if (!lawyerId) {
+        return { error: 'Lawyer ID is required.' };
     }
 
     const validation = caseLogSchema.safeParse(data);
@@ -413,8 +595,13 @@ export async function createCaseLog(userId: string, data: z.infer<typeof caseLog
     }
 
     try {
-        const caseRef = await db.collection('users').doc(userId).collection('caseLogs').add({
+        const caseLogs = await caseLogsInScope(caller, lawyerId);
+        if (!caseLogs) {
+            return { error: "You do not have access to this lawyer's case logs." };
+        }
+        const caseRef = await caseLogs.add({
             ...validation.data,
+            createdBy: caller.uid,
             createdAt: FieldValue.serverTimestamp(),
             updatedAt: FieldValue.serverTimestamp(),
         });
@@ -424,15 +611,27 @@ export async function createCaseLog(userId: string, data: z.infer<typeof caseLog
     }
 }
 
-export async function addCaseLogEntry(userId: string, caseId: string, entry: string): Promise<{ success: true } | { error: string }> {
-    if (!userId || !caseId || !entry) {
-        return { error: 'User ID, Case ID, and entry text are required.' };
+export async function addCaseLogEntry(idToken: string, lawyerId: string, caseId: string, entry: string): Promise<{ success: true } | { error: string }> {
+    const caller = await authorize(idToken, 'caseLog.write');
+    if ('error' in caller) {
+        return caller;
+    }
+    if (!lawyerId || !caseId || !entry) {
+        return { error: 'Lawyer ID, Case ID, and entry text are required.' };
     }
     
     try {
-        const caseRef = db.collection('users').doc(userId).collection('caseLogs').doc(caseId);
+        const caseLogs = await caseLogsInScope(caller, lawyerId);
+        if (!caseLogs) {
+            return { error: "You do not have access to this lawyer's case logs." };
+        }
+        const caseRef = caseLogs.doc(caseId);
+        if (!(await caseRef.get()).exists) {
+            return { error: 'Case not found.' };
+        }
         await caseRef.collection('entries').add({
             entry,
+            createdBy: caller.uid,
             createdAt: FieldValue.serverTimestamp(),
         });
         await caseRef.update({ updatedAt: FieldValue.serverTimestamp() });
@@ -14,6 +14,8 @@ import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission, ROLE_DEFINITIONS } from '@/lib/auth-types';
 import { addLawyer, deleteLawyer } from '../actions';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -29,6 +31,7 @@ type Lawyer = {
     location?: string;
     contact?: string;
     costPerHearing?: number;
+    firmId?: string;
     lawyerDocId: string; 
 };
 
@@ -40,22 +43,30 @@ const lawyerFormSchema = z.object({
   location: z.string().min(1, "Location is required."),
   contact: z.string().min(1, "Contact info is required."),
   costPerHearing: z.coerce.number().min(0, "Cost must be a positive number."),
+  firmId: z.string().optional(),
 });
 
+// Admins see every lawyer; firm admins and paralegals only those in their firm. Only admins and firm
+// admins can add or remove them.
 export default function AdminPage() {
   const [lawyers, setLawyers] = useState<Lawyer[]>([]);
   const [loading, setLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
+  const { user, role, firmId } = useAuth();
+  const firmScoped = ROLE_DEFINITIONS[role].scope === 'firm';
+  const canManage = hasPermission(role, 'lawyer.manage');
 
   const form = useForm<z.infer<typeof lawyerFormSchema>>({
     resolver: zodResolver(lawyerFormSchema),
-    defaultValues: { name: '', email: '', password: '', specialty: '', location: '', contact: '', costPerHearing: 0 },
+    defaultValues: { name: '', email: '', password: '', specialty: '', location: '', contact: '', costPerHearing: 0, firmId: '' },
   });
 
   useEffect(() => {
     const db = getFirestore(app);
-    const q = query(collection(db, "users"), where("role", "==", "lawyer"));
+    const q = firmScoped
+        ? query(collection(db, "users"), where("role", "==", "lawyer"), where("firmId", "==", firmId ?? null))
+        : query(collection(db, "users"), where("role", "==", "lawyer"));
 
     const unsubscribe = onSnapshot(q, async (snapshot) => {
         setLoading(true);
@@ -98,11 +109,12 @@ export default function AdminPage() {
     });
 
     return () => unsubscribe();
-  }, [toast]);
+  }, [toast, firmScoped, firmId]);
 
   const onSubmit = async (values: z.infer<typeof lawyerFormSchema>) => {
+    if (!user) return;
     setIsSubmitting(true);
-    const result = await addLawyer(values);
+    const result = await addLawyer(await user.getIdToken(), values);
     if ('error' in result) {
       toast({ variant: 'destructive', title: 'Error', description: result.error });
     } else {
@@ -113,7 +125,8 @@ export default function AdminPage() {
   };
   
   const handleDelete = async (lawyer: Lawyer) => {
-    const result = await deleteLawyer(lawyer.id);
+    if (!user) return;
+    const result = await deleteLawyer(await user.getIdToken(), lawyer.id);
     if (result.error) {
       toast({ variant: 'destructive', title: 'Error', description: result.error });
     } else {
@@ -136,10 +149,13 @@ export default function AdminPage() {
               <ShieldCheck className="h-8 w-8 text-primary" />
               Lawyer Management
           </h1>
-          <p className="text-muted-foreground mt-2">Manage lawyer profiles for recommendations.</p>
+          <p className="text-muted-foreground mt-2">
+            {firmScoped ? `Lawyers in your firm (${firmId}).` : 'Manage lawyer profiles for recommendations.'}
+          </p>
       </header>
       
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+        {canManage && (
         <div className="xl:col-span-1">
             <Card>
                 <CardHeader>
@@ -169,6 +185,11 @@ export default function AdminPage() {
                             <FormField control={form.control} name="costPerHearing" render={({ field }) => (
                                 <FormItem><FormLabel>Cost Per Hearing (₹)</FormLabel><FormControl><Input type="number" placeholder="300" {...field} /></FormControl><FormMessage /></FormItem>
                             )}/>
+                            {!firmScoped && (
+                                <FormField control={form.control} name="firmId" render={({ field }) => (
+                                    <FormItem><FormLabel>Firm (optional)</FormLabel><FormControl><Input placeholder="e.g., mehta-associates" {...field} /></FormControl><FormMessage /></FormItem>
+                                )}/>
+                            )}
                             <Button type="submit" className="w-full" disabled={isSubmitting}>
                                 {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}
                                 Add Lawyer
@@ -178,8 +199,9 @@ export default function AdminPage() {
                 </CardContent>
             </Card>
         </div>
+        )}
         
-        <div className="xl:col-span-2">
+        <div className={canManage ? "xl:col-span-2" : "xl:col-span-3"}>
             <Card>
                 <CardHeader>
                     <CardTitle>Current Lawyers</CardTitle>
@@ -192,6 +214,7 @@ export default function AdminPage() {
                                 <TableHead>Specialty</TableHead>
                                 <TableHead>Location</TableHead>
                                 <TableHead>Cost/Hearing</TableHead>
+                                {!firmScoped && <TableHead>Firm</TableHead>}
                                 <TableHead className="text-right">Actions</TableHead>
                             </TableRow>
                         </TableHeader>
@@ -202,12 +225,14 @@ export default function AdminPage() {
                                     <TableCell className="text-primary">{lawyer.specialty || 'N/A'}</TableCell>
                                     <TableCell>{lawyer.location || 'N/A'}</TableCell>
                                     <TableCell>{lawyer.costPerHearing ? `₹${lawyer.costPerHearing.toLocaleString()}` : 'N/A'}</TableCell>
+                                    {!firmScoped && <TableCell>{lawyer.firmId || '—'}</TableCell>}
                                     <TableCell className="text-right">
                                         <Button variant="ghost" size="icon" asChild>
                                             <Link href={`/dashboard/${lawyer.uid}`} title="View Dashboard" target="_blank">
                                                 <ExternalLink className="h-4 w-4" />
                                             </Link>
                                         </Button>
+                                        {canManage && (
                                         <AlertDialog>
                                             <AlertDialogTrigger asChild>
                                                 <Button variant="ghost" size="icon"><Trash2 className="h-4 w-4 text-destructive"/></Button>
@@ -223,6 +248,7 @@ export default function AdminPage() {
                                                 </AlertDialogFooter>
                                             </AlertDialogContent>
                                         </AlertDialog>
+                                        )}
                                     </TableCell>
                                 </TableRow>
                             )) : (
@@ -0,0 +1,260 @@
+'use client';
+
+import { BarChart3, Download, Loader2 } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { getFirestore, collection, getDocs, query, where } from 'firebase/firestore';
+import { app } from '@/lib/firebase-config';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import PermissionGate from '@/components/permission-gate';
+
+// One user's use of one flow on one day, as written by src/lib/usage.ts.
+type DailyUsage = {
+  day: string;
+  userId: string;
+  flow: string;
+  calls: number;
+  failedCalls: number;
+  unpricedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  estimatedCostUsd: number;
+};
+
+type UserProfile = { email?: string, displayName?: string, role?: string };
+
+type Totals = Pick<DailyUsage, 'calls' | 'failedCalls' | 'unpricedCalls' | 'inputTokens' | 'outputTokens' | 'latencyMs' | 'estimatedCostUsd'>;
+
+const RANGES = { '7': 'Last 7 days', '30': 'Last 30 days', '90': 'Last 90 days' };
+
+const emptyTotals = (): Totals => ({ calls: 0, failedCalls: 0, unpricedCalls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, estimatedCostUsd: 0 });
+
+const addTotals = (totals: Totals, row: Totals): Totals => ({
+  calls: totals.calls + row.calls,
+  failedCalls: totals.failedCalls + row.failedCalls,
+  unpricedCalls: totals.unpricedCalls + row.unpricedCalls,
+  inputTokens: totals.inputTokens + row.inputTokens,
+  outputTokens: totals.outputTokens + row.outputTokens,
+  latencyMs: totals.latencyMs + row.latencyMs,
+  estimatedCostUsd: totals.estimatedCostUsd + row.estimatedCostUsd,
+});
+
+const groupTotals = (rows: DailyUsage[], key: (row: DailyUsage) => string) => {
+  const groups = new Map<string, Totals>();
+  rows.forEach(row => groups.set(key(row), addTotals(groups.get(key(row)) ?? emptyTotals(), row)));
+  return [...groups.entries()].sort((a, b) => b[1].estimatedCostUsd - a[1].estimatedCostUsd || b[1].calls - a[1].calls);
+};
+
+// Usage days are UTC dates, as recorded on the server.
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+const averageLatency = (totals: Totals) => totals.calls ? `${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s` : '—';
+
+const csvCell = (value: string | number) => /[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value);
+
+function downloadCsv(rows: DailyUsage[], users: Record<string, UserProfile>, from: string, to: string) {
+  const header = ['day', 'userId', 'email', 'role', 'flow', 'calls', 'failedCalls', 'inputTokens', 'outputTokens', 'avgLatencyMs', 'estimatedCostUsd', 'unpricedCalls'];
+  const lines = [...rows]
+    .sort((a, b) => a.day.localeCompare(b.day) || a.userId.localeCompare(b.userId) || a.flow.localeCompare(b.flow))
+    .map(row => [
+      row.day,
+      row.userId,
+      users[row.userId]?.email ?? '',
+      users[row.userId]?.role ?? '',
+      row.flow,
+      row.calls,
+      row.failedCalls,
+      row.inputTokens,
+      row.outputTokens,
+      row.calls ? Math.round(row.latencyMs / row.calls) : 0,
+      row.estimatedCostUsd.toFixed(6),
+      row.unpricedCalls,
+    ].map(csvCell).join(','));
+  const blob = new Blob([[header.join(','), ...lines].join('\n')], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `usage-${from}-to-${to}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const TotalsCells = ({ totals }: { totals: Totals }) => (
+  <>
+    <TableCell className="text-right">{totals.calls.toLocaleString()}{totals.failedCalls > 0 && <span className="text-destructive"> ({totals.failedCalls} failed)</span>}</TableCell>
+    <TableCell className="text-right">{formatTokens(totals.inputTokens)}</TableCell>
+    <TableCell className="text-right">{formatTokens(totals.outputTokens)}</TableCell>
+    <TableCell className="text-right">{averageLatency(totals)}</TableCell>
+    <TableCell className="text-right font-medium">{formatCost(totals.estimatedCostUsd)}{totals.unpricedCalls > 0 && '*'}</TableCell>
+  </>
+);
+
+const TotalsHeads = () => (
+  <>
+    <TableHead className="text-right">Calls</TableHead>
+    <TableHead className="text-right">Input tokens</TableHead>
+    <TableHead className="text-right">Output tokens</TableHead>
+    <TableHead className="text-right">Avg latency</TableHead>
+    <TableHead className="text-right">Est. cost</TableHead>
+  </>
+);
+
+function UsageReport() {
+  const [range, setRange] = useState<keyof typeof RANGES>('30');
+  const [rows, setRows] = useState<DailyUsage[]>([]);
+  const [users, setUsers] = useState<Record<string, UserProfile>>({});
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const from = daysAgo(Number(range) - 1);
+  const to = daysAgo(0);
+
+  useEffect(() => {
+    const db = getFirestore(app);
+    setLoading(true);
+    Promise.all([
+      getDocs(query(collection(db, 'usageDaily'), where('day', '>=', from), where('day', '<=', to))),
+      getDocs(collection(db, 'users')),
+    ]).then(([usageSnapshot, usersSnapshot]) => {
+      setRows(usageSnapshot.docs.map(doc => doc.data() as DailyUsage));
+      setUsers(Object.fromEntries(usersSnapshot.docs.map(doc => [doc.id, doc.data() as UserProfile])));
+    }).catch((err) => {
+      console.error("Error fetching usage:", err);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not fetch usage.' });
+    }).finally(() => setLoading(false));
+  }, [from, to, toast]);
+
+  const totals = useMemo(() => rows.reduce(addTotals, emptyTotals()), [rows]);
+  const byFlow = useMemo(() => groupTotals(rows, row => row.flow), [rows]);
+  const byUser = useMemo(() => groupTotals(rows, row => row.userId), [rows]);
+
+  return (
+    <main className="container mx-auto px-4 py-8 sm:py-12">
+      <header className="mb-8 md:mb-12 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl md:text-4xl font-bold tracking-tight flex items-center gap-3">
+            <BarChart3 className="h-8 w-8 text-primary" />
+            AI Usage
+          </h1>
+          <p className="text-muted-foreground mt-2">Model calls, tokens and estimated cost per user and flow, from {from} to {to} (UTC).</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={range} onValueChange={(value) => setRange(value as keyof typeof RANGES)}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(RANGES).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" disabled={loading || rows.length === 0} onClick={() => downloadCsv(rows, users, from, to)}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </header>
+
+      {loading ? (
+        <div className="flex justify-center py-24">
+          <Loader2 className="h-10 w-10 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-8">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              ['Estimated cost', formatCost(totals.estimatedCostUsd)],
+              ['Model calls', totals.calls.toLocaleString()],
+              ['Tokens in / out', `${formatTokens(totals.inputTokens)} / ${formatTokens(totals.outputTokens)}`],
+              ['Average latency', averageLatency(totals)],
+            ].map(([label, value]) => (
+              <Card key={label}>
+                <CardHeader className="pb-2"><CardDescription>{label}</CardDescription></CardHeader>
+                <CardContent><p className="text-2xl font-bold">{value}</p></CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Flow</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Flow</TableHead>
+                    <TotalsHeads />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {byFlow.length > 0 ? byFlow.map(([flow, flowTotals]) => (
+                    <TableRow key={flow}>
+                      <TableCell className="font-medium">{flow}</TableCell>
+                      <TotalsCells totals={flowTotals} />
+                    </TableRow>
+                  )) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">No model calls in this period.</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By User</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TotalsHeads />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {byUser.length > 0 ? byUser.map(([userId, userTotals]) => (
+                    <TableRow key={userId}>
+                      <TableCell>
+                        <p className="font-medium">{users[userId]?.displayName ?? 'Unknown user'}</p>
+                        <p className="text-xs text-muted-foreground">{users[userId]?.email ?? userId}</p>
+                      </TableCell>
+                      <TableCell className="capitalize">{users[userId]?.role ?? '—'}</TableCell>
+                      <TotalsCells totals={userTotals} />
+                    </TableRow>
+                  )) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="h-24 text-center">No model calls in this period.</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {totals.unpricedCalls > 0 && (
+            <p className="text-sm text-muted-foreground">
+              * Includes {totals.unpricedCalls.toLocaleString()} calls to models without a known price, counted at no cost. Add their prices with <code>AI_MODEL_PRICES</code>.
+            </p>
+          )}
+        </div>
+      )}
+    </main>
+  );
+}
+
+// Under /admin for admins, but firm admins can open that section too.
+export default function UsagePage() {
+  return (
+    <PermissionGate permission="usage.read">
+      <UsageReport />
+    </PermissionGate>
+  );
+}
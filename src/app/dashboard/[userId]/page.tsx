@@ -17,6 +17,7 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { updateLawyerProfile } from '@/app/actions';
+import { hasPermission, isInScope } from '@/lib/auth-types';
 
 type LawyerProfile = {
   id: string;
@@ -33,6 +34,7 @@ type UserProfile = {
   photoURL?: string;
   about?: string;
   role: string;
+  firmId?: string;
 };
 
 const lawyerProfileSchema = z.object({
@@ -45,7 +47,7 @@ const lawyerProfileSchema = z.object({
 
 export default function LawyerDashboardPage({ params }: { params: { userId: string } }) {
   const { userId } = use(params);
-  const { user, loading: authLoading } = useAuth();
+  const { user, role, firmId, loading: authLoading } = useAuth();
   const [lawyerProfile, setLawyerProfile] = useState<LawyerProfile | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
@@ -54,7 +56,10 @@ export default function LawyerDashboardPage({ params }: { params: { userId: stri
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Only the lawyer edits their own profile. Case logs can also be kept by paralegals in the lawyer's firm.
   const viewOnly = user?.uid !== userId;
+  const canEditCaseLogs = !!user && hasPermission(role, 'caseLog.write')
+      && isInScope({ uid: user.uid, role, firmId }, { uid: userId, firmId: userProfile?.firmId });
 
   const form = useForm<z.infer<typeof lawyerProfileSchema>>({
     resolver: zodResolver(lawyerProfileSchema),
@@ -120,7 +125,7 @@ export default function LawyerDashboardPage({ params }: { params: { userId: stri
   const onSubmit = async (values: z.infer<typeof lawyerProfileSchema>) => {
     if (!user || viewOnly) return;
     setIsSubmitting(true);
-    const result = await updateLawyerProfile(user.uid, {
+    const result = await updateLawyerProfile(await user.getIdToken(), {
         name: userProfile?.displayName || user.displayName || 'Unknown',
         ...values
     });
@@ -220,10 +225,10 @@ export default function LawyerDashboardPage({ params }: { params: { userId: stri
       <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
         <div className="md:col-span-1 space-y-8">
           <LawyerInfoCard />
-          {!viewOnly && <EditProfileForm />}
+          {!viewOnly && hasPermission(role, 'lawyerProfile.edit') && <EditProfileForm />}
         </div>
         <div className="md:col-span-2">
-           <CaseLogs lawyerId={userId} viewOnly={viewOnly} />
+           <CaseLogs lawyerId={userId} viewOnly={!canEditCaseLogs} />
         </div>
       </div>
     </main>
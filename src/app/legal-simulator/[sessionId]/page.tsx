@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { continueExistingRolePlay } from '@/app/actions';
+import { describeActionError } from '@/lib/quota-types';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
@@ -122,10 +123,10 @@ Scenario: "${session.scenario}"`;
             userMessage
         ].map(({ role, content }) => ({ role, content }));
 
-        const response = await continueExistingRolePlay({ messages: fullChatHistory as any[] });
+        const response = await continueExistingRolePlay(await user.getIdToken(), { messages: fullChatHistory as any[] });
 
         if ('error' in response) {
-            const assistantErrorMessage: ChatMessage = { role: 'assistant', content: `Sorry, an error occurred: ${response.error}`, createdAt: Timestamp.now() };
+            const assistantErrorMessage: ChatMessage = { role: 'assistant', content: response.quotaExceeded ? describeActionError(response) : `Sorry, an error occurred: ${response.error}`, createdAt: Timestamp.now() };
             await addDoc(messagesRef, assistantErrorMessage);
         } else {
             const assistantResponseMessage: ChatMessage = { role: 'assistant', content: response.response, createdAt: Timestamp.now() };
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { startNewRolePlay } from '@/app/actions';
+import { describeActionError } from '@/lib/quota-types';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { getFirestore, collection, query, where, getDocs, deleteDoc, doc, orderBy, onSnapshot } from 'firebase/firestore';
@@ -69,9 +70,9 @@ export default function LegalSimulatorPage() {
     const handleStartRolePlay = async () => {
         if (!user) return;
         setIsLoading(true);
-        const result = await startNewRolePlay({ role, scenario, userId: user.uid });
+        const result = await startNewRolePlay(await user.getIdToken(), { role, scenario });
         if ('error' in result) {
-            toast({ variant: 'destructive', title: 'Error', description: result.error });
+            toast({ variant: 'destructive', title: result.quotaExceeded ? 'Limit Reached' : 'Error', description: describeActionError(result) });
             setIsLoading(false);
         } else {
             // The onSnapshot listener will pick up the new session.
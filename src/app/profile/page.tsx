@@ -18,6 +18,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { updateUserProfile } from '../actions';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { hasPermission } from '@/lib/auth-types';
 
 type UserProfile = {
   id: string;
@@ -25,7 +26,6 @@ type UserProfile = {
   displayName?: string;
   photoURL?: string;
   about?: string;
-  role: 'admin' | 'user' | 'lawyer';
   createdAt: { toDate: () => Date };
 };
 
@@ -36,7 +36,7 @@ const profileFormSchema = z.object({
 });
 
 export default function ProfilePage() {
-  const { user, loading: authLoading } = useAuth();
+  const { user, role, loading: authLoading } = useAuth();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -95,7 +95,7 @@ export default function ProfilePage() {
         photoBase64 = parts[1];
     }
     
-    const result = await updateUserProfile(user.uid, {
+    const result = await updateUserProfile(await user.getIdToken(), {
         displayName: values.displayName,
         about: values.about,
         photoBase64,
@@ -154,7 +154,7 @@ export default function ProfilePage() {
         <p className="text-muted-foreground mt-2">Update your personal information.</p>
       </header>
       
-      {profile.role === 'lawyer' && (
+      {hasPermission(role, 'lawyerProfile.edit') && (
         <Card className="mb-8">
             <CardHeader>
                 <CardTitle className="flex items-center gap-2"><Briefcase/> Lawyer Dashboard</CardTitle>
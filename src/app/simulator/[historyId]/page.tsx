@@ -9,12 +9,17 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import ChatInterface from '@/components/chat-interface';
+import ClauseNavigator from '@/components/clause-navigator';
+import DocumentViewer, { type DocumentHighlight } from '@/components/document-viewer';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { usableAnchors } from '@/lib/anchor-types';
+import type { TaskOutput } from '@/lib/tasks';
 
-type HistoryDoc = {
-    fileAsBase64: string;
+type HistoryDoc = Partial<Pick<TaskOutput<'classifyDocument'>, 'clauseByClause' | 'riskRadar' | 'hiddenTraps' | 'timeBombDetector' | 'anchors'>> & {
+    storagePath: string;
     mimeType: string;
     fileName: string;
-    // other fields from ClassifyDocumentOutput
+    ocrPages?: { page: number }[]; // Present for scanned documents
 };
 
 export default function SimulatorPage({ params }: { params: { historyId: string } }) {
@@ -22,6 +27,7 @@ export default function SimulatorPage({ params }: { params: { historyId: string
   const [historyDoc, setHistoryDoc] = useState<HistoryDoc | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [highlight, setHighlight] = useState<DocumentHighlight | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -35,7 +41,7 @@ export default function SimulatorPage({ params }: { params: { historyId: string
 
           if (docSnap.exists()) {
             const data = docSnap.data() as HistoryDoc;
-             if (!data.fileAsBase64 || !data.mimeType) {
+             if (!data.storagePath || !data.mimeType) {
                  setError("The document content for this analysis was not properly saved or is missing. This can happen with older analyses. Please re-analyze the document.");
              } else {
                 setHistoryDoc(data);
@@ -85,15 +91,54 @@ export default function SimulatorPage({ params }: { params: { historyId: string
     );
   }
 
+  const anchors = usableAnchors(historyDoc.anchors);
+  const pageCount = historyDoc.ocrPages?.length;
+
   return (
     <div className="h-[calc(100vh-3.5rem)] flex flex-col">
        <header className="p-4 border-b">
          <h1 className="text-lg font-semibold">AI Legal Simulator: <span className="text-muted-foreground">{historyDoc.fileName}</span></h1>
        </header>
-       <ChatInterface 
-          fileData={historyDoc} 
-          initialMessages={[{role: 'assistant', content: `Hello! I'm LexiAI. I have your document "${historyDoc.fileName}" ready. What would you like to know? You can ask me to explain a clause, simulate a scenario, or clarify legal terms.`}]}
-       />
+       <div className="flex-1 min-h-0 grid grid-rows-2 lg:grid-rows-1 lg:grid-cols-2">
+         <DocumentViewer
+            storagePath={historyDoc.storagePath}
+            mimeType={historyDoc.mimeType}
+            pageCount={pageCount}
+            highlight={highlight}
+            className="min-h-0 border-b lg:border-b-0 lg:border-r"
+         />
+         <Tabs defaultValue="chat" className="min-h-0 flex flex-col">
+           <TabsList className="grid grid-cols-2 m-2">
+             <TabsTrigger value="chat">Ask LexiAI</TabsTrigger>
+             <TabsTrigger value="clauses">Clauses</TabsTrigger>
+           </TabsList>
+           {/* Both panels stay mounted so switching tabs keeps the conversation. */}
+           <TabsContent value="chat" forceMount className="mt-0 flex-1 min-h-0 data-[state=inactive]:hidden">
+             <ChatInterface
+                fileData={{ ...historyDoc, pageCount, historyId: params.historyId }}
+                initialMessages={[{role: 'assistant', content: `Hello! I'm LexiAI. I have your document "${historyDoc.fileName}" ready. What would you like to know? You can ask me to explain a clause, simulate a scenario, or clarify legal terms.`}]}
+             />
+           </TabsContent>
+           <TabsContent value="clauses" forceMount className="mt-0 flex-1 min-h-0 data-[state=inactive]:hidden">
+             {historyDoc.clauseByClause ? (
+               <ClauseNavigator
+                  analysis={{
+                    clauseByClause: historyDoc.clauseByClause,
+                    riskRadar: historyDoc.riskRadar ?? [],
+                    hiddenTraps: historyDoc.hiddenTraps ?? [],
+                    timeBombDetector: historyDoc.timeBombDetector ?? [],
+                  }}
+                  anchors={anchors}
+                  highlight={highlight}
+                  onSelect={setHighlight}
+                  className="h-full"
+               />
+             ) : (
+               <p className="p-4 text-sm text-muted-foreground">No clause analysis was saved with this document.</p>
+             )}
+           </TabsContent>
+         </Tabs>
+       </div>
     </div>
   );
 }
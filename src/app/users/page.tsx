@@ -1,9 +1,9 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { getFirestore, collection, onSnapshot, doc, updateDoc } from 'firebase/firestore';
+import { useCallback, useEffect, useState } from 'react';
+import { getFirestore, collection, onSnapshot } from 'firebase/firestore';
 import { app } from '@/lib/firebase-config';
-import { Loader2, Users as UsersIcon, Shield, Briefcase, User as UserIcon, UserPlus } from 'lucide-react';
+import { Loader2, Users as UsersIcon, Shield, Briefcase, User as UserIcon, UserPlus, Gauge, ClipboardList, Building2, type LucideIcon } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -13,17 +13,23 @@ import { Badge } from '@/components/ui/badge';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { createNewUser } from '../actions';
+import { createNewUser, getUserQuotas, updateUserQuotaOverrides, updateUserRole } from '../actions';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/use-auth';
+import { ROLE_DEFINITIONS, USER_ROLES, roleNeedsFirm, type UserRole } from '@/lib/auth-types';
+import { QUOTA_KINDS, QUOTA_LABELS, QUOTA_WINDOW_HOURS, type QuotaKind, type QuotaLimits } from '@/lib/quota-types';
 
 type UserProfile = {
   id: string;
   email: string;
   displayName?: string;
   photoURL?: string;
-  role: 'admin' | 'user' | 'lawyer';
+  role?: UserRole; // Unset for users who have never had a role assigned
+  firmId?: string;
   createdAt: { toDate: () => Date };
 };
 
@@ -31,18 +37,157 @@ const userFormSchema = z.object({
     displayName: z.string().min(1, "Display name is required."),
     email: z.string().email("Invalid email address."),
     password: z.string().min(6, "Password must be at least 6 characters."),
-    role: z.enum(['user', 'lawyer', 'admin']),
+    role: z.enum(USER_ROLES),
+    firmId: z.string().optional(),
+}).refine(values => !roleNeedsFirm(values.role) || !!values.firmId?.trim(), {
+    message: "Paralegals and firm admins must belong to a firm.",
+    path: ['firmId'],
 });
 
+const ROLE_ICONS: Record<UserRole, LucideIcon> = {
+    user: UserIcon,
+    lawyer: Briefcase,
+    paralegal: ClipboardList,
+    firmAdmin: Building2,
+    admin: Shield,
+};
+
+// An override being edited: blank keeps the role's limit.
+type OverrideDraft = { value: string, unlimited: boolean };
+
+const formatLimit = (limit: number | null) => limit === null ? 'Unlimited' : limit.toLocaleString();
+
+function QuotaDialog({ user, onClose }: { user: UserProfile | null, onClose: () => void }) {
+  const { user: admin } = useAuth();
+  const [quotas, setQuotas] = useState<Exclude<Awaited<ReturnType<typeof getUserQuotas>>, { error: string }> | null>(null);
+  const [drafts, setDrafts] = useState<Record<QuotaKind, OverrideDraft> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setQuotas(null);
+    setDrafts(null);
+    if (!user || !admin) {
+      return;
+    }
+    admin.getIdToken().then(idToken => getUserQuotas(idToken, user.id)).then(result => {
+      if ('error' in result) {
+        toast({ variant: 'destructive', title: 'Error', description: `Could not fetch quotas: ${result.error}` });
+        onClose();
+        return;
+      }
+      setQuotas(result);
+      setDrafts(Object.fromEntries(QUOTA_KINDS.map(kind => {
+        const override = result.overrides[kind];
+        return [kind, { value: typeof override === 'number' ? String(override) : '', unlimited: override === null }];
+      })) as Record<QuotaKind, OverrideDraft>);
+    });
+  }, [user, admin, toast, onClose]);
+
+  const setDraft = (kind: QuotaKind, draft: Partial<OverrideDraft>) =>
+    setDrafts(current => current && { ...current, [kind]: { ...current[kind], ...draft } });
+
+  const handleSave = async () => {
+    if (!user || !admin || !drafts) return;
+    const overrides: Partial<QuotaLimits> = {};
+    for (const kind of QUOTA_KINDS) {
+      const { value, unlimited } = drafts[kind];
+      if (unlimited) {
+        overrides[kind] = null;
+      } else if (value.trim() !== '') {
+        const limit = Number(value);
+        if (!Number.isInteger(limit) || limit < 0) {
+          toast({ variant: 'destructive', title: 'Invalid limit', description: `${QUOTA_LABELS[kind].label} must be a whole number.` });
+          return;
+        }
+        overrides[kind] = limit;
+      }
+    }
+    setIsSaving(true);
+    const result = await updateUserQuotaOverrides(await admin.getIdToken(), user.id, overrides);
+    setIsSaving(false);
+    if ('error' in result) {
+      toast({ variant: 'destructive', title: 'Error', description: `Failed to update quotas: ${result.error}` });
+    } else {
+      toast({ title: 'Success', description: 'Quotas updated.' });
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Quotas for {user?.displayName || user?.email}</DialogTitle>
+          <DialogDescription>
+            Limits per {QUOTA_WINDOW_HOURS} hours. Leave an override blank to use the limit for the user&apos;s role{quotas && ` (${quotas.role})`}.
+          </DialogDescription>
+        </DialogHeader>
+        {!quotas || !drafts ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Quota</TableHead>
+                <TableHead className="text-right">Used</TableHead>
+                <TableHead className="text-right">Role limit</TableHead>
+                <TableHead className="w-[140px]">Override</TableHead>
+                <TableHead>Unlimited</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {QUOTA_KINDS.map(kind => (
+                <TableRow key={kind}>
+                  <TableCell className="font-medium">{QUOTA_LABELS[kind].label}</TableCell>
+                  <TableCell className="text-right">
+                    {kind in quotas.usage ? `${quotas.usage[kind]!.toLocaleString()} / ${formatLimit(quotas.limits[kind])}` : 'Per document'}
+                  </TableCell>
+                  <TableCell className="text-right">{formatLimit(quotas.roleLimits[kind])}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={drafts[kind].value}
+                      disabled={drafts[kind].unlimited}
+                      placeholder={formatLimit(quotas.roleLimits[kind])}
+                      onChange={(e) => setDraft(kind, { value: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Checkbox checked={drafts[kind].unlimited} onCheckedChange={(checked) => setDraft(kind, { unlimited: checked === true })} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!drafts || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}
+            Save Quotas
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function UsersPage() {
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [loading, setLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [quotaUser, setQuotaUser] = useState<UserProfile | null>(null);
+  const closeQuotaDialog = useCallback(() => setQuotaUser(null), []);
   const { toast } = useToast();
+  const { user: admin } = useAuth();
 
   const form = useForm<z.infer<typeof userFormSchema>>({
     resolver: zodResolver(userFormSchema),
-    defaultValues: { displayName: '', email: '', password: '', role: 'user' },
+    defaultValues: { displayName: '', email: '', password: '', role: 'user', firmId: '' },
   });
 
   useEffect(() => {
@@ -61,20 +206,22 @@ export default function UsersPage() {
     return () => unsubscribe();
   }, [toast]);
 
-  const handleRoleChange = async (userId: string, newRole: 'admin' | 'user' | 'lawyer') => {
-    const db = getFirestore(app);
-    const userRef = doc(db, 'users', userId);
-    try {
-      await updateDoc(userRef, { role: newRole });
+  // The role and firm are custom claims, so only the server can change them. The list updates from the
+  // user's doc.
+  const handleRoleChange = async (userId: string, newRole: UserRole, firmId?: string) => {
+    if (!admin) return;
+    const result = await updateUserRole(await admin.getIdToken(), userId, newRole, firmId);
+    if ('error' in result) {
+      toast({ variant: 'destructive', title: 'Error', description: `Failed to update role: ${result.error}` });
+    } else {
       toast({ title: 'Success', description: 'User role updated.' });
-    } catch (error: any) {
-      toast({ variant: 'destructive', title: 'Error', description: `Failed to update role: ${error.message}` });
     }
   };
   
   const onUserSubmit = async (values: z.infer<typeof userFormSchema>) => {
+    if (!admin) return;
     setIsSubmitting(true);
-    const result = await createNewUser(values);
+    const result = await createNewUser(await admin.getIdToken(), values);
     if ('error' in result) {
       toast({ variant: 'destructive', title: 'Error Creating User', description: result.error });
     } else {
@@ -130,14 +277,17 @@ export default function UsersPage() {
                                     </SelectTrigger>
                                     </FormControl>
                                     <SelectContent>
-                                        <SelectItem value="user">User</SelectItem>
-                                        <SelectItem value="lawyer">Lawyer</SelectItem>
-                                        <SelectItem value="admin">Admin</SelectItem>
+                                        {USER_ROLES.map(role => (
+                                            <SelectItem key={role} value={role}>{ROLE_DEFINITIONS[role].label}</SelectItem>
+                                        ))}
                                     </SelectContent>
                                 </Select>
                                 <FormMessage />
                                 </FormItem>
                             )}/>
+                            <FormField control={form.control} name="firmId" render={({ field }) => (
+                                <FormItem><FormLabel>Firm</FormLabel><FormControl><Input placeholder="e.g., mehta-associates" {...field} /></FormControl><FormMessage /></FormItem>
+                            )}/>
                             <Button type="submit" className="w-full" disabled={isSubmitting}>
                                 {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}
                                 Create User
@@ -159,7 +309,9 @@ export default function UsersPage() {
                         <TableHead>User</TableHead>
                         <TableHead>Email</TableHead>
                         <TableHead>Joined</TableHead>
-                        <TableHead className="w-[150px]">Role</TableHead>
+                        <TableHead className="w-[170px]">Role</TableHead>
+                        <TableHead className="w-[170px]">Firm</TableHead>
+                        <TableHead className="w-[100px]">Quotas</TableHead>
                     </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -177,27 +329,46 @@ export default function UsersPage() {
                         <TableCell>{user.email}</TableCell>
                         <TableCell>{user.createdAt ? user.createdAt.toDate().toLocaleDateString() : 'N/A'}</TableCell>
                         <TableCell>
-                            <Select defaultValue={user.role} onValueChange={(value: 'admin' | 'user' | 'lawyer') => handleRoleChange(user.id, value)}>
+                            <Select value={user.role ?? 'user'} onValueChange={(value: UserRole) => handleRoleChange(user.id, value, user.firmId)}>
                                 <SelectTrigger className="w-full">
                                     <SelectValue placeholder="Select role" />
                                 </SelectTrigger>
                                 <SelectContent>
-                                    <SelectItem value="user">
-                                        <span className="flex items-center gap-2"><UserIcon className="h-4 w-4"/> User</span>
-                                    </SelectItem>
-                                    <SelectItem value="lawyer">
-                                        <span className="flex items-center gap-2"><Briefcase className="h-4 w-4"/> Lawyer</span>
-                                    </SelectItem>
-                                    <SelectItem value="admin">
-                                        <span className="flex items-center gap-2"><Shield className="h-4 w-4"/> Admin</span>
-                                    </SelectItem>
+                                    {USER_ROLES.map(role => {
+                                        const RoleIcon = ROLE_ICONS[role];
+                                        return (
+                                            <SelectItem key={role} value={role}>
+                                                <span className="flex items-center gap-2"><RoleIcon className="h-4 w-4"/> {ROLE_DEFINITIONS[role].label}</span>
+                                            </SelectItem>
+                                        );
+                                    })}
                                 </SelectContent>
                             </Select>
                         </TableCell>
+                        <TableCell>
+                            {/* Saved on blur. Shows the stored firm until the user's doc updates, so a rejected change reverts. */}
+                            <Input
+                                key={user.firmId ?? ''}
+                                defaultValue={user.firmId ?? ''}
+                                placeholder="No firm"
+                                onBlur={(e) => {
+                                    const firmId = e.target.value.trim();
+                                    if (firmId !== (user.firmId ?? '')) {
+                                        e.target.value = user.firmId ?? '';
+                                        handleRoleChange(user.id, user.role ?? 'user', firmId || undefined);
+                                    }
+                                }}
+                            />
+                        </TableCell>
+                        <TableCell>
+                            <Button variant="outline" size="sm" onClick={() => setQuotaUser(user)}>
+                                <Gauge className="mr-2 h-4 w-4"/> Edit
+                            </Button>
+                        </TableCell>
                         </TableRow>
                     )) : (
                         <TableRow>
-                            <TableCell colSpan={4} className="h-24 text-center">
+                            <TableCell colSpan={6} className="h-24 text-center">
                                 No users found.
                             </TableCell>
                         </TableRow>
@@ -208,6 +379,7 @@ export default function UsersPage() {
             </Card>
         </div>
       </div>
+      <QuotaDialog user={quotaUser} onClose={closeQuotaDialog} />
     </main>
   );
 }
@@ -6,6 +6,7 @@ import Link from 'next/link';
 import { Scale, History, LogOut, Bot, ShieldCheck, Users, User as UserIcon, LayoutDashboard, Menu, LogIn } from 'lucide-react';
 import { Button } from './ui/button';
 import { useAuth } from '@/hooks/use-auth';
+import { hasPermission, type Permission } from '@/lib/auth-types';
 import { useEffect, useState } from 'react';
 import { getFirestore, doc, onSnapshot } from 'firebase/firestore';
 import { app } from '@/lib/firebase-config';
@@ -14,9 +15,9 @@ import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { Sheet, SheetContent, SheetTrigger } from './ui/sheet';
 
 export default function AppHeader() {
-  const { user, signOut, loading } = useAuth();
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [isLawyer, setIsLawyer] = useState(false);
+  const { user, role, signOut, loading } = useAuth();
+  const can = (permission: Permission) => hasPermission(role, permission);
+  const hasDashboard = can('lawyerProfile.edit');
   const [userData, setUserData] = useState<{ displayName?: string, photoURL?: string, email?: string } | null>(null);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
@@ -27,22 +28,15 @@ export default function AppHeader() {
 
       const unsubscribe = onSnapshot(userDocRef, (doc) => {
         if (doc.exists()) {
-          const uData = doc.data();
-          setUserData(uData);
-          setIsAdmin(uData.role === 'admin');
-          setIsLawyer(uData.role === 'lawyer');
+          setUserData(doc.data());
         } else {
           // Fallback if firestore doc hasn't been created yet
-          setIsAdmin(false);
-          setIsLawyer(false);
           setUserData({ email: user.email, displayName: user.displayName, photoURL: user.photoURL });
         }
       });
 
       return () => unsubscribe();
     } else {
-      setIsAdmin(false);
-      setIsLawyer(false);
       setUserData(null);
     }
   }, [user]);
@@ -52,9 +46,10 @@ export default function AppHeader() {
       <Link href="/">Analyzer</Link>
       <Link href="/history">History</Link>
       <Link href="/legal-simulator">Simulator</Link>
-      {isLawyer && user && <Link href={`/dashboard/${user.uid}`}>Dashboard</Link>}
-      {isAdmin && <Link href="/admin">Lawyers</Link>}
-      {isAdmin && <Link href="/users">Users</Link>}
+      {hasDashboard && user && <Link href={`/dashboard/${user.uid}`}>Dashboard</Link>}
+      {can('lawyer.list') && <Link href="/admin">Lawyers</Link>}
+      {can('usage.read') && <Link href="/admin/usage">Usage</Link>}
+      {can('user.manage') && <Link href="/users">Users</Link>}
     </>
   );
 
@@ -128,7 +123,7 @@ export default function AppHeader() {
                             <span>My Profile</span>
                         </DropdownMenuItem>
                     </Link>
-                    {isLawyer && (
+                    {hasDashboard && (
                          <Link href={`/dashboard/${user.uid}`}>
                             <DropdownMenuItem>
                                 <LayoutDashboard className="mr-2 h-4 w-4" />
@@ -5,6 +5,7 @@ import { useState, useEffect } from 'react';
 import { getFirestore, collection, query, orderBy, onSnapshot, doc, addDoc } from 'firebase/firestore';
 import { app } from '@/lib/firebase-config';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
 import { Loader2, BookText, Plus, Send } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -50,6 +51,7 @@ export default function CaseLogs({ lawyerId, viewOnly }: CaseLogsProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isNewCaseDialogOpen, setIsNewCaseDialogOpen] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const form = useForm<z.infer<typeof caseLogSchema>>({
     resolver: zodResolver(caseLogSchema),
@@ -75,8 +77,9 @@ export default function CaseLogs({ lawyerId, viewOnly }: CaseLogsProps) {
   }, [lawyerId, toast]);
 
   const onSubmit = async (values: z.infer<typeof caseLogSchema>) => {
+    if (!user) return;
     setIsSubmitting(true);
-    const result = await createCaseLog(lawyerId, values);
+    const result = await createCaseLog(await user.getIdToken(), lawyerId, values);
     if ('error' in result) {
       toast({ variant: 'destructive', title: 'Error', description: result.error });
     } else {
@@ -107,10 +110,10 @@ export default function CaseLogs({ lawyerId, viewOnly }: CaseLogsProps) {
     
     const handleAddEntry = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!newEntry.trim()) return;
+        if (!newEntry.trim() || !user) return;
 
         setIsPosting(true);
-        const result = await addCaseLogEntry(lawyerId, caseItem.id, newEntry);
+        const result = await addCaseLogEntry(await user.getIdToken(), lawyerId, caseItem.id, newEntry);
         if ('error' in result) {
             toast({ variant: 'destructive', title: 'Error', description: result.error });
         } else {
@@ -2,33 +2,47 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { cn } from '@/lib/utils';
-import { AskDocumentQuestionOutput } from '@/ai/flows/ask-document-question';
-import { getSpeech, createTask } from '@/app/actions';
-import { Loader2, Send, Bot, User, Volume2, Mic } from 'lucide-react';
+import { getSpeech, createTask, getDocumentUrl } from '@/app/actions';
+import { Loader2, Send, Bot, User, Volume2, Mic, FileText, ExternalLink, AlertTriangle } from 'lucide-react';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { ScrollArea } from './ui/scroll-area';
 import { Input } from './ui/input';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { getFirestore, collection, getDocs, orderBy, query } from 'firebase/firestore';
+import { app } from '@/lib/firebase-config';
 import { useAuth } from '@/hooks/use-auth';
 import { useTask } from '@/hooks/use-task';
+import type { TaskDoc } from '@/lib/task-types';
+import type { TaskOutput } from '@/lib/tasks';
+import type { TextAnchor } from '@/lib/anchor-types';
+import { describeActionError } from '@/lib/quota-types';
 import { useToast } from '@/hooks/use-toast';
 
 type ChatMessage = {
     role: 'user' | 'assistant';
-    content: string | AskDocumentQuestionOutput;
+    content: string | TaskOutput<'askQuestion'>;
     audioUrl?: string;
 };
 
 type ChatInterfaceProps = {
-    fileData: { fileAsBase64: string, mimeType: string, fileName: string };
+    // pageCount is set for scanned documents, whose original is one image per page. historyId is the
+    // analysis of the document: questions are answered from its retrieval index, and the conversation
+    // is stored under it and restored when the chat is reopened.
+    fileData: { storagePath: string, mimeType: string, fileName: string, pageCount?: number, historyId?: string };
     initialMessages?: ChatMessage[];
     className?: string;
 };
 
-const AssistantMessage = ({ message, audioUrl }: { message: AskDocumentQuestionOutput, audioUrl?: string }) => {
+// "Page 3 · §5.2" for a located source, so users can find it in the original.
+const anchorLabel = (anchor: TextAnchor) =>
+    [anchor.page && `Page ${anchor.page}`, anchor.section && `§${anchor.section}`].filter(Boolean).join(' · ');
+
+const AssistantMessage = ({ message, audioUrl }: { message: TaskOutput<'askQuestion'>, audioUrl?: string }) => {
     const audioRef = useRef<HTMLAudioElement>(null);
-    const { analysis, confidenceScore, negotiationHelper, plainEnglish, riskHeatmapLabel, riskJustification, sources } = message;
+    const { analysis, confidenceScore, modelConfidenceScore, negotiationHelper, plainEnglish, riskHeatmapLabel, riskJustification, sources, sourceAnchors, sourceChecks } = message;
+    const unverifiedCount = sourceChecks?.filter(check => check === 'unverified').length ?? 0;
 
     const playAudio = (audioUrl: string) => {
         if (audioRef.current) {
@@ -94,9 +108,33 @@ const AssistantMessage = ({ message, audioUrl }: { message: AskDocumentQuestionO
                             <Progress value={confidenceScore} className="h-2 w-24" />
                             <span>{confidenceScore}% Confidence</span>
                         </div>
+                        {unverifiedCount > 0 && modelConfidenceScore !== undefined && (
+                            <p className="text-amber-600 dark:text-amber-500">
+                                Lowered from {modelConfidenceScore}% because {unverifiedCount} of {sources.length} cited {sources.length === 1 ? 'passage' : 'passages'} could not be found in your document.
+                            </p>
+                        )}
                         <div>
                         <p className="font-medium">Cited from document:</p>
-                        {sources.map((s, i) => <blockquote key={i} className="border-l-2 pl-2 italic mt-1 text-muted-foreground">{s}</blockquote>)}
+                        {sources.map((s, i) => {
+                            const anchor = sourceAnchors?.[i];
+                            const check = sourceChecks?.[i];
+                            return (
+                                <blockquote key={i} className={cn("border-l-2 pl-2 italic mt-1 text-muted-foreground", check === 'unverified' && "border-amber-500")}>
+                                    {s}
+                                    {anchor && anchorLabel(anchor) && <span className="ml-2 not-italic text-xs text-primary">{anchorLabel(anchor)}</span>}
+                                    {check === 'approximate' && <span className="ml-2 not-italic text-xs text-muted-foreground">(approximate match)</span>}
+                                    {check === 'unverified' && (
+                                        <span className="mt-1 flex items-start gap-1 not-italic font-medium text-amber-600 dark:text-amber-500">
+                                            <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-px" />
+                                            We could not find this text in your document. It may be paraphrased or invented, so check the original before relying on it.
+                                        </span>
+                                    )}
+                                </blockquote>
+                            );
+                        })}
+                        {sourceChecks?.includes('unchecked') && (
+                            <p className="mt-1 text-muted-foreground">These quotes couldn't be checked because no text could be extracted from this document.</p>
+                        )}
                         </div>
                     </div>
                 </div>
@@ -115,15 +153,39 @@ export default function ChatInterface({ fileData, initialMessages = [], classNam
     const { toast } = useToast();
     const chatContainerRef = useRef<HTMLDivElement>(null);
     const [currentTaskId, setCurrentTaskId] = useState<string | null>(null);
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    // Earlier questions about this analysis replace the greeting. The server stores each exchange as it's answered.
+    useEffect(() => {
+        if (!user || !fileData.historyId) return;
+        let cancelled = false;
+        setIsRestoring(true);
+        const conversation = collection(getFirestore(app), 'users', user.uid, 'history', fileData.historyId, 'conversation');
+        getDocs(query(conversation, orderBy('createdAt')))
+            .then((snapshot) => {
+                if (cancelled || snapshot.empty) return;
+                setChatMessages(snapshot.docs.flatMap((doc) => {
+                    const { question, answer } = doc.data() as { question: string, answer: TaskOutput<'askQuestion'> };
+                    return [{ role: 'user' as const, content: question }, { role: 'assistant' as const, content: answer }];
+                }));
+            })
+            .catch(e => console.error('Failed to load the conversation:', e))
+            .finally(() => !cancelled && setIsRestoring(false));
+        return () => { cancelled = true; };
+    }, [user, fileData.historyId]);
 
-    const onTaskUpdate = async (task: any) => {
-        if (task.status === 'completed') {
-            const response = task.result as AskDocumentQuestionOutput;
-            const speechResponse = await getSpeech(response.plainEnglish);
-            const audioUrl = 'error' in speechResponse ? undefined : speechResponse.media;
+    const onTaskUpdate = async (task: TaskDoc<'askQuestion'>) => {
+        if (task.status === 'completed' && task.result) {
+            const response = task.result;
+            const speechResponse = user && await getSpeech(await user.getIdToken(), response.plainEnglish);
+            const audioUrl = !speechResponse || 'error' in speechResponse ? undefined : speechResponse.media;
+            // The answer is still shown without audio; only say why when it's the read-aloud quota.
+            if (speechResponse && 'error' in speechResponse && speechResponse.quotaExceeded) {
+                toast({ title: 'Read-aloud Unavailable', description: describeActionError(speechResponse) });
+            }
             setChatMessages(prev => [...prev, { role: 'assistant', content: response, audioUrl }]);
             setCurrentTaskId(null);
-        } else if (task.status === 'failed') {
+        } else if (task.status === 'failed' || task.status === 'dead_letter') {
             setChatMessages(prev => [...prev, { role: 'assistant', content: `Sorry, I encountered an error: ${task.error}` }]);
             toast({
                 variant: 'destructive',
@@ -131,10 +193,13 @@ export default function ChatInterface({ fileData, initialMessages = [], classNam
                 description: task.error,
             });
             setCurrentTaskId(null);
+        } else if (task.status === 'cancelled') {
+            toast({ title: 'Question Cancelled', description: 'Ask again whenever you are ready.' });
+            setCurrentTaskId(null);
         }
     };
 
-    const { task, isLoading } = useTask(currentTaskId, onTaskUpdate);
+    const { task, isLoading } = useTask<'askQuestion'>(currentTaskId, onTaskUpdate);
 
     useEffect(() => {
         if (chatContainerRef.current) {
@@ -151,33 +216,68 @@ export default function ChatInterface({ fileData, initialMessages = [], classNam
         setChatMessages(prev => [...prev, { role: 'user', content: currentQuestion }]);
         setQuestion('');
 
-        const taskPayload = { 
-            type: 'askQuestion', 
-            payload: { 
-                fileAsBase64: fileData.fileAsBase64, 
-                mimeType: fileData.mimeType, 
-                question: currentQuestion 
-            } 
-        };
-
-        const response = await createTask(user.uid, taskPayload);
+        const response = await createTask(await user.getIdToken(), {
+            type: 'askQuestion',
+            payload: {
+                storagePath: fileData.storagePath,
+                mimeType: fileData.mimeType,
+                ...(fileData.historyId && { historyId: fileData.historyId }),
+                question: currentQuestion
+            }
+        });
 
         if ('error' in response) {
-            setChatMessages(prev => [...prev, { role: 'assistant', content: response.error || 'Sorry, I encountered an error creating the task.' }]);
+            const message = describeActionError(response);
+            setChatMessages(prev => [...prev, { role: 'assistant', content: message || 'Sorry, I encountered an error creating the task.' }]);
              toast({
                 variant: 'destructive',
-                title: 'Error',
-                description: response.error,
+                title: response.quotaExceeded ? 'Limit Reached' : 'Error',
+                description: message,
             });
-        } else {
+        } else if ('taskId' in response) {
             setCurrentTaskId(response.taskId);
         }
     };
 
-    const isAsking = isLoading || !!currentTaskId;
+    const isAsking = isLoading || !!currentTaskId || isRestoring;
+
+    // Originals are private in Storage; open them through a short-lived signed URL.
+    const handleOpenDocument = async (page?: number) => {
+        if (!user) return;
+        const response = await getDocumentUrl(await user.getIdToken(), fileData.storagePath, page);
+        if ('error' in response) {
+            toast({ variant: 'destructive', title: 'Error', description: response.error });
+        } else {
+            window.open(response.url, '_blank', 'noopener,noreferrer');
+        }
+    };
 
     return (
         <div className={cn("flex flex-col h-full", className)}>
+            <div className="flex items-center gap-2 border-b px-4 py-2 text-sm">
+                <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="flex-1 truncate">{fileData.fileName}</span>
+                {fileData.pageCount ? (
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button type="button" variant="ghost" size="sm">
+                                <ExternalLink className="h-4 w-4" />
+                                View page
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+                            {Array.from({ length: fileData.pageCount }, (_, i) => (
+                                <DropdownMenuItem key={i} onClick={() => handleOpenDocument(i + 1)}>Page {i + 1}</DropdownMenuItem>
+                            ))}
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                ) : (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => handleOpenDocument()}>
+                        <ExternalLink className="h-4 w-4" />
+                        View original
+                    </Button>
+                )}
+            </div>
             <ScrollArea className="flex-grow h-0" ref={chatContainerRef}>
                 <div className="space-y-4 p-4">
                     {chatMessages.map((message, index) => (
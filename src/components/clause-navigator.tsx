@@ -0,0 +1,79 @@
+'use client';
+
+import { AlertTriangle, Bomb, Microscope, Pilcrow } from 'lucide-react';
+import React from 'react';
+
+import type { ClassificationAnchors } from '@/lib/anchor-types';
+import type { TaskOutput } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+import { AnchorBadge, LIST_RISK, RISK_HIGHLIGHT_CLASSES, selectableRow, type DocumentHighlight } from './document-viewer';
+import { ScrollArea } from './ui/scroll-area';
+
+type ClauseNavigatorProps = {
+  analysis: Pick<TaskOutput<'classifyDocument'>, 'clauseByClause' | 'riskRadar' | 'hiddenTraps' | 'timeBombDetector'>;
+  anchors: ClassificationAnchors | null;
+  highlight: DocumentHighlight | null;
+  onSelect: (highlight: DocumentHighlight) => void;
+  className?: string;
+};
+
+const Group = ({ icon, title, children }: { icon: React.ReactNode, title: string, children: React.ReactNode }) => (
+  <section className="space-y-2">
+    <h3 className="flex items-center gap-2 text-sm font-semibold font-display">{icon}{title}</h3>
+    {children}
+  </section>
+);
+
+// A compact list of an analysis' clauses for pages that show the document alongside something other than the full analysis.
+export default function ClauseNavigator({ analysis, anchors, highlight, onSelect, className }: ClauseNavigatorProps) {
+  const row = 'p-2 rounded-md border bg-card text-sm space-y-1';
+
+  return (
+    <ScrollArea className={className}>
+      <div className="space-y-6 p-4">
+        {!anchors && (
+          <p className="text-sm text-muted-foreground">This analysis was made before clauses were linked to the document. Re-analyze it to find each clause in the text.</p>
+        )}
+        <Group icon={<AlertTriangle className="h-4 w-4 text-destructive" />} title="Risk Radar">
+          {analysis.riskRadar.map((item, index) => (
+            <div key={index} {...selectableRow(row, anchors, 'riskRadar', index, LIST_RISK.riskRadar, highlight, onSelect)}>
+              <p className="font-medium">{item.clause}</p>
+              <p className="text-muted-foreground">{item.risk}</p>
+              {anchors && <AnchorBadge anchor={anchors.riskRadar[index]} />}
+            </div>
+          ))}
+        </Group>
+        <Group icon={<Microscope className="h-4 w-4" />} title="Hidden Traps">
+          {analysis.hiddenTraps.map((item, index) => (
+            <div key={index} {...selectableRow(row, anchors, 'hiddenTraps', index, LIST_RISK.hiddenTraps, highlight, onSelect)}>
+              <p className="font-medium">{item.clause}</p>
+              <p className="text-muted-foreground">{item.trap}</p>
+              {anchors && <AnchorBadge anchor={anchors.hiddenTraps[index]} />}
+            </div>
+          ))}
+        </Group>
+        <Group icon={<Bomb className="h-4 w-4" />} title="Time Bomb Detector">
+          {analysis.timeBombDetector.map((item, index) => (
+            <div key={index} {...selectableRow(row, anchors, 'timeBombDetector', index, LIST_RISK.timeBombDetector, highlight, onSelect)}>
+              <p className="font-medium">{item.action} <span className="font-normal text-muted-foreground">— {item.deadline}</span></p>
+              <p className="text-muted-foreground">{item.consequence}</p>
+              {anchors && <AnchorBadge anchor={anchors.timeBombDetector[index]} />}
+            </div>
+          ))}
+        </Group>
+        <Group icon={<Pilcrow className="h-4 w-4" />} title="Clause-by-Clause">
+          {analysis.clauseByClause.map((item, index) => (
+            <div key={index} {...selectableRow(row, anchors, 'clauseByClause', index, item.riskLevel, highlight, onSelect)}>
+              <p className="flex items-start justify-between gap-2 font-medium">
+                {item.clause}
+                <span className={cn('flex-shrink-0 rounded-sm px-1.5 text-xs ring-1', RISK_HIGHLIGHT_CLASSES[item.riskLevel])}>{item.riskLevel}</span>
+              </p>
+              <p className="text-muted-foreground">{item.simplification}</p>
+              {anchors && <AnchorBadge anchor={anchors.clauseByClause[index]} />}
+            </div>
+          ))}
+        </Group>
+      </div>
+    </ScrollArea>
+  );
+}
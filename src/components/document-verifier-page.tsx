@@ -1,118 +1,221 @@
 
 'use client';
 
-import { AlertTriangle, Briefcase, FileJson, FileSearch2, Flame, GanttChart, Handshake, Info, Landmark, Layers, Loader2, Microscope, Pilcrow, Scale, Shield, Sparkles, Upload, UserRoundCheck, Wallet, GitCompare } from 'lucide-react';
+import { AlertTriangle, Briefcase, FileJson, FileSearch2, Flame, GanttChart, Handshake, Info, Landmark, Layers, Loader2, Microscope, Pilcrow, Scale, Shield, Sparkles, Upload, UserRoundCheck, Wallet, GitCompare, ScanText, Bomb, XCircle, CheckCircle2, Circle, History, RefreshCw } from 'lucide-react';
 import React, { useEffect, useState } from 'react';
 
-import { createTask } from '@/app/actions';
-import type { ClassifyDocumentOutput } from '@/ai/flows/classify-uploaded-document';
+import { cancelTask, createTask } from '@/app/actions';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/hooks/use-auth';
 import ChatInterface from './chat-interface';
+import DocumentViewer, { AnchorBadge, LIST_RISK, selectableRow, type DocumentHighlight } from './document-viewer';
 import { useTask } from '@/hooks/use-task';
+import type { TaskDoc, TaskStage } from '@/lib/task-types';
+import type { TaskOutput } from '@/lib/tasks';
+import { usableAnchors } from '@/lib/anchor-types';
+import { describeActionError } from '@/lib/quota-types';
+import { DOCUMENT_FILE_TYPES, IMAGE_FILE_TYPES, MAX_SCANNED_PAGES, MIN_PASTED_TEXT_LENGTH, normalizePastedText, pastedTextFileName, resolveMimeType, type StoredDocument } from '@/lib/documents';
+import { uploadDocument, uploadScannedPages } from '@/lib/document-upload';
 import { Progress } from './ui/progress';
 
-const ACCEPTED_FILE_TYPES = {
-  'text/plain': '.txt',
-  'application/pdf': '.pdf',
+const ACCEPTED_EXTENSIONS = Array.from(new Set(Object.values(DOCUMENT_FILE_TYPES)));
+const IMAGE_EXTENSIONS = Object.values(IMAGE_FILE_TYPES);
+// List extensions as well as MIME types so the picker still offers files the OS doesn't type.
+const ACCEPT_ATTRIBUTE = [
+  ...Object.keys(DOCUMENT_FILE_TYPES), ...ACCEPTED_EXTENSIONS, '.htm',
+  ...Object.keys(IMAGE_FILE_TYPES), ...IMAGE_EXTENSIONS, '.jpeg',
+].join(',');
+
+// Elapsed time for a finished stage, or time so far for the running one.
+const formatStageDuration = (stage: TaskStage) => {
+  if (!stage.startedAt) return '';
+  const end = stage.completedAt ? stage.completedAt.toDate().getTime() : Date.now();
+  const seconds = (end - stage.startedAt.toDate().getTime()) / 1000;
+  return seconds < 10 ? `${seconds.toFixed(1)}s` : `${Math.round(seconds)}s`;
 };
 
-type Lawyer = {
-    id: string;
-    name: string;
-    specialty: string;
-    location: string;
-    contact: string;
-    costPerHearing: number;
-}
-type AnalysisResult = ClassifyDocumentOutput & { 
-    fileAsBase64?: string; 
-    mimeType?: string; 
-    fileName?: string; 
-    recommendedLawyers?: Lawyer[];
-    expenditureAnalysis: {
-        estimatedCostRange: string;
-    } & ClassifyDocumentOutput['expenditureAnalysis'];
+// Names of the analysis sections as they appear below, for the notice about sections the AI couldn't produce.
+const SECTION_LABELS: Record<string, string> = {
+  riskRadar: 'Risk Radar',
+  hiddenTraps: 'Hidden Traps',
+  jargonBuster: 'Jargon Buster',
+  timeBombDetector: 'Time Bomb Detector',
+  privacyDataUse: 'Privacy & Data Use',
+  consumerChecklist: 'Consumer Checklist',
+  negotiationPlaybook: 'Negotiation Playbook',
+  costBenefitSnapshot: 'Cost & Benefit Snapshot',
+  complianceEthicalNote: 'Compliance & Ethical Note',
+  actionPrioritizer: 'Action Prioritizer',
+  expenditureAnalysis: 'Expenditure Analysis',
+  lawyerCategory: 'Lawyer Recommendations',
+  clauseByClause: 'Clause-by-Clause Simplification',
 };
 
+type UploadedFile = StoredDocument & { fileName: string, pageCount?: number, source?: 'upload' | 'paste' };
+
+type AnalysisResult = TaskOutput<'classifyDocument'> & Partial<UploadedFile>;
+
 export default function DocumentVerifierPage() {
   const { user } = useAuth();
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [uploadedFile, setUploadedFile] = useState<{ fileName: string, fileAsBase64: string, mimeType: string } | null>(null);
+  const [uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [pastedTitle, setPastedTitle] = useState('');
+  const [pastedText, setPastedText] = useState('');
   const [currentTaskId, setCurrentTaskId] = useState<string | null>(null);
+  // The history item of the result shown, whose retrieval index the chat's questions use.
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  // Set when the result shown was served from an earlier analysis of the same file.
+  const [cachedAnalysis, setCachedAnalysis] = useState<{ analyzedAt: string | null } | null>(null);
+  // The passage selected from an analysis row, shown in the document viewer.
+  const [highlight, setHighlight] = useState<DocumentHighlight | null>(null);
+  const [sidePanel, setSidePanel] = useState<'document' | 'chat'>('document');
 
   const { toast } = useToast();
   
-  const onTaskUpdate = (task: any) => {
-    if (task.status === 'completed') {
-      const taskResult = task.result as AnalysisResult;
-      setResult({ ...taskResult, ...uploadedFile });
+  const onTaskUpdate = (task: TaskDoc<'classifyDocument'>) => {
+    if (task.status === 'completed' && task.result) {
+      setResult({ ...task.result, ...uploadedFile });
+      setHistoryId(currentTaskId);
       setCurrentTaskId(null);
-    } else if (task.status === 'failed') {
+    } else if (task.status === 'failed' || task.status === 'dead_letter') {
       toast({
         variant: 'destructive',
-        title: 'Analysis Failed',
+        title: task.status === 'dead_letter' ? 'Analysis Gave Up After Retries' : 'Analysis Failed',
         description: task.error,
       });
       setUploadedFile(null);
       setCurrentTaskId(null);
+    } else if (task.status === 'cancelled') {
+      toast({ title: 'Analysis Cancelled', description: 'No history record was saved for this document.' });
+      setUploadedFile(null);
+      setCurrentTaskId(null);
     }
   };
   
-  const { task, isLoading } = useTask(currentTaskId, onTaskUpdate);
+  const { task, stages, progress, isLoading } = useTask<'classifyDocument'>(currentTaskId, onTaskUpdate);
   
-  const processFile = (file: File) => {
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const handleCancel = async () => {
+    if (!user || !currentTaskId) return;
+    setIsCancelling(true);
+    const response = await cancelTask(await user.getIdToken(), currentTaskId);
+    if ('error' in response) {
+      toast({ variant: 'destructive', title: 'Could Not Cancel', description: response.error });
+    }
+    setIsCancelling(false);
+  };
+
+  const submitAnalysis = async (fileInfo: UploadedFile, reanalyze = false) => {
+    if (!user) return;
+    setResult(null);
+    setHistoryId(null);
+    setCachedAnalysis(null);
+    setHighlight(null);
+
+    const response = await createTask(await user.getIdToken(), { type: 'classifyDocument', payload: fileInfo }, { reanalyze });
+
+    if ('error' in response) {
+       toast({ variant: 'destructive', title: response.quotaExceeded ? 'Limit Reached' : 'Error', description: describeActionError(response) });
+       setUploadedFile(null);
+    } else if ('cached' in response) {
+       setResult({ ...response.cached.result, ...fileInfo });
+       setHistoryId(response.cached.historyId);
+       setCachedAnalysis({ analyzedAt: response.cached.analyzedAt });
+    } else {
+       setCurrentTaskId(response.taskId);
+    }
+  };
+
+  const uploadAndAnalyze = async (upload: () => Promise<StoredDocument>, details: Omit<UploadedFile, keyof StoredDocument>) => {
+    setResult(null);
+    setIsUploading(true);
+    try {
+      const fileInfo: UploadedFile = { ...await upload(), ...details };
+      setUploadedFile(fileInfo);
+      await submitAnalysis(fileInfo);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Upload Failed', description: error.message });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const processFiles = (files: File[]) => {
     if (!user) {
         toast({ variant: 'destructive', title: 'Authentication Error', description: 'You must be logged in to analyze documents.' });
         return;
     }
-    if (Object.keys(ACCEPTED_FILE_TYPES).includes(file.type)) {
-      setResult(null);
 
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const fileAsBuffer = e.target?.result as ArrayBuffer;
-        if (fileAsBuffer) {
-          const fileAsBase64 = Buffer.from(fileAsBuffer).toString('base64');
-          const fileInfo = { fileName: file.name, fileAsBase64, mimeType: file.type };
-          setUploadedFile(fileInfo);
-          
-          const taskPayload = { type: 'classifyDocument', payload: fileInfo };
-          const response = await createTask(user.uid, taskPayload);
+    // Photos are treated as the pages of one scanned document, ordered by file name (IMG_2 before IMG_10).
+    const images = files.map(file => ({ file, mimeType: resolveMimeType(file.name, file.type, IMAGE_FILE_TYPES) }));
+    if (images.every(image => image.mimeType)) {
+      if (images.length > MAX_SCANNED_PAGES) {
+        toast({ variant: 'destructive', title: 'Too Many Pages', description: `Please upload at most ${MAX_SCANNED_PAGES} page images.` });
+        return;
+      }
+      images.sort((a, b) => a.file.name.localeCompare(b.file.name, undefined, { numeric: true }));
+      const fileName = images.length === 1 ? images[0].file.name : `${images[0].file.name} (+${images.length - 1} pages)`;
+      uploadAndAnalyze(async () => uploadScannedPages(user.uid, await Promise.all(
+        images.map(async ({ file, mimeType }) => ({ bytes: await file.arrayBuffer(), mimeType: mimeType! })),
+      )), { fileName, pageCount: images.length });
+      return;
+    }
+
+    if (files.length > 1) {
+      toast({ variant: 'destructive', title: 'One Document at a Time', description: 'Multiple files can only be uploaded as the page images of one scanned document.' });
+      return;
+    }
 
-          if ('error' in response) {
-             toast({ variant: 'destructive', title: 'Error', description: response.error });
-             setUploadedFile(null);
-          } else {
-             setCurrentTaskId(response.taskId);
-          }
-        }
-      };
-      reader.onerror = () => {
-        toast({ variant: 'destructive', title: 'Error reading file.' });
-      };
-      reader.readAsArrayBuffer(file);
+    const [file] = files;
+    const mimeType = resolveMimeType(file.name, file.type);
+    if (mimeType) {
+      uploadAndAnalyze(async () => uploadDocument(user.uid, await file.arrayBuffer(), mimeType), { fileName: file.name });
     } else {
       toast({
         variant: 'destructive',
         title: 'Unsupported File Type',
-        description: `Please upload one of the following file types: ${Object.values(ACCEPTED_FILE_TYPES).join(', ')}`,
+        description: `Please upload one of the following file types: ${ACCEPTED_EXTENSIONS.join(', ')}, or photos of each page`,
       });
     }
   };
-  
+
+  const handlePasteSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!user) {
+        toast({ variant: 'destructive', title: 'Authentication Error', description: 'You must be logged in to analyze documents.' });
+        return;
+    }
+    const text = normalizePastedText(pastedText);
+    if (text.length < MIN_PASTED_TEXT_LENGTH) {
+      toast({ variant: 'destructive', title: 'Text Too Short', description: `Please paste at least ${MIN_PASTED_TEXT_LENGTH} characters so there is enough to analyze.` });
+      return;
+    }
+    const bytes = new TextEncoder().encode(text);
+    uploadAndAnalyze(() => uploadDocument(user.uid, bytes.buffer as ArrayBuffer, 'text/plain'), {
+      fileName: pastedTextFileName(pastedTitle),
+      source: 'paste',
+    });
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      processFile(file);
+    const files = Array.from(event.target.files ?? []);
+    if (files.length) {
+      processFiles(files);
     }
+    event.target.value = '';
   };
 
   const handleDragEvents = (event: React.DragEvent<HTMLDivElement>, dragging: boolean) => {
@@ -123,9 +226,9 @@ export default function DocumentVerifierPage() {
 
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     handleDragEvents(event, false);
-    const file = event.dataTransfer.files?.[0];
-    if (file) {
-      processFile(file);
+    const files = Array.from(event.dataTransfer.files ?? []);
+    if (files.length) {
+      processFiles(files);
     }
   };
   
@@ -148,7 +251,13 @@ export default function DocumentVerifierPage() {
     </AccordionTrigger>
   );
 
-  const isProcessing = isLoading;
+  const isProcessing = isLoading || isUploading;
+
+  const anchors = usableAnchors(result?.anchors);
+  const selectPassage = (selected: DocumentHighlight) => {
+    setHighlight(selected);
+    setSidePanel('document');
+  };
 
   return (
     <div className="container mx-auto px-4 py-8 sm:py-12">
@@ -162,57 +271,111 @@ export default function DocumentVerifierPage() {
         </p>
       </header>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <div className="space-y-8">
             <Card>
               <CardHeader>
                 <CardTitle className="font-display">Submit Document</CardTitle>
-                <CardDescription>Upload a .txt or .pdf file for analysis.</CardDescription>
+                <CardDescription>Upload a document or photos of its pages, or paste the text directly.</CardDescription>
               </CardHeader>
               <CardContent>
-                <div
-                  onDragEnter={(e) => handleDragEvents(e, true)}
-                  onDragLeave={(e) => handleDragEvents(e, false)}
-                  onDragOver={(e) => handleDragEvents(e, true)}
-                  onDrop={handleDrop}
-                  className={cn(
-                    "relative flex flex-col items-center justify-center w-full p-8 rounded-lg border-2 border-dashed transition-colors",
-                    isDragging ? "border-primary bg-accent" : "border-input",
-                    isProcessing && "cursor-not-allowed opacity-50"
-                  )}
-                >
-                  <div className="text-center">
-                    <Upload className="mx-auto h-10 w-10 text-muted-foreground" />
-                    <p className="mt-2 text-sm text-muted-foreground">
-                      <label htmlFor="file-upload" className={cn("font-semibold text-primary hover:underline", isProcessing ? "cursor-not-allowed" : "cursor-pointer")}>
-                        Upload a file
-                      </label>
-                      {' '}or drag and drop
-                    </p>
-                    <p className="text-xs text-muted-foreground">{Object.values(ACCEPTED_FILE_TYPES).join(', ')}</p>
-                    <input id="file-upload" type="file" className="sr-only" accept={Object.keys(ACCEPTED_FILE_TYPES).join(',')} onChange={handleFileSelect} disabled={isProcessing} />
-                  </div>
-                </div>
+                <Tabs defaultValue="upload">
+                  <TabsList className="grid w-full grid-cols-2 mb-4">
+                    <TabsTrigger value="upload" disabled={isProcessing}>Upload file</TabsTrigger>
+                    <TabsTrigger value="paste" disabled={isProcessing}>Paste text</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="upload">
+                    <div
+                      onDragEnter={(e) => handleDragEvents(e, true)}
+                      onDragLeave={(e) => handleDragEvents(e, false)}
+                      onDragOver={(e) => handleDragEvents(e, true)}
+                      onDrop={handleDrop}
+                      className={cn(
+                        "relative flex flex-col items-center justify-center w-full p-8 rounded-lg border-2 border-dashed transition-colors",
+                        isDragging ? "border-primary bg-accent" : "border-input",
+                        isProcessing && "cursor-not-allowed opacity-50"
+                      )}
+                    >
+                      <div className="text-center">
+                        <Upload className="mx-auto h-10 w-10 text-muted-foreground" />
+                        <p className="mt-2 text-sm text-muted-foreground">
+                          <label htmlFor="file-upload" className={cn("font-semibold text-primary hover:underline", isProcessing ? "cursor-not-allowed" : "cursor-pointer")}>
+                            Upload a file
+                          </label>
+                          {' '}or drag and drop
+                        </p>
+                        <p className="text-xs text-muted-foreground">{ACCEPTED_EXTENSIONS.join(', ')}</p>
+                        <p className="text-xs text-muted-foreground">or up to {MAX_SCANNED_PAGES} page photos ({IMAGE_EXTENSIONS.join(', ')})</p>
+                        <input id="file-upload" type="file" multiple className="sr-only" accept={ACCEPT_ATTRIBUTE} onChange={handleFileSelect} disabled={isProcessing} />
+                      </div>
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="paste">
+                    <form onSubmit={handlePasteSubmit} className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="paste-title">Title</Label>
+                        <Input id="paste-title" placeholder="e.g. Streaming service Terms of Service" value={pastedTitle} onChange={(e) => setPastedTitle(e.target.value)} disabled={isProcessing} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="paste-text">Text</Label>
+                        <Textarea
+                          id="paste-text"
+                          placeholder="Paste terms of service, a forwarded clause or an email body. Keep the blank lines between paragraphs."
+                          className="min-h-[220px] font-mono text-xs"
+                          value={pastedText}
+                          onChange={(e) => setPastedText(e.target.value)}
+                          disabled={isProcessing}
+                        />
+                        <p className={cn("text-xs text-right tabular-nums", pastedText.trim().length < MIN_PASTED_TEXT_LENGTH ? "text-muted-foreground" : "text-green-600")}>
+                          {pastedText.trim().length} / {MIN_PASTED_TEXT_LENGTH} characters minimum
+                        </p>
+                      </div>
+                      <Button type="submit" className="w-full" disabled={isProcessing || pastedText.trim().length < MIN_PASTED_TEXT_LENGTH}>
+                        <Sparkles className="h-4 w-4" />
+                        Analyze text
+                      </Button>
+                    </form>
+                  </TabsContent>
+                </Tabs>
               </CardContent>
             </Card>
             
             {result && uploadedFile && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="font-display">AI Legal Simulator</CardTitle>
-                  <CardDescription>Ask LexiAI questions like "What happens if I miss a payment?"</CardDescription>
-                </CardHeader>
-                <CardContent className="p-0">
-                  <ChatInterface 
-                    fileData={{
-                        fileAsBase64: uploadedFile.fileAsBase64,
-                        mimeType: uploadedFile.mimeType,
-                        fileName: uploadedFile.fileName
-                    }}
-                    className="h-[600px]" 
-                    initialMessages={[{role: 'assistant', content: `Hello! I'm LexiAI. I have your document "${uploadedFile.fileName}" ready. What would you like to know? You can ask me to explain a clause, simulate a scenario, or clarify legal terms.`}]}
-                  />
-                </CardContent>
+              <Card className="lg:sticky lg:top-20">
+                <Tabs value={sidePanel} onValueChange={(value) => setSidePanel(value as 'document' | 'chat')}>
+                  <CardHeader className="pb-3">
+                    <TabsList className="grid w-full grid-cols-2">
+                      <TabsTrigger value="document">Document</TabsTrigger>
+                      <TabsTrigger value="chat">AI Legal Simulator</TabsTrigger>
+                    </TabsList>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    {/* Both panels stay mounted so switching tabs keeps the chat history and scroll position. */}
+                    <TabsContent value="document" forceMount className="mt-0 data-[state=inactive]:hidden">
+                      <DocumentViewer
+                        storagePath={uploadedFile.storagePath}
+                        mimeType={uploadedFile.mimeType}
+                        pageCount={uploadedFile.pageCount}
+                        highlight={highlight}
+                        className="h-[600px]"
+                      />
+                    </TabsContent>
+                    <TabsContent value="chat" forceMount className="mt-0 data-[state=inactive]:hidden">
+                      <p className="px-4 pb-2 text-sm text-muted-foreground">Ask LexiAI questions like "What happens if I miss a payment?"</p>
+                      <ChatInterface
+                        fileData={{
+                            storagePath: uploadedFile.storagePath,
+                            mimeType: uploadedFile.mimeType,
+                            fileName: uploadedFile.fileName,
+                            pageCount: uploadedFile.pageCount,
+                            historyId: historyId ?? undefined,
+                        }}
+                        className="h-[600px]"
+                        initialMessages={[{role: 'assistant', content: `Hello! I'm LexiAI. I have your document "${uploadedFile.fileName}" ready. What would you like to know? You can ask me to explain a clause, simulate a scenario, or clarify legal terms.`}]}
+                      />
+                    </TabsContent>
+                  </CardContent>
+                </Tabs>
               </Card>
             )}
         </div>
@@ -227,11 +390,80 @@ export default function DocumentVerifierPage() {
             {isProcessing ? (
               <div className="space-y-4 pt-4 text-center">
                 <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
-                <p className="text-sm text-muted-foreground">Analyzing your document... This may take a moment.</p>
+                <p className="text-sm text-muted-foreground">{isUploading ? 'Uploading your document...' : 'Analyzing your document... This may take a moment.'}</p>
+                <div className="flex items-center gap-3 max-w-sm mx-auto">
+                  <Progress value={progress} className="h-2 flex-1" />
+                  <Button variant="outline" size="sm" onClick={handleCancel} disabled={isCancelling || !currentTaskId}>
+                    {isCancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4" />}
+                    Cancel
+                  </Button>
+                </div>
+                {stages.length > 0 && (
+                  <ul className="max-w-sm mx-auto space-y-1 text-left text-sm">
+                    {stages.map((stage) => (
+                      <li key={stage.key} className={cn("flex items-center gap-2", stage.status === 'pending' && "text-muted-foreground", stage.status === 'skipped' && "text-muted-foreground/60 line-through")}>
+                        {stage.status === 'running' ? <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                          : stage.status === 'completed' ? <CheckCircle2 className="h-4 w-4 text-green-500" />
+                          : <Circle className="h-4 w-4" />}
+                        <span className="flex-1">{stage.label}</span>
+                        <span className="text-xs text-muted-foreground tabular-nums">{formatStageDuration(stage)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {task?.status === 'retrying' && (
+                  <p className="text-xs text-amber-500">The AI service is busy. Retrying (attempt {task.attempts + 1} of {task.maxAttempts})...</p>
+                )}
                 <p className="text-xs text-muted-foreground/80">Please keep this window open. You can continue to other parts of the site.</p>
               </div>
             ) : result ? (
               <div className="space-y-6">
+                {cachedAnalysis && uploadedFile && (
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-md border bg-secondary/50 text-sm">
+                    <History className="h-5 w-5 flex-shrink-0 text-primary" />
+                    <p className="flex-1">
+                      You analyzed this exact file before{cachedAnalysis.analyzedAt ? ` on ${new Date(cachedAnalysis.analyzedAt).toLocaleString()}` : ''}, so we're showing that result.
+                    </p>
+                    <Button variant="outline" size="sm" onClick={() => submitAnalysis(uploadedFile, true)}>
+                      <RefreshCw className="h-4 w-4" />
+                      Re-analyze anyway
+                    </Button>
+                  </div>
+                )}
+                {result.ocrPages && (
+                  <div className={cn("p-3 rounded-md border text-sm space-y-2", result.ocrPages.some(p => p.lowConfidence) ? "border-amber-500/50 bg-amber-500/10" : "bg-secondary/50")}>
+                    <p className="flex items-center gap-2 font-semibold"><ScanText className="h-4 w-4" /> Text read from {result.ocrPages.length} scanned {result.ocrPages.length === 1 ? 'page' : 'pages'}</p>
+                    {result.ocrPages.some(p => p.lowConfidence) && (
+                      <p>Some pages were hard to read. Check the analysis of the highlighted pages against your photos, or retake them in better light.</p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      {result.ocrPages.map((page) => (
+                        <Badge key={page.page} variant={page.lowConfidence ? 'destructive' : 'secondary'}>
+                          Page {page.page}: {page.confidence}%
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {result.analysisCoverage?.strategy === 'map-reduce' && (
+                  <div className={cn("p-3 rounded-md border text-sm space-y-1", result.analysisCoverage.chunks.some(c => c.status === 'failed') ? "border-amber-500/50 bg-amber-500/10" : "bg-secondary/50")}>
+                    <p className="flex items-center gap-2 font-semibold"><Layers className="h-4 w-4" /> Long document analyzed in {result.analysisCoverage.chunks.length} parts</p>
+                    {result.analysisCoverage.chunks.filter(c => c.status === 'failed').map((chunk) => (
+                      <p key={chunk.index}>
+                        Part {chunk.index + 1}{chunk.firstPage ? ` (pages ${chunk.firstPage}–${chunk.lastPage})` : chunk.sections.length ? ` (sections ${chunk.sections.join(', ')})` : ''} couldn't be analyzed, so its clauses are missing from the results below.
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {!!result.degradedSections?.length && (
+                  <div className="p-3 rounded-md border border-amber-500/50 bg-amber-500/10 text-sm space-y-1">
+                    <p className="flex items-center gap-2 font-semibold"><AlertTriangle className="h-4 w-4" /> Partial analysis</p>
+                    <p>
+                      The AI couldn't produce a complete answer for {result.degradedSections.map(section => SECTION_LABELS[section] ?? section).join(', ')}.
+                      These sections may be empty or incomplete; re-analyze the document to try again.
+                    </p>
+                  </div>
+                )}
                 <Accordion type="multiple" className="w-full" defaultValue={["summary", "action-prioritizer", "risk-radar", "expenditure-analysis", "lawyer-recommendations"]}>
                   <AccordionItem value="summary">
                      <AccordionIconTrigger icon={<FileJson className="h-5 w-5" />}>Executive Summary</AccordionIconTrigger>
@@ -270,12 +502,13 @@ export default function DocumentVerifierPage() {
                     <AccordionIconTrigger icon={<AlertTriangle className="h-5 w-5" />}>Risk Radar (Top Red Flags)</AccordionIconTrigger>
                     <AccordionContent className="space-y-4 p-1">
                       {result.riskRadar.length > 0 ? result.riskRadar.map((item, index) => (
-                        <div key={index} className="p-4 rounded-md border border-destructive/50 bg-destructive/10">
+                        <div key={index} {...selectableRow("p-4 rounded-md border border-destructive/50 bg-destructive/10", anchors, 'riskRadar', index, LIST_RISK.riskRadar, highlight, selectPassage)}>
                           <h4 className="font-semibold flex items-center gap-2"><AlertTriangle className="h-5 w-5 text-destructive" />Clause: {item.clause}</h4>
+                          {anchors && <AnchorBadge anchor={anchors.riskRadar[index]} />}
                           <p className="mt-2 text-sm">{item.risk}</p>
                           <p className="mt-2 text-sm font-semibold">Suggestion: <span className="font-normal">{item.suggestion}</span></p>
                         </div>
-                      )) : <p className="p-4 text-sm text-muted-foreground">No high-risk items were detected.</p>}
+                      )) : <p className="p-4 text-sm text-muted-foreground">{result.degradedSections?.includes('riskRadar') ? "The risk radar couldn't be generated for this document." : 'No high-risk items were detected.'}</p>}
                     </AccordionContent>
                   </AccordionItem>
                   {result.expenditureAnalysis && (
@@ -316,22 +549,39 @@ export default function DocumentVerifierPage() {
                     <AccordionIconTrigger icon={<Microscope className="h-5 w-5" />}>Hidden Traps</AccordionIconTrigger>
                      <AccordionContent className="space-y-3 p-1">
                         {result.hiddenTraps.map((item, index) => (
-                           <div key={index} className="p-3 rounded-md border bg-card">
+                           <div key={index} {...selectableRow("p-3 rounded-md border bg-card", anchors, 'hiddenTraps', index, LIST_RISK.hiddenTraps, highlight, selectPassage)}>
                              <h4 className="font-semibold text-base">Clause: {item.clause}</h4>
+                             {anchors && <AnchorBadge anchor={anchors.hiddenTraps[index]} />}
                              <p className="mt-1 text-sm text-muted-foreground">{item.trap}</p>
                            </div>
                         ))}
                      </AccordionContent>
+                  </AccordionItem>
+                  <AccordionItem value="time-bombs">
+                    <AccordionIconTrigger icon={<Bomb className="h-5 w-5" />}>Time Bomb Detector</AccordionIconTrigger>
+                    <AccordionContent className="space-y-3 p-1">
+                      {result.timeBombDetector.length > 0 ? result.timeBombDetector.map((item, index) => (
+                        <div key={index} {...selectableRow("p-3 rounded-md border bg-card", anchors, 'timeBombDetector', index, LIST_RISK.timeBombDetector, highlight, selectPassage)}>
+                          <div className="flex justify-between items-start gap-2">
+                            <h4 className="font-semibold text-base">{item.action}</h4>
+                            <Badge variant="secondary" className="flex-shrink-0">{item.deadline}</Badge>
+                          </div>
+                          {anchors && <AnchorBadge anchor={anchors.timeBombDetector[index]} />}
+                          <p className="mt-1 text-sm text-muted-foreground">{item.consequence}</p>
+                        </div>
+                      )) : <p className="p-4 text-sm text-muted-foreground">{result.degradedSections?.includes('timeBombDetector') ? "Deadlines couldn't be extracted from this document." : 'No deadlines, renewals or penalty escalations were found.'}</p>}
+                    </AccordionContent>
                   </AccordionItem>
                    <AccordionItem value="clause-by-clause">
                     <AccordionIconTrigger icon={<Pilcrow className="h-5 w-5" />}>Clause-by-Clause Simplification</AccordionIconTrigger>
                     <AccordionContent className="space-y-4 p-1">
                        {result.clauseByClause.map((item, index) => (
-                        <div key={index} className="p-4 rounded-md border bg-card">
+                        <div key={index} {...selectableRow("p-4 rounded-md border bg-card", anchors, 'clauseByClause', index, item.riskLevel, highlight, selectPassage)}>
                           <div className="flex justify-between items-start gap-2">
                             <h4 className="font-semibold text-base">Clause: {item.clause}</h4>
                             {riskBadge(item.riskLevel)}
                           </div>
+                          {anchors && <AnchorBadge anchor={anchors.clauseByClause[index]} />}
                            <div className="mt-2">
                                 <p className="text-xs text-muted-foreground">Clarity Score</p>
                                 <div className="flex items-center gap-2">
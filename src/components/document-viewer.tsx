@@ -0,0 +1,239 @@
+'use client';
+
+import { ChevronLeft, ChevronRight, FileText, Loader2, LocateFixed } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+
+import { getDocumentText, getDocumentUrl } from '@/app/actions';
+import { useAuth } from '@/hooks/use-auth';
+import { SCANNED_PAGES_MIME_TYPE } from '@/lib/documents';
+import type { CanonicalDocument, ClassificationAnchors, TextAnchor } from '@/lib/anchor-types';
+import { cn } from '@/lib/utils';
+import { Button } from './ui/button';
+import { ScrollArea } from './ui/scroll-area';
+import { Skeleton } from './ui/skeleton';
+
+export type RiskLevel = 'Low' | 'Medium' | 'High';
+
+export const RISK_HIGHLIGHT_CLASSES: Record<RiskLevel, string> = {
+  High: 'bg-red-200 ring-red-500 dark:bg-red-900/60',
+  Medium: 'bg-amber-200 ring-amber-500 dark:bg-amber-900/60',
+  Low: 'bg-green-200 ring-green-500 dark:bg-green-900/60',
+};
+
+// `key` identifies the analysis item, so clicking the same row again scrolls back to it.
+export type DocumentHighlight = {
+  key: string;
+  anchor: TextAnchor;
+  risk: RiskLevel;
+};
+
+// The analysis lists whose rows can be clicked to find their passage.
+export type AnchoredList = 'clauseByClause' | 'riskRadar' | 'hiddenTraps' | 'timeBombDetector';
+
+// Highlight colour for rows without their own risk level. Clause-by-Clause rows use theirs.
+export const LIST_RISK: Record<Exclude<AnchoredList, 'clauseByClause'>, RiskLevel> = {
+  riskRadar: 'High',
+  hiddenTraps: 'Medium',
+  timeBombDetector: 'Medium',
+};
+
+/**
+ * Props for an analysis row that selects its passage in the viewer when clicked (or activated with
+ * the keyboard). Rows whose reference wasn't located keep just `className`.
+ */
+export const selectableRow = (
+  className: string,
+  anchors: ClassificationAnchors | null,
+  list: AnchoredList,
+  index: number,
+  risk: RiskLevel,
+  highlight: DocumentHighlight | null,
+  onSelect: (highlight: DocumentHighlight) => void,
+) => {
+  const anchor = anchors?.[list][index];
+  if (!anchor) return { className };
+  const key = `${list}-${index}`;
+  const select = () => onSelect({ key, anchor, risk });
+  return {
+    role: 'button',
+    tabIndex: 0,
+    'aria-pressed': highlight?.key === key,
+    onClick: select,
+    onKeyDown: (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        select();
+      }
+    },
+    className: cn(className, 'cursor-pointer transition-shadow hover:ring-2 hover:ring-primary/40', highlight?.key === key && 'ring-2 ring-primary'),
+  };
+};
+
+// "Page 3 · §5.2", or just the section for documents without pages.
+export const anchorLocation = (anchor: TextAnchor) =>
+  [anchor.page && `Page ${anchor.page}`, anchor.section && `§${anchor.section}`].filter(Boolean).join(' · ');
+
+// Shown on analysis rows: where the passage is, or that it couldn't be found in the text.
+export const AnchorBadge = ({ anchor }: { anchor: TextAnchor | null | undefined }) => (
+  anchor ? (
+    <span className="inline-flex items-center gap-1 text-xs text-primary">
+      <LocateFixed className="h-3 w-3" />
+      {anchorLocation(anchor) || 'Show in document'}
+    </span>
+  ) : (
+    <span className="text-xs text-muted-foreground/70">Not located in the text</span>
+  )
+);
+
+type DocumentViewerProps = {
+  storagePath: string;
+  mimeType: string;
+  pageCount?: number; // Set for scanned documents
+  highlight: DocumentHighlight | null;
+  className?: string;
+};
+
+/**
+ * Shows the document next to its analysis. The text view renders the canonical text the analysis
+ * anchors point into and highlights the selected passage; PDFs and scans can also be shown as the original.
+ */
+export default function DocumentViewer({ storagePath, mimeType, pageCount, highlight, className }: DocumentViewerProps) {
+  const { user } = useAuth();
+  const [document, setDocument] = useState<CanonicalDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'text' | 'original'>('text');
+  const [originalPage, setOriginalPage] = useState(1);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const markRef = useRef<HTMLElement | null>(null);
+
+  const isScan = mimeType === SCANNED_PAGES_MIME_TYPE;
+  const hasOriginalView = isScan || mimeType === 'application/pdf';
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    setDocument(null);
+    setError(null);
+    user.getIdToken().then(idToken => getDocumentText(idToken, storagePath, mimeType)).then((response) => {
+      if (cancelled) return;
+      if ('error' in response) {
+        setError(response.error);
+      } else {
+        setDocument(response.document);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [user, storagePath, mimeType]);
+
+  // Follow the selected passage in whichever view is showing.
+  useEffect(() => {
+    if (!highlight) return;
+    if (highlight.anchor.page) setOriginalPage(highlight.anchor.page);
+    if (mode === 'text') {
+      markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [highlight, mode, document]);
+
+  // PDFs are one file, so only scans need a new URL per page.
+  const urlPage = isScan ? originalPage : undefined;
+  useEffect(() => {
+    if (!user || mode !== 'original') return;
+    let cancelled = false;
+    setOriginalUrl(null);
+    user.getIdToken().then(idToken => getDocumentUrl(idToken, storagePath, urlPage)).then((response) => {
+      if (!cancelled && 'url' in response) setOriginalUrl(response.url);
+    });
+    return () => { cancelled = true; };
+  }, [user, mode, storagePath, urlPage]);
+
+  const renderPageText = (start: number, end: number) => {
+    const text = document!.text;
+    const span = highlight?.anchor;
+    if (!span || span.end <= start || span.start >= end) {
+      return text.slice(start, end);
+    }
+    const from = Math.max(span.start, start);
+    const to = Math.min(span.end, end);
+    return (
+      <>
+        {text.slice(start, from)}
+        <mark
+          ref={span.start >= start ? (el) => { markRef.current = el; } : undefined}
+          className={cn('rounded-sm px-0.5 ring-1 text-foreground transition-colors', RISK_HIGHLIGHT_CLASSES[highlight.risk])}
+        >
+          {text.slice(from, to)}
+        </mark>
+        {text.slice(to, end)}
+      </>
+    );
+  };
+
+  return (
+    <div className={cn('flex flex-col', className)}>
+      <div className="flex items-center gap-2 border-b px-4 py-2 text-sm">
+        <FileText className="h-4 w-4 text-muted-foreground" />
+        <span className="flex-1 text-muted-foreground">
+          {highlight ? anchorLocation(highlight.anchor) || 'Highlighted passage' : 'Select a clause to find it in the document'}
+        </span>
+        {hasOriginalView && (
+          <div className="flex rounded-md border p-0.5">
+            <Button type="button" size="sm" variant={mode === 'text' ? 'secondary' : 'ghost'} className="h-7" onClick={() => setMode('text')}>Text</Button>
+            <Button type="button" size="sm" variant={mode === 'original' ? 'secondary' : 'ghost'} className="h-7" onClick={() => setMode('original')}>Original</Button>
+          </div>
+        )}
+      </div>
+
+      {mode === 'original' ? (
+        <div className="flex flex-1 flex-col min-h-0">
+          {isScan && pageCount && (
+            <div className="flex items-center justify-center gap-2 border-b py-1 text-sm">
+              <Button type="button" size="icon" variant="ghost" className="h-7 w-7" disabled={originalPage <= 1} onClick={() => setOriginalPage(p => p - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="tabular-nums">Page {originalPage} of {pageCount}</span>
+              <Button type="button" size="icon" variant="ghost" className="h-7 w-7" disabled={originalPage >= pageCount} onClick={() => setOriginalPage(p => p + 1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+          {!originalUrl ? (
+            <div className="flex flex-1 items-center justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : isScan ? (
+            <ScrollArea className="flex-1">
+              {/* eslint-disable-next-line @next/next/no-img-element -- signed Storage URLs can't go through next/image */}
+              <img src={originalUrl} alt={`Page ${originalPage}`} className="w-full" />
+            </ScrollArea>
+          ) : (
+            // Remount on page change: most PDF viewers ignore a fragment change on an already-loaded frame.
+            <iframe key={originalPage} src={`${originalUrl}#page=${originalPage}`} title="Original document" className="flex-1 w-full border-0" />
+          )}
+        </div>
+      ) : (
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="p-4 font-serif text-sm leading-relaxed">
+            {error ? (
+              <p className="text-destructive">{error}</p>
+            ) : !document ? (
+              <div className="space-y-2">
+                {Array.from({ length: 8 }, (_, i) => <Skeleton key={i} className="h-4 w-full" />)}
+              </div>
+            ) : !document.text ? (
+              <p className="text-muted-foreground">No text could be extracted from this document. Switch to the original view to read it.</p>
+            ) : (
+              document.pages.map((page) => (
+                <div key={page.page} className="whitespace-pre-wrap">
+                  {document.paginated && (
+                    <div className={cn('flex items-center gap-2 text-xs text-muted-foreground font-sans', page.page === 1 ? 'mb-4' : 'my-4')}>
+                      <span className="h-px flex-1 bg-border" />Page {page.page}<span className="h-px flex-1 bg-border" />
+                    </div>
+                  )}
+                  {renderPageText(page.start, page.end)}
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { Loader2, FileWarning } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission, type Permission } from '@/lib/auth-types';
+
+// Shows its children only to signed-in users whose role has `permission`. This only hides the UI; the
+// data is protected by the server actions and firestore.rules, not by this check.
+export default function PermissionGate({ permission, children }: { permission: Permission, children: React.ReactNode }) {
+  const { user, role, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-[calc(100vh-4rem)]">
+        <Loader2 className="h-10 w-10 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user || !hasPermission(role, permission)) {
+    return (
+      <main className="container mx-auto px-4 py-8 sm:py-12">
+        <Card className="max-w-xl mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <FileWarning /> Access Denied
+            </CardTitle>
+            <CardDescription>
+              You do not have permission to view this page.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </main>
+    );
+  }
+
+  return <>{children}</>;
+}
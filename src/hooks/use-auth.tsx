@@ -2,8 +2,10 @@
 
 import React, { useState, useEffect, useContext, createContext, ReactNode } from 'react';
 import { getAuth, onAuthStateChanged, signOut as firebaseSignOut, type User, GoogleAuthProvider, signInWithPopup } from 'firebase/auth';
-import { getFirestore, doc, setDoc, getDoc } from 'firebase/firestore';
+import { getFirestore, doc, setDoc, getDoc, onSnapshot, type Timestamp } from 'firebase/firestore';
 import { app } from '@/lib/firebase-config';
+import { completeSignup } from '@/app/actions';
+import { accessFromClaims, type UserRole } from '@/lib/auth-types';
 import { useRouter } from 'next/navigation';
 import { useToast } from './use-toast';
 
@@ -13,6 +15,9 @@ const googleProvider = new GoogleAuthProvider();
 
 type AuthContextType = {
   user: User | null;
+  // From the ID token's custom claims; the role and firm on the user's doc are only copies.
+  role: UserRole;
+  firmId?: string;
   loading: boolean;
   signOut: () => void;
   signInWithGoogle: () => void;
@@ -21,6 +26,7 @@ type AuthContextType = {
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
+  role: 'user',
   loading: true,
   signOut: () => {},
   signInWithGoogle: () => {},
@@ -36,11 +42,10 @@ const updateUserInFirestore = async (user: User) => {
             email: user.email,
             displayName: user.displayName,
             photoURL: user.photoURL,
-            role: 'user', // Default role for new Google sign-in users
             createdAt: new Date(),
         }, { merge: true });
     } else {
-         // User exists, just update their details but preserve the role
+         // User exists, just update their details. The role is only ever set on the server.
          await setDoc(userRef, {
             email: user.email,
             displayName: user.displayName,
@@ -51,6 +56,7 @@ const updateUserInFirestore = async (user: User) => {
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [access, setAccess] = useState<{ role: UserRole, firmId?: string }>({ role: 'user' });
   const [loading, setLoading] = useState(true);
   const router = useRouter();
   const { toast } = useToast();
@@ -59,6 +65,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       if (user) {
         await updateUserInFirestore(user);
+        setAccess(accessFromClaims((await user.getIdTokenResult()).claims));
+      } else {
+        setAccess({ role: 'user' });
       }
       setUser(user);
       setLoading(false);
@@ -66,6 +75,23 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
     return () => unsubscribe();
   }, []);
+
+  // The server sets `claimsUpdatedAt` when it changes the user's role or firm (see src/lib/roles.ts). A
+  // token issued before that still has the old claims, so get a new one.
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = onSnapshot(doc(db, 'users', user.uid), async (snapshot) => {
+      const claimsUpdatedAt = snapshot.data()?.claimsUpdatedAt as Timestamp | undefined;
+      if (!claimsUpdatedAt) return;
+      let token = await user.getIdTokenResult();
+      if (Date.parse(token.issuedAtTime) / 1000 < claimsUpdatedAt.seconds) {
+        token = await user.getIdTokenResult(true);
+      }
+      setAccess(accessFromClaims(token.claims));
+    }, (err) => console.error('Failed to watch for role changes:', err));
+
+    return () => unsubscribe();
+  }, [user]);
   
   const createUserInFirestore = async (user: User, role: 'user' | 'lawyer') => {
     const userRef = doc(db, 'users', user.uid);
@@ -73,9 +99,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         email: user.email,
         displayName: user.displayName,
         photoURL: user.photoURL,
-        role: role,
         createdAt: new Date(),
-    });
+    }, { merge: true });
+    const result = await completeSignup(await user.getIdToken(), role);
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
   };
 
   const signOut = async () => {
@@ -98,7 +127,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, signOut, signInWithGoogle, createUserInFirestore }}>
+    <AuthContext.Provider value={{ user, ...access, loading, signOut, signInWithGoogle, createUserInFirestore }}>
       {children}
     </AuthContext.Provider>
   );
@@ -4,10 +4,12 @@ import { useState, useEffect } from 'react';
 import { doc, onSnapshot, getFirestore } from 'firebase/firestore';
 import { useAuth } from './use-auth';
 import { app } from '@/lib/firebase-config';
+import { isTerminalTaskStatus, type TaskDoc } from '@/lib/task-types';
+import type { TaskType } from '@/lib/tasks';
 
-export const useTask = (taskId: string | null, onUpdate: (task: any) => void) => {
+export const useTask = <T extends TaskType = TaskType>(taskId: string | null, onUpdate: (task: TaskDoc<T>) => void) => {
     const { user } = useAuth();
-    const [task, setTask] = useState<any>(null);
+    const [task, setTask] = useState<TaskDoc<T> | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -26,11 +28,11 @@ export const useTask = (taskId: string | null, onUpdate: (task: any) => void) =>
 
         const unsubscribe = onSnapshot(taskRef, (docSnap) => {
             if (docSnap.exists()) {
-                const taskData = docSnap.data();
+                const taskData = docSnap.data() as TaskDoc<T>;
                 setTask(taskData);
                 onUpdate(taskData);
 
-                if (taskData.status === 'completed' || taskData.status === 'failed') {
+                if (isTerminalTaskStatus(taskData.status)) {
                     setIsLoading(false);
                     unsubscribe(); // Stop listening once the task is finished
                 }
@@ -48,5 +50,5 @@ export const useTask = (taskId: string | null, onUpdate: (task: any) => void) =>
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [taskId, user]);
 
-    return { task, isLoading, error };
+    return { task, stages: task?.stages ?? [], progress: task?.progress ?? 0, isLoading, error };
 };
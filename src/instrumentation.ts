@@ -0,0 +1,10 @@
+// Next.js calls `register` once per server instance at startup.
+// Unless TASK_WORKER_MODE=external (a separate `npm run worker` process is deployed instead),
+// the app runs the task worker in-process so queued tasks are picked up out of the box.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.TASK_WORKER_MODE === 'external') {
+    return;
+  }
+  const { startTaskWorker } = await import('@/lib/task-worker');
+  startTaskWorker();
+}
@@ -0,0 +1,69 @@
+// Types for locating model references in a document's canonical text. Safe to import from both client and server code.
+
+import { z } from 'zod';
+
+// Stored anchors are offsets into the canonical text, so bump this whenever its layout changes.
+export const CANONICAL_TEXT_VERSION = 1;
+
+export type PageSpan = {
+    page: number;   // 1-based
+    start: number;  // Offsets into the canonical text, end exclusive
+    end: number;
+};
+
+// A numbered or headed part of the document, e.g. "5.2 Termination" or "# Payment Terms".
+export type SectionSpan = {
+    number: string | null;  // "5.2", "IV"; null for unnumbered headings
+    heading: string;
+    level: number;          // 1 for "5", 2 for "5.2"; the heading depth for markdown headings
+    start: number;
+    end: number;            // Where the next section of the same or a higher level begins
+};
+
+/**
+ * The text every anchor points into. PDFs keep their page breaks, scans have one page per image,
+ * and formats without pages (plain text, DOCX, HTML...) are a single unpaginated page.
+ */
+export type CanonicalDocument = {
+    version: number;
+    text: string;
+    paginated: boolean;
+    pages: PageSpan[];
+    sections: SectionSpan[];
+};
+
+export const TextAnchorSchema = z.object({
+    start: z.number().int().nonnegative(),
+    end: z.number().int().nonnegative(),
+    page: z.number().int().positive().nullable(), // Null for formats without pages
+    section: z.string().nullable(),                // Number of the innermost numbered section containing the span
+    excerpt: z.string(),
+    // How the reference was matched: a section number, a section heading, the quoted text verbatim, or approximately.
+    method: z.enum(['section', 'heading', 'exact', 'fuzzy']),
+    score: z.number().min(0).max(1),
+});
+export type TextAnchor = z.infer<typeof TextAnchorSchema>;
+
+// Whether a quote the model presented as verbatim was found in the document: word for word, approximately
+// (OCR noise, small misquotes), not at all, or not checked because the document has no extracted text.
+export const SourceCheckSchema = z.enum(['verified', 'approximate', 'unverified', 'unchecked']);
+export type SourceCheck = z.infer<typeof SourceCheckSchema>;
+
+// One entry per item of the matching classification array; null where the reference couldn't be found.
+const AnchorListSchema = z.array(TextAnchorSchema.nullable());
+
+export const ClassificationAnchorsSchema = z.object({
+    version: z.number().int(),
+    clauseByClause: AnchorListSchema,
+    riskRadar: AnchorListSchema,
+    hiddenTraps: AnchorListSchema,
+    jargonBuster: AnchorListSchema,
+    privacyDataUse: AnchorListSchema,
+    negotiationPlaybook: AnchorListSchema,
+    timeBombDetector: AnchorListSchema.default([]),
+});
+export type ClassificationAnchors = z.infer<typeof ClassificationAnchorsSchema>;
+
+// Anchors made against a different canonical text layout would point at the wrong place.
+export const usableAnchors = (anchors: ClassificationAnchors | undefined | null) =>
+    anchors?.version === CANONICAL_TEXT_VERSION ? anchors : null;
@@ -0,0 +1,309 @@
+import {
+    CANONICAL_TEXT_VERSION,
+    type CanonicalDocument,
+    type ClassificationAnchors,
+    type PageSpan,
+    type SectionSpan,
+    type SourceCheck,
+    type TextAnchor,
+} from '@/lib/anchor-types';
+
+/**
+ * Builds canonical text from extracted page texts and links the model's free-text references
+ * ("Clause 5.2", "Termination", a quoted sentence) back to exact spans of it.
+ */
+
+const PAGE_SEPARATOR = '\n\n';
+const MAX_HEADING_LENGTH = 120;
+const MAX_EXCERPT_LENGTH = 200;
+
+// Fuzzy matches need at least this many words, and this share of them in one window of the text.
+const MIN_FUZZY_TOKENS = 4;
+const MIN_FUZZY_SCORE = 0.6;
+const MAX_NEEDLE_TOKENS = 40;
+// Quotes presented as verbatim must share more of their words with the text, so OCR misreadings and
+// small misquotes pass but paraphrases don't.
+const MIN_QUOTE_SCORE = 0.8;
+// Each part of a quote with omissions must end within this many characters of the previous part.
+const MAX_QUOTE_GAP = 2000;
+const ELLIPSIS = /\s*(?:\.{3}|…)\s*/;
+
+const SECTION_KEYWORDS = 'section|clause|article|schedule|part';
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+)$/;
+const KEYWORD_SECTION = new RegExp(`^(?:${SECTION_KEYWORDS})\\s+(\\d{1,3}(?:\\.\\d{1,3})*|[IVXLC]+)\\b[.):]?\\s*(.*)$`, 'i');
+// "5." / "5)" / "5.2" / "5.2." followed by text. A bare "5 days" isn't a section.
+const NUMBERED_SECTION = /^(\d{1,3}(?:\.\d{1,3})+\.?|\d{1,3}[.)])\s+(\S.*)$/;
+
+const parseSectionLine = (line: string): { number: string | null, heading: string, level: number } | null => {
+    const markdown = line.match(MARKDOWN_HEADING);
+    if (markdown) {
+        const numbered = parseSectionLine(markdown[2]);
+        return { number: numbered?.number ?? null, heading: numbered?.heading || markdown[2], level: markdown[1].length };
+    }
+    const keyword = line.match(KEYWORD_SECTION);
+    if (keyword) {
+        const number = keyword[1].toUpperCase();
+        return { number, heading: keyword[2].replace(/^[–—-]\s*/, '') || line, level: number.split('.').length };
+    }
+    const numbered = line.match(NUMBERED_SECTION);
+    if (numbered) {
+        const number = numbered[1].replace(/[.)]$/, '');
+        return { number, heading: numbered[2], level: number.split('.').length };
+    }
+    return null;
+};
+
+const detectSections = (text: string): SectionSpan[] => {
+    const sections: SectionSpan[] = [];
+    let offset = 0;
+    for (const line of text.split('\n')) {
+        const parsed = parseSectionLine(line.trim());
+        if (parsed) {
+            sections.push({ ...parsed, heading: parsed.heading.slice(0, MAX_HEADING_LENGTH), start: offset, end: text.length });
+        }
+        offset += line.length + 1;
+    }
+    // A section runs until the next one at the same or a higher level.
+    sections.forEach((section, i) => {
+        const next = sections.slice(i + 1).find(s => s.level <= section.level);
+        if (next) section.end = next.start;
+    });
+    return sections;
+};
+
+export function buildCanonicalDocument(pageTexts: string[], paginated: boolean): CanonicalDocument {
+    const pages: PageSpan[] = [];
+    let text = '';
+    pageTexts.forEach((raw, index) => {
+        const pageText = raw.replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').trim();
+        if (index > 0) text += PAGE_SEPARATOR;
+        pages.push({ page: index + 1, start: text.length, end: text.length + pageText.length });
+        text += pageText;
+    });
+    return { version: CANONICAL_TEXT_VERSION, text, paginated, pages, sections: detectSections(text) };
+}
+
+// Canonical text as sent to the model, with a `--- Page N ---` marker before each page so it can cite page numbers.
+// Pass a range to render just that part of the document.
+export const renderForModel = (document: CanonicalDocument, range = { start: 0, end: document.text.length }) => document.paginated
+    ? document.pages
+        .filter(p => p.end > range.start && p.start < range.end)
+        .map(p => `--- Page ${p.page} ---\n\n${document.text.slice(Math.max(p.start, range.start), Math.min(p.end, range.end)).trim()}`)
+        .join('\n\n')
+    : document.text.slice(range.start, range.end).trim();
+
+type NormalizedText = {
+    text: string;       // Lowercase letters and digits, single spaces between words
+    offsets: number[];  // Canonical offset of each normalized character
+    tokens: { word: string, start: number, end: number }[]; // Positions in `text`
+};
+
+const normalizedCache = new WeakMap<CanonicalDocument, NormalizedText>();
+
+const normalize = (source: string): NormalizedText => {
+    let text = '';
+    const offsets: number[] = [];
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i].toLowerCase();
+        if (/[\p{L}\p{N}]/u.test(char)) {
+            text += char;
+            offsets.push(i);
+        } else if (text && text[text.length - 1] !== ' ') {
+            text += ' ';
+            offsets.push(i);
+        }
+    }
+    const tokens: NormalizedText['tokens'] = [];
+    for (const match of text.matchAll(/\S+/g)) {
+        tokens.push({ word: match[0], start: match.index!, end: match.index! + match[0].length });
+    }
+    return { text, offsets, tokens };
+};
+
+const normalizedDocument = (document: CanonicalDocument) => {
+    let normalized = normalizedCache.get(document);
+    if (!normalized) {
+        normalized = normalize(document.text);
+        normalizedCache.set(document, normalized);
+    }
+    return normalized;
+};
+
+export const toAnchor = (document: CanonicalDocument, start: number, end: number, method: TextAnchor['method'], score: number): TextAnchor => {
+    const page = document.paginated ? document.pages.find(p => start >= p.start && start <= p.end)?.page ?? null : null;
+    const section = document.sections
+        .filter(s => s.number && start >= s.start && start < s.end)
+        .sort((a, b) => b.level - a.level)[0];
+    const excerpt = document.text.slice(start, Math.min(end, start + MAX_EXCERPT_LENGTH)).trim();
+    return { start, end, page, section: section?.number ?? null, excerpt, method, score: Math.round(score * 100) / 100 };
+};
+
+// Finds `needle` as whole words in the document, ignoring case, punctuation and spacing (method 'exact'),
+// or failing that the window of words that shares the most words with it (method 'fuzzy').
+// Pass a range to only accept matches inside that part of the document.
+export const findText = (document: CanonicalDocument, needle: string, minScore = MIN_FUZZY_SCORE, range = { start: 0, end: document.text.length }): TextAnchor | null => {
+    const haystack = normalizedDocument(document);
+    const query = normalize(needle);
+    if (query.text.trim().length < 6) return null;
+    const from = haystack.offsets.findIndex(offset => offset >= range.start);
+    if (from < 0) return null;
+
+    // Only whole words count, so "rent is due" doesn't match inside "current is due".
+    const target = query.text.trim();
+    const isWordBoundary = (index: number) => index < 0 || index >= haystack.text.length || haystack.text[index] === ' ';
+    for (let exact = haystack.text.indexOf(target, from); exact >= 0; exact = haystack.text.indexOf(target, exact + 1)) {
+        const last = exact + target.length - 1;
+        if (haystack.offsets[last] >= range.end) break;
+        if (isWordBoundary(exact - 1) && isWordBoundary(exact + target.length)) {
+            return toAnchor(document, haystack.offsets[exact], haystack.offsets[last] + 1, 'exact', 1);
+        }
+    }
+
+    const words = query.tokens.slice(0, MAX_NEEDLE_TOKENS).map(t => t.word);
+    const tokens = haystack.tokens.filter(t => t.start >= from && haystack.offsets[t.end - 1] < range.end);
+    if (words.length < MIN_FUZZY_TOKENS || tokens.length < words.length) return null;
+
+    const wanted = new Map<string, number>();
+    for (const word of words) wanted.set(word, (wanted.get(word) ?? 0) + 1);
+    const inWindow = new Map<string, number>();
+    let matched = 0;
+    let best = { score: 0, index: -1 };
+
+    // Slide a window of the needle's length over the document, tracking how many needle words it contains.
+    for (let i = 0; i < tokens.length; i++) {
+        const added = tokens[i].word;
+        const addedCount = inWindow.get(added) ?? 0;
+        if (addedCount < (wanted.get(added) ?? 0)) matched++;
+        inWindow.set(added, addedCount + 1);
+
+        if (i >= words.length) {
+            const removed = tokens[i - words.length].word;
+            const removedCount = inWindow.get(removed)! - 1;
+            inWindow.set(removed, removedCount);
+            if (removedCount < (wanted.get(removed) ?? 0)) matched--;
+        }
+        if (i >= words.length - 1 && matched / words.length > best.score) {
+            best = { score: matched / words.length, index: i - words.length + 1 };
+        }
+    }
+    if (best.score < minScore) return null;
+
+    const first = tokens[best.index];
+    const last = tokens[best.index + words.length - 1];
+    return toAnchor(document, haystack.offsets[first.start], haystack.offsets[last.end - 1] + 1, 'fuzzy', best.score);
+};
+
+const SECTION_REFERENCE = new RegExp(`(?:\\b(?:${SECTION_KEYWORDS}|para(?:graph)?)\\s*|§\\s*)(\\d{1,3}(?:\\.\\d{1,3})*|[IVXLC]+\\b)`, 'i');
+const LEADING_SECTION_NUMBER = /^\s*(\d{1,3}(?:\.\d{1,3})*)(?=[\s.:)\-–—]|$)/;
+const QUOTED_TEXT = /["“]([^"”]{12,})["”]/;
+// "Page 3, Clause 5.2 —" and similar labels in front of the descriptive part of a reference.
+const REFERENCE_LABEL = new RegExp(`^\\s*(?:(?:page|p\\.)\\s*\\d+\\s*[,;:–—-]?\\s*)?(?:(?:${SECTION_KEYWORDS}|para(?:graph)?|§)\\s*[\\dIVXLC.]+[a-z]?|\\d{1,3}(?:\\.\\d{1,3})*)?\\s*[,;:()–—-]*\\s*`, 'i');
+
+/**
+ * Resolves a reference from the model's output to a span of the canonical text. Tries, in order:
+ * text quoted in the reference, a section number, a section heading, then the reference text itself.
+ * Returns null when nothing matches well enough.
+ */
+export function resolveReference(document: CanonicalDocument, reference: string): TextAnchor | null {
+    if (!reference.trim() || !document.text) return null;
+
+    const quoted = reference.match(QUOTED_TEXT);
+    if (quoted) {
+        const found = findText(document, quoted[1]);
+        if (found) return found;
+    }
+
+    const number = (reference.match(SECTION_REFERENCE)?.[1] ?? reference.match(LEADING_SECTION_NUMBER)?.[1])?.toUpperCase();
+    if (number) {
+        const section = document.sections.find(s => s.number === number);
+        if (section) return toAnchor(document, section.start, section.end, 'section', 1);
+    }
+
+    const label = reference.replace(REFERENCE_LABEL, '').replace(/[()]/g, ' ').trim();
+    const normalizedLabel = normalize(label).text.trim();
+    if (normalizedLabel.length >= 4) {
+        const heading = document.sections.find(s => normalize(s.heading).text.trim() === normalizedLabel)
+            ?? document.sections.find(s => normalize(s.heading).text.includes(normalizedLabel));
+        if (heading) return toAnchor(document, heading.start, heading.end, 'heading', 1);
+    }
+
+    return findText(document, label || reference);
+}
+
+/**
+ * Checks that a quote the model presented as verbatim is in the document, allowing for differences in
+ * case, punctuation, spacing and OCR misreadings. A quote with omissions ("the tenant ... shall pay") is
+ * checked part by part: each part must follow the previous one, within MAX_QUOTE_GAP characters of it.
+ * Returns the span the quote covers, or null if any part of it isn't there.
+ */
+export function verifyQuote(document: CanonicalDocument, quote: string): TextAnchor | null {
+    const parts = quote.split(ELLIPSIS).filter(part => normalize(part).text.trim().length >= 6);
+    if (!parts.length || !document.text) return null;
+
+    const followedByRest = (first: TextAnchor): TextAnchor[] | null => {
+        const anchors = [first];
+        for (const part of parts.slice(1)) {
+            const previous = anchors[anchors.length - 1];
+            const anchor = findText(document, part, MIN_QUOTE_SCORE, { start: previous.end, end: previous.end + MAX_QUOTE_GAP });
+            if (!anchor) return null;
+            anchors.push(anchor);
+        }
+        return anchors;
+    };
+
+    for (let start = 0; ;) {
+        const first = findText(document, parts[0], MIN_QUOTE_SCORE, { start, end: document.text.length });
+        if (!first) return null;
+        const anchors = followedByRest(first);
+        if (anchors) {
+            const approximate = anchors.some(anchor => anchor.method === 'fuzzy');
+            return anchors.length === 1 ? first : toAnchor(
+                document,
+                first.start,
+                anchors[anchors.length - 1].end,
+                approximate ? 'fuzzy' : 'exact',
+                Math.min(...anchors.map(a => a.score)),
+            );
+        }
+        // The first part may appear more than once; try the rest after each later exact occurrence. A fuzzy
+        // match is already the best window in the remaining text, so there is nothing else to try.
+        if (first.method !== 'exact') return null;
+        start = first.start + 1;
+    }
+}
+
+// Checks each of a Q&A answer's sources, returning where each was found and how well it matched.
+// Nothing can be checked against a document without extracted text, such as a PDF with no text layer.
+export function checkSources(document: CanonicalDocument, sources: string[]): { anchors: (TextAnchor | null)[], checks: SourceCheck[] } {
+    const anchors = sources.map(source => verifyQuote(document, source));
+    const checks = anchors.map((anchor): SourceCheck => !document.text ? 'unchecked'
+        : !anchor ? 'unverified'
+        : anchor.method === 'exact' ? 'verified' : 'approximate');
+    return { anchors, checks };
+}
+
+type ClauseReferences = { clause: string };
+
+export function anchorClassification(document: CanonicalDocument, result: {
+    clauseByClause: ClauseReferences[];
+    riskRadar: ClauseReferences[];
+    hiddenTraps: ClauseReferences[];
+    jargonBuster: (ClauseReferences & { term: string })[];
+    privacyDataUse: ClauseReferences[];
+    negotiationPlaybook: ClauseReferences[];
+    timeBombDetector: { action: string, deadline: string }[];
+}): ClassificationAnchors {
+    const resolveAll = (items: ClauseReferences[]) => items.map(item => resolveReference(document, item.clause));
+    return {
+        version: document.version,
+        clauseByClause: resolveAll(result.clauseByClause),
+        riskRadar: resolveAll(result.riskRadar),
+        hiddenTraps: resolveAll(result.hiddenTraps),
+        // Fall back to the first use of the term when its clause reference doesn't resolve.
+        jargonBuster: result.jargonBuster.map(item => resolveReference(document, item.clause) ?? findText(document, item.term)),
+        privacyDataUse: resolveAll(result.privacyDataUse),
+        negotiationPlaybook: resolveAll(result.negotiationPlaybook),
+        // Deadlines carry no clause reference, so look for the described action, then the deadline wording.
+        timeBombDetector: result.timeBombDetector.map(item => resolveReference(document, item.action) ?? findText(document, item.deadline)),
+    };
+}
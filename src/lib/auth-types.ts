@@ -0,0 +1,64 @@
+// Roles, permissions and the verified caller of a server action. Safe to import from both client and server code.
+
+export const USER_ROLES = ['user', 'lawyer', 'paralegal', 'firmAdmin', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const PERMISSIONS = [
+    'caseLog.read', // Read the case logs of lawyers in scope
+    'caseLog.write', // Open case logs and add entries for lawyers in scope
+    'lawyerProfile.edit', // Edit one's own lawyer profile, including fees
+    'lawyer.list', // See the lawyers in scope and open their dashboards
+    'lawyer.manage', // Add and remove lawyers in scope
+    'user.manage', // Create users and set their roles, firms and quotas
+    'usage.read', // See model usage and cost
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+/**
+ * Which accounts a role's permissions reach: only the user's own, everyone in the same firm, or everyone.
+ * A lawyer in a firm still only works on their own case logs.
+ */
+export type RoleScope = 'own' | 'firm' | 'all';
+
+// Mirrored in firestore.rules, which can't import this; change both together.
+export const ROLE_DEFINITIONS: Record<UserRole, { label: string, scope: RoleScope, permissions: readonly Permission[] }> = {
+    user: { label: 'User', scope: 'own', permissions: [] },
+    lawyer: { label: 'Lawyer', scope: 'own', permissions: ['caseLog.read', 'caseLog.write', 'lawyerProfile.edit'] },
+    paralegal: { label: 'Paralegal', scope: 'firm', permissions: ['caseLog.read', 'caseLog.write', 'lawyer.list'] },
+    firmAdmin: { label: 'Firm Admin', scope: 'firm', permissions: ['caseLog.read', 'lawyer.list', 'lawyer.manage'] },
+    admin: { label: 'Admin', scope: 'all', permissions: ['caseLog.read', 'lawyer.list', 'lawyer.manage', 'user.manage', 'usage.read'] },
+};
+
+// Firm roles only make sense as part of a firm, so they can't be assigned without one.
+export const roleNeedsFirm = (role: UserRole) => ROLE_DEFINITIONS[role].scope === 'firm';
+
+export const hasPermission = (role: UserRole, permission: Permission) =>
+    ROLE_DEFINITIONS[role].permissions.includes(permission);
+
+export type Access = {
+    uid: string;
+    role: UserRole;
+    firmId?: string;
+};
+
+export type Caller = Access & {
+    email?: string;
+};
+
+// Whether `actor`'s permissions reach `target`'s account, by the scope of the actor's role.
+export const isInScope = (actor: Access, target: { uid: string, firmId?: string | null }) => {
+    switch (ROLE_DEFINITIONS[actor.role].scope) {
+        case 'all':
+            return true;
+        case 'firm':
+            return !!actor.firmId && actor.firmId === target.firmId;
+        case 'own':
+            return actor.uid === target.uid;
+    }
+};
+
+// The role and firm custom claims of an ID token. Accounts without a role are regular users.
+export const accessFromClaims = (claims: { [key: string]: unknown }): Omit<Access, 'uid'> => ({
+    role: USER_ROLES.includes(claims.role as UserRole) ? claims.role as UserRole : 'user',
+    ...(typeof claims.firmId === 'string' && claims.firmId && { firmId: claims.firmId }),
+});
@@ -0,0 +1,44 @@
+import type { Timestamp } from 'firebase-admin/firestore';
+import { auth, db } from '@/lib/firebase-admin';
+import { accessFromClaims, hasPermission, type Caller, type Permission } from '@/lib/auth-types';
+
+/**
+ * Identity checks for server actions. A server action can be called with any arguments, so none of
+ * them take the user they act for. Instead each takes the caller's Firebase ID token (from
+ * `user.getIdToken()` on the client) and starts by passing it to `authorize` with the permission it
+ * needs. The uid everything is done for comes from the verified token, and the role and firm from its
+ * custom claims (see src/lib/roles.ts). Actions on someone else's account also check that it's in the
+ * caller's scope with `isInScope`.
+ */
+
+/**
+ * Verifies an ID token and returns who it belongs to, or the error for the action to return if the token
+ * isn't valid or the caller's role doesn't have `permission`. Without one, any signed-in user may call.
+ */
+export async function authorize(idToken: string, permission?: Permission): Promise<Caller | { error: string }> {
+    if (!idToken) {
+        return { error: 'You must be signed in to do this.' };
+    }
+
+    let decoded;
+    try {
+        // Checking for revocation also rejects the tokens of disabled accounts.
+        decoded = await auth.verifyIdToken(idToken, true);
+    } catch (e: any) {
+        console.warn('Rejected an invalid ID token:', e.code ?? e.message);
+        return { error: 'Your session has expired. Please sign in again.' };
+    }
+
+    // Token times are in whole seconds, so one refreshed in the same second as the change is accepted.
+    const claimsUpdatedAt = (await db.collection('users').doc(decoded.uid).get()).data()?.claimsUpdatedAt as Timestamp | undefined;
+    if (claimsUpdatedAt && decoded.iat < claimsUpdatedAt.seconds) {
+        return { error: 'Your permissions have changed. Please try again.' };
+    }
+
+    const access = accessFromClaims(decoded);
+    if (permission && !hasPermission(access.role, permission)) {
+        console.warn(`Denied ${decoded.uid} (${access.role}) an action needing ${permission}.`);
+        return { error: 'You do not have permission to do this.' };
+    }
+    return { uid: decoded.uid, ...(decoded.email && { email: decoded.email }), ...access };
+}
@@ -0,0 +1,82 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { summarizeConversation } from '@/ai/flows/summarize-conversation';
+import type { AskDocumentQuestionOutput, ConversationTurn } from '@/ai/schemas/ask-document-question';
+import { db } from '@/lib/firebase-admin';
+
+/**
+ * The Q&A conversation about an analyzed document, stored under its history item so it survives
+ * reloads. Each answered question is one exchange, at `users/{uid}/history/{historyId}/conversation/{taskId}`,
+ * keyed by the task so a retried task overwrites rather than duplicates it.
+ *
+ * Questions are sent with the summary and the exchanges it doesn't cover yet. Once more than twice
+ * `CHAT_RECENT_EXCHANGES` aren't covered, all but the last `CHAT_RECENT_EXCHANGES` are folded into the
+ * summary, which is kept as `conversationSummary` on the history doc.
+ */
+
+const RECENT_EXCHANGES = Number(process.env.CHAT_RECENT_EXCHANGES ?? 3);
+
+const ConversationSummarySchema = z.object({
+    text: z.string(),
+    exchangeCount: z.number().int().nonnegative(), // How many of the oldest exchanges the summary covers
+});
+
+export type ConversationContext = {
+    conversationSummary?: string;
+    history: ConversationTurn[];
+};
+
+const historyRef = (userId: string, historyId: string) => db.collection('users').doc(userId).collection('history').doc(historyId);
+
+// Only the plain-English answer is carried forward; the rest of it repeats the document.
+const toTurns = (exchange: { question: string, answer: AskDocumentQuestionOutput }): ConversationTurn[] => [
+    { role: 'user', content: exchange.question },
+    { role: 'assistant', content: exchange.answer.plainEnglish },
+];
+
+/**
+ * The conversation so far, for the next question about a history item, summarizing older exchanges first
+ * if there are enough of them. A failed summary isn't fatal: the question is asked with the previous one.
+ * Throws if the history item isn't an analysis of the document at `storagePath`.
+ */
+export async function loadConversationContext(userId: string, historyId: string, storagePath: string): Promise<ConversationContext> {
+    const history = historyRef(userId, historyId);
+    const [historySnap, exchangesSnap] = await Promise.all([
+        history.get(),
+        history.collection('conversation').orderBy('createdAt').get(),
+    ]);
+    if (historySnap.data()?.storagePath !== storagePath) {
+        throw new Error('The analysis this question refers to is not of this document.');
+    }
+    const exchanges = exchangesSnap.docs.map(doc => doc.data() as { question: string, answer: AskDocumentQuestionOutput });
+    const stored = ConversationSummarySchema.safeParse(historySnap.data()?.conversationSummary);
+    let summary = stored.success && stored.data.exchangeCount <= exchanges.length ? stored.data : null;
+
+    const unsummarized = exchanges.length - (summary?.exchangeCount ?? 0);
+    if (unsummarized > 2 * RECENT_EXCHANGES) {
+        const exchangeCount = exchanges.length - RECENT_EXCHANGES;
+        const response = await summarizeConversation({
+            previousSummary: summary?.text,
+            turns: exchanges.slice(summary?.exchangeCount ?? 0, exchangeCount).flatMap(toTurns),
+        });
+        if ('error' in response) {
+            console.error('Failed to summarize the conversation:', response.error);
+        } else {
+            summary = { text: response.summary, exchangeCount };
+            await history.update({ conversationSummary: summary });
+        }
+    }
+
+    return {
+        ...(summary && { conversationSummary: summary.text }),
+        history: exchanges.slice(summary?.exchangeCount ?? 0).flatMap(toTurns),
+    };
+}
+
+export async function saveConversationExchange(userId: string, historyId: string, taskId: string, question: string, answer: AskDocumentQuestionOutput) {
+    await historyRef(userId, historyId).collection('conversation').doc(taskId).set({
+        question,
+        answer,
+        createdAt: FieldValue.serverTimestamp(),
+    });
+}
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import type { ClassifyDocumentChunkResult } from '@/ai/schemas/classify-document';
+import type { CanonicalDocument } from '@/lib/anchor-types';
+
+/**
+ * The model-free half of long-document analysis (src/lib/long-documents.ts): splitting the canonical
+ * text into chunks, describing what each chunk covers, and merging the clause-level results back together.
+ */
+
+// Documents with more canonical text than this are analyzed in chunks of at most ANALYSIS_CHUNK_CHARS.
+export const LONG_DOCUMENT_CHARS = Number(process.env.LONG_DOCUMENT_CHARS ?? 60_000);
+const CHUNK_CHARS = Number(process.env.ANALYSIS_CHUNK_CHARS ?? 30_000);
+const MAX_COVERAGE_SECTIONS = 20;
+
+export const ChunkCoverageSchema = z.object({
+    index: z.number(),
+    start: z.number(),
+    end: z.number(),
+    firstPage: z.number().nullable(),
+    lastPage: z.number().nullable(),
+    // Numbers (or headings) of the top-level sections that start in this chunk.
+    sections: z.array(z.string()),
+    status: z.enum(['analyzed', 'failed']),
+    error: z.string().optional(),
+    // Sections of this chunk's analysis that the model couldn't produce and were left empty.
+    degradedSections: z.array(z.string()).optional(),
+});
+export type ChunkCoverage = z.infer<typeof ChunkCoverageSchema>;
+
+export const AnalysisCoverageSchema = z.object({
+    strategy: z.enum(['single', 'map-reduce']),
+    chunks: z.array(ChunkCoverageSchema),
+});
+export type AnalysisCoverage = z.infer<typeof AnalysisCoverageSchema>;
+
+export type DocumentChunk = Omit<ChunkCoverage, 'status' | 'error' | 'degradedSections'>;
+
+export const isLongDocument = (document: CanonicalDocument) => document.text.length > LONG_DOCUMENT_CHARS;
+
+const describeChunk = (document: CanonicalDocument, index: number, start: number, end: number): DocumentChunk => {
+    const pages = document.paginated ? document.pages.filter(p => p.end > start && p.start < end) : [];
+    const topLevel = Math.min(...document.sections.map(s => s.level));
+    const sections = document.sections
+        .filter(s => s.level === topLevel && s.start >= start && s.start < end)
+        .map(s => s.number ?? s.heading)
+        .slice(0, MAX_COVERAGE_SECTIONS);
+    return {
+        index,
+        start,
+        end,
+        firstPage: pages[0]?.page ?? null,
+        lastPage: pages[pages.length - 1]?.page ?? null,
+        sections,
+    };
+};
+
+/**
+ * Splits the canonical text into chunks of at most `maxChars`. Each chunk ends at the last top-level
+ * section that keeps it at least half full, failing that at a page break, then a paragraph break, and
+ * only as a last resort mid-paragraph.
+ */
+export function chunkDocument(document: CanonicalDocument, maxChars = CHUNK_CHARS): DocumentChunk[] {
+    const { text } = document;
+    const topLevel = Math.min(...document.sections.map(s => s.level));
+    const sectionBreaks = document.sections.filter(s => s.level === topLevel).map(s => s.start);
+    const pageBreaks = document.pages.map(p => p.start);
+
+    const lastBreakIn = (breaks: number[], from: number, to: number) => {
+        let found = -1;
+        for (const position of breaks) {
+            if (position > to) break;
+            if (position > from) found = position;
+        }
+        return found;
+    };
+
+    const chunks: DocumentChunk[] = [];
+    let start = 0;
+    while (start < text.length) {
+        let end = text.length;
+        if (text.length - start > maxChars) {
+            const limit = start + maxChars;
+            end = lastBreakIn(sectionBreaks, start + maxChars / 2, limit);
+            if (end < 0) end = lastBreakIn(pageBreaks, start + maxChars / 2, limit);
+            if (end < 0) {
+                const paragraph = text.lastIndexOf('\n\n', limit);
+                const space = text.lastIndexOf(' ', limit);
+                end = paragraph > start + maxChars / 4 ? paragraph : space > start ? space : limit;
+            }
+        }
+        chunks.push(describeChunk(document, chunks.length, start, end));
+        // Skip the whitespace between chunks so the next one starts on text.
+        start = end;
+        while (start < text.length && /\s/.test(text[start])) start++;
+    }
+    return chunks;
+}
+
+// Coverage for a document analyzed in one prompt: a single chunk spanning all of it.
+export const singlePassCoverage = (document: CanonicalDocument): AnalysisCoverage => ({
+    strategy: 'single',
+    chunks: [{ ...describeChunk(document, 0, 0, document.text.length), status: 'analyzed' }],
+});
+
+export type ChunkAnalysis = {
+    coverage: ChunkCoverage;
+    result: ClassifyDocumentChunkResult | null;
+};
+
+// Keeps the first item for each key, e.g. the first part's explanation of a glossary term.
+const firstByKey = <T>(items: T[], key: (item: T) => string) => {
+    const seen = new Set<string>();
+    return items.filter((item) => {
+        const k = key(item).trim().toLowerCase().replace(/\s+/g, ' ');
+        if (seen.has(k)) return false;
+        seen.add(k);
+        return true;
+    });
+};
+
+/**
+ * Concatenates the clause-level lists of the analyzed chunks in document order. A clause that two parts
+ * both analyzed under the same reference (a section split across chunks, say) and a glossary term they
+ * both explain are kept once, from the earlier part. The other lists may hold several entries per clause,
+ * so they are kept whole.
+ */
+export function mergeChunkResults(analyses: ChunkAnalysis[]) {
+    const results = analyses.flatMap(a => a.result ? [a.result] : []);
+
+    return {
+        clauseByClause: firstByKey(results.flatMap(r => r.clauseByClause), item => item.clause),
+        hiddenTraps: results.flatMap(r => r.hiddenTraps),
+        jargonBuster: firstByKey(results.flatMap(r => r.jargonBuster), item => item.term),
+        timeBombDetector: results.flatMap(r => r.timeBombDetector),
+        privacyDataUse: results.flatMap(r => r.privacyDataUse),
+        negotiationPlaybook: results.flatMap(r => r.negotiationPlaybook),
+    };
+}
@@ -0,0 +1,42 @@
+// Converters reduce every format to this small block model, which is then rendered as plain text
+// with markdown-style headings and list markers so section structure and numbering survive.
+
+export type TextBlock =
+    | { kind: 'heading'; level: number; text: string }
+    | { kind: 'paragraph'; text: string }
+    | { kind: 'list-item'; depth: number; marker: string; text: string };
+
+// Collapses runs of spaces and tabs but keeps explicit line breaks (<br>, \line, text:line-break).
+export const normalizeInline = (text: string) =>
+    text
+        .replace(/\u00a0/g, ' ')
+        .split('\n')
+        .map(line => line.replace(/[ \t\f\v\r]+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+
+export function renderBlocks(blocks: TextBlock[]): string {
+    let output = '';
+    let previous: TextBlock | undefined;
+
+    for (const block of blocks) {
+        const text = normalizeInline(block.text);
+        if (!text) continue;
+
+        let rendered: string;
+        if (block.kind === 'heading') {
+            rendered = `${'#'.repeat(Math.min(Math.max(block.level, 1), 6))} ${text.replace(/\n/g, ' ')}`;
+        } else if (block.kind === 'list-item') {
+            const indent = '  '.repeat(block.depth);
+            rendered = `${indent}${block.marker} ${text.replace(/\n/g, `\n${indent}  `)}`;
+        } else {
+            rendered = text;
+        }
+
+        // Consecutive list items stay on adjacent lines; everything else is separated by a blank line.
+        const separator = !previous ? '' : (previous.kind === 'list-item' && block.kind === 'list-item' ? '\n' : '\n\n');
+        output += separator + rendered;
+        previous = block;
+    }
+    return output;
+}
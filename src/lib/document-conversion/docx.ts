@@ -0,0 +1,10 @@
+import mammoth from 'mammoth';
+import { htmlToBlocks } from './html';
+import type { TextBlock } from './blocks';
+
+// mammoth maps Word's built-in Heading styles to <h1>-<h6> and numbered paragraphs to <ol>,
+// so the HTML path keeps both the outline and the numbering.
+export async function docxToBlocks(bytes: Buffer): Promise<TextBlock[]> {
+    const { value: html } = await mammoth.convertToHtml({ buffer: bytes });
+    return htmlToBlocks(html);
+}
@@ -0,0 +1,110 @@
+import { Parser } from 'htmlparser2';
+import type { TextBlock } from './blocks';
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'object']);
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'main', 'aside', 'header', 'footer', 'blockquote', 'pre', 'dt', 'dd', 'figcaption', 'caption', 'address']);
+const HEADING_TAG = /^h([1-6])$/;
+// HTML whitespace, which renders as one space outside <pre>. Unlike \s, it doesn't include non-breaking spaces.
+const HTML_WHITESPACE = /[ \t\n\r\f]+/g;
+
+type ListState = { ordered: boolean; counter: number };
+
+// Parses HTML (saved web pages, or DOCX converted by mammoth) into blocks.
+export function htmlToBlocks(html: string): TextBlock[] {
+    const blocks: TextBlock[] = [];
+    const lists: ListState[] = [];
+    let buffer = '';
+    let skipDepth = 0;
+    let preDepth = 0;
+    let headingLevel: number | null = null;
+    let pendingMarker: string | null = null;
+    let row: string[] | null = null;
+
+    const flush = () => {
+        const text = buffer;
+        buffer = '';
+        if (!text.trim()) return;
+
+        if (row) {
+            row.push(text);
+        } else if (headingLevel !== null) {
+            blocks.push({ kind: 'heading', level: headingLevel, text });
+        } else if (pendingMarker !== null) {
+            blocks.push({ kind: 'list-item', depth: Math.max(lists.length - 1, 0), marker: pendingMarker, text });
+            pendingMarker = null;
+        } else if (lists.length) {
+            // Extra paragraphs inside a list item stay indented under it.
+            blocks.push({ kind: 'list-item', depth: lists.length - 1, marker: ' ', text });
+        } else {
+            blocks.push({ kind: 'paragraph', text });
+        }
+    };
+
+    const parser = new Parser({
+        onopentag(name, attributes) {
+            if (SKIPPED_TAGS.has(name) || skipDepth) {
+                skipDepth++;
+                return;
+            }
+            const heading = HEADING_TAG.exec(name);
+            if (heading) {
+                flush();
+                headingLevel = Number(heading[1]);
+            } else if (name === 'ol' || name === 'ul') {
+                flush();
+                const start = Number(attributes.start);
+                lists.push({ ordered: name === 'ol', counter: Number.isFinite(start) ? start - 1 : 0 });
+            } else if (name === 'li') {
+                flush();
+                const list = lists[lists.length - 1];
+                pendingMarker = list?.ordered ? `${++list.counter}.` : '-';
+            } else if (name === 'tr') {
+                flush();
+                row = [];
+            } else if (name === 'td' || name === 'th') {
+                flush();
+            } else if (name === 'br') {
+                buffer += '\n';
+            } else if (BLOCK_TAGS.has(name)) {
+                flush();
+            }
+            if (name === 'pre') preDepth++;
+        },
+        ontext(text) {
+            if (skipDepth) return;
+            // Line breaks in the source are just wrapping; only <br> and block boundaries break lines.
+            buffer += preDepth ? text : text.replace(HTML_WHITESPACE, ' ');
+        },
+        onclosetag(name) {
+            if (skipDepth) {
+                skipDepth--;
+                return;
+            }
+            if (name === 'pre') preDepth = Math.max(preDepth - 1, 0);
+            if (HEADING_TAG.test(name)) {
+                flush();
+                headingLevel = null;
+            } else if (name === 'ol' || name === 'ul') {
+                flush();
+                lists.pop();
+            } else if (name === 'li') {
+                flush();
+                pendingMarker = null;
+            } else if (name === 'td' || name === 'th') {
+                flush();
+            } else if (name === 'tr') {
+                flush();
+                const cells = (row ?? []).map(cell => cell.trim()).filter(Boolean);
+                row = null;
+                if (cells.length) blocks.push({ kind: 'paragraph', text: cells.join(' | ') });
+            } else if (BLOCK_TAGS.has(name)) {
+                flush();
+            }
+        },
+    }, { decodeEntities: true, lowerCaseTags: true });
+
+    parser.write(html);
+    parser.end();
+    flush();
+    return blocks;
+}
@@ -0,0 +1,37 @@
+import { renderBlocks, type TextBlock } from './blocks';
+import { docxToBlocks } from './docx';
+import { htmlToBlocks } from './html';
+import { odtToBlocks } from './odt';
+import { rtfToBlocks } from './rtf';
+
+/**
+ * Server-side conversion of word-processor and web formats into normalized plain text.
+ * PDF and plain text are sent to the model as they are; everything listed here is converted first,
+ * with headings rendered as `#` lines and list numbering kept.
+ */
+const CONVERTERS: Record<string, (bytes: Buffer) => Promise<TextBlock[]> | TextBlock[]> = {
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': docxToBlocks,
+    'application/vnd.oasis.opendocument.text': odtToBlocks,
+    // RTF is 7-bit with escapes for everything else, so latin1 keeps every byte as-is for the parser.
+    'application/rtf': (bytes) => rtfToBlocks(bytes.toString('latin1')),
+    'text/rtf': (bytes) => rtfToBlocks(bytes.toString('latin1')),
+    'text/html': (bytes) => htmlToBlocks(bytes.toString('utf-8')),
+    'application/xhtml+xml': (bytes) => htmlToBlocks(bytes.toString('utf-8')),
+};
+
+export const needsConversion = (mimeType: string) => mimeType in CONVERTERS;
+
+export async function convertToText(bytes: Buffer, mimeType: string): Promise<string> {
+    const converter = CONVERTERS[mimeType];
+    if (!converter) {
+        throw new Error(`No converter for '${mimeType}'.`);
+    }
+    const text = renderBlocks(await converter(bytes));
+    if (!text.trim()) {
+        throw new Error('No text could be extracted from the document.');
+    }
+    return text;
+}
+
+// Wraps extracted text in the inline-file shape the flows take.
+export const textDocument = (text: string) => ({ fileAsBase64: Buffer.from(text, 'utf-8').toString('base64'), mimeType: 'text/plain' });
@@ -0,0 +1,149 @@
+import JSZip from 'jszip';
+import { Parser } from 'htmlparser2';
+import type { TextBlock } from './blocks';
+
+type ListState = { styleName: string | null; counter: number };
+
+/**
+ * Reads `content.xml` from an OpenDocument text file. Headings carry their outline level, and list
+ * numbering comes from the automatic list styles declared earlier in the same file; lists whose style
+ * lives in styles.xml fall back to bullets. Table rows become one paragraph with cells separated by ` | `.
+ */
+export async function odtToBlocks(bytes: Buffer): Promise<TextBlock[]> {
+    const zip = await JSZip.loadAsync(bytes);
+    const content = await zip.file('content.xml')?.async('string');
+    if (!content) {
+        throw new Error('The OpenDocument file has no content.xml.');
+    }
+
+    const blocks: TextBlock[] = [];
+    // List style name -> levels (1-based) that are numbered rather than bulleted.
+    const numberedLevels = new Map<string, Set<number>>();
+    const lists: ListState[] = [];
+    let currentListStyle: string | null = null;
+    let buffer = '';
+    let headingLevel: number | null = null;
+    let paragraphDepth = 0;
+    let pendingMarker: string | null = null;
+    let row: string[] | null = null;
+    let skipDepth = 0;
+
+    const flush = () => {
+        const text = buffer;
+        buffer = '';
+        if (!text.trim()) return;
+
+        if (headingLevel !== null) {
+            blocks.push({ kind: 'heading', level: headingLevel, text });
+        } else if (lists.length) {
+            blocks.push({ kind: 'list-item', depth: lists.length - 1, marker: pendingMarker ?? ' ', text });
+            pendingMarker = null;
+        } else {
+            blocks.push({ kind: 'paragraph', text });
+        }
+    };
+
+    const parser = new Parser({
+        onopentag(name, attributes) {
+            if (skipDepth || name === 'text:note' || name === 'office:annotation') {
+                // Footnote and comment bodies would otherwise be spliced into the middle of a sentence.
+                skipDepth++;
+                return;
+            }
+            switch (name) {
+                case 'text:list-style':
+                    currentListStyle = attributes['style:name'] ?? null;
+                    break;
+                case 'text:list-level-style-number':
+                    if (currentListStyle) {
+                        const levels = numberedLevels.get(currentListStyle) ?? new Set<number>();
+                        levels.add(Number(attributes['text:level'] ?? 1));
+                        numberedLevels.set(currentListStyle, levels);
+                    }
+                    break;
+                case 'text:h':
+                    flush();
+                    headingLevel = Number(attributes['text:outline-level'] ?? 1);
+                    paragraphDepth++;
+                    break;
+                case 'text:p':
+                    if (!paragraphDepth && !row) flush();
+                    paragraphDepth++;
+                    break;
+                case 'table:table-row':
+                    flush();
+                    row = [];
+                    break;
+                case 'text:list': {
+                    flush();
+                    // Nested lists inherit their parent's style unless they name their own.
+                    const styleName = attributes['text:style-name'] ?? lists[lists.length - 1]?.styleName ?? null;
+                    lists.push({ styleName, counter: 0 });
+                    break;
+                }
+                case 'text:list-item': {
+                    flush();
+                    const list = lists[lists.length - 1];
+                    const numbered = list?.styleName ? numberedLevels.get(list.styleName)?.has(lists.length) : false;
+                    pendingMarker = numbered && list ? `${++list.counter}.` : '-';
+                    break;
+                }
+                case 'text:s':
+                    buffer += ' '.repeat(Number(attributes['text:c'] ?? 1));
+                    break;
+                case 'text:tab':
+                    buffer += '\t';
+                    break;
+                case 'text:line-break':
+                    buffer += '\n';
+                    break;
+            }
+        },
+        ontext(text) {
+            if (!skipDepth && paragraphDepth) buffer += text;
+        },
+        onclosetag(name) {
+            if (skipDepth) {
+                skipDepth--;
+                return;
+            }
+            switch (name) {
+                case 'text:list-style':
+                    currentListStyle = null;
+                    break;
+                case 'text:h':
+                    paragraphDepth--;
+                    flush();
+                    headingLevel = null;
+                    break;
+                case 'text:p':
+                    paragraphDepth--;
+                    // Paragraphs within a table cell are kept together as the cell's text.
+                    if (row) buffer += ' ';
+                    else if (!paragraphDepth) flush();
+                    break;
+                case 'table:table-cell':
+                    if (row) {
+                        row.push(buffer);
+                        buffer = '';
+                    }
+                    break;
+                case 'text:list':
+                    flush();
+                    lists.pop();
+                    break;
+                case 'table:table-row': {
+                    const cells = (row ?? []).map(cell => cell.trim()).filter(Boolean);
+                    row = null;
+                    if (cells.length) blocks.push({ kind: 'paragraph', text: cells.join(' | ') });
+                    break;
+                }
+            }
+        },
+    }, { xmlMode: true, decodeEntities: true });
+
+    parser.write(content);
+    parser.end();
+    flush();
+    return blocks;
+}
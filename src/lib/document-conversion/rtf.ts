@@ -0,0 +1,152 @@
+import type { TextBlock } from './blocks';
+
+// Destinations whose contents are metadata or formatting tables, not document text.
+const SKIPPED_DESTINATIONS = new Set([
+    'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'colorschememapping',
+    'datastore', 'latentstyles', 'xmlnstbl', 'listtable', 'listoverridetable', 'rsidtbl', 'generator',
+    'mmathPr', 'pgdsctbl', 'fldinst', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl',
+    'footerr', 'footerf', 'footnote', 'annotation', 'bkmkstart', 'bkmkend', 'revtbl', 'filetbl',
+]);
+
+type GroupState = { skip: boolean; unicodeSkip: number };
+
+const cp1252 = new TextDecoder('windows-1252');
+
+/**
+ * A small RTF reader covering what word processors emit for contracts: paragraphs, line breaks,
+ * code-page and Unicode escapes, and `\outlinelevel` (set on Word's heading styles). List numbers are
+ * written into `\listtext` groups, which are kept, so numbering survives as part of the paragraph text.
+ */
+export function rtfToBlocks(rtf: string): TextBlock[] {
+    const blocks: TextBlock[] = [];
+    const stack: GroupState[] = [];
+    let state: GroupState = { skip: false, unicodeSkip: 1 };
+    let buffer = '';
+    let outlineLevel: number | null = null;
+    let pendingSkip = 0; // Fallback characters still to drop after a \u escape
+    let i = 0;
+
+    const flush = () => {
+        const text = buffer;
+        buffer = '';
+        if (!text.trim()) return;
+        blocks.push(outlineLevel !== null
+            ? { kind: 'heading', level: outlineLevel + 1, text }
+            : { kind: 'paragraph', text });
+    };
+
+    const emit = (text: string) => {
+        if (state.skip) return;
+        if (pendingSkip > 0) {
+            pendingSkip--;
+            return;
+        }
+        buffer += text;
+    };
+
+    while (i < rtf.length) {
+        const ch = rtf[i];
+
+        if (ch === '{') {
+            stack.push(state);
+            state = { ...state };
+            i++;
+            // `{\*\dest ...}` marks a destination a reader may ignore if it doesn't understand it.
+            if (rtf.startsWith('\\*', i)) {
+                state.skip = true;
+                i += 2;
+            }
+            continue;
+        }
+        if (ch === '}') {
+            state = stack.pop() ?? state;
+            i++;
+            continue;
+        }
+        if (ch === '\r' || ch === '\n') {
+            i++;
+            continue;
+        }
+        if (ch !== '\\') {
+            emit(ch);
+            i++;
+            continue;
+        }
+
+        // Control symbol: backslash followed by a single non-letter.
+        const next = rtf[i + 1];
+        if (next === undefined) break;
+        if (!/[a-zA-Z]/.test(next)) {
+            if (next === "'") {
+                const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+                if (!Number.isNaN(byte)) emit(cp1252.decode(new Uint8Array([byte])));
+                i += 4;
+            } else {
+                if (next === '\\' || next === '{' || next === '}') emit(next);
+                else if (next === '~') emit(' ');
+                else if (next === '_') emit('-');
+                else if ((next === '\n' || next === '\r') && !state.skip) flush(); // An escaped newline is a \par
+                i += 2;
+            }
+            continue;
+        }
+
+        // Control word: letters, an optional signed number, and an optional single space delimiter.
+        const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 64));
+        if (!match) {
+            i++;
+            continue;
+        }
+        const [token, word, param] = match;
+        i += 1 + token.length;
+
+        if (SKIPPED_DESTINATIONS.has(word)) {
+            state.skip = true;
+            continue;
+        }
+        switch (word) {
+            case 'par':
+            case 'sect':
+            case 'page':
+                if (!state.skip) flush();
+                break;
+            case 'line':
+                emit('\n');
+                break;
+            case 'tab':
+                emit('\t');
+                break;
+            case 'cell':
+                emit(' | ');
+                break;
+            case 'row':
+                if (!state.skip) flush();
+                break;
+            case 'pard':
+                outlineLevel = null;
+                break;
+            case 'outlinelevel':
+                outlineLevel = Number(param ?? 0);
+                break;
+            case 'uc':
+                state.unicodeSkip = Number(param ?? 1);
+                break;
+            case 'u': {
+                let code = Number(param ?? 0);
+                if (code < 0) code += 65536;
+                emit(String.fromCharCode(code));
+                pendingSkip = state.unicodeSkip;
+                break;
+            }
+            case 'emdash': emit('—'); break;
+            case 'endash': emit('–'); break;
+            case 'bullet': emit('•'); break;
+            case 'lquote': emit('‘'); break;
+            case 'rquote': emit('’'); break;
+            case 'ldblquote': emit('“'); break;
+            case 'rdblquote': emit('”'); break;
+        }
+    }
+    flush();
+    return blocks;
+}
@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import { ai, configuredEmbedder, embedderFor } from '@/ai/genkit';
+import type { CanonicalDocument, TextAnchor } from '@/lib/anchor-types';
+import { toAnchor } from '@/lib/anchors';
+import { storage } from '@/lib/firebase-admin';
+
+/**
+ * The retrieval index behind document Q&A. An analyzed document's canonical text is split into passages
+ * once, each passage is embedded, and the vectors are stored per history item. A question is then
+ * answered from the passages closest to it instead of re-sending the whole file.
+ */
+
+// Bump when passage splitting changes, so older indexes are rebuilt.
+const INDEX_VERSION = 1;
+
+const PASSAGE_CHARS = Number(process.env.RAG_PASSAGE_CHARS ?? 1200);
+const TOP_K = Number(process.env.RAG_TOP_K ?? 6);
+const MIN_PASSAGE_CHARS = 40;
+
+// Stored apart from the document and the history doc: vectors are large, and only the server reads them.
+const indexPath = (userId: string, historyId: string) => `indexes/${userId}/${historyId}.json`;
+
+const PassageSchema = z.object({
+    start: z.number().int().nonnegative(), // Offsets into the canonical text, end exclusive
+    end: z.number().int().nonnegative(),
+    embedding: z.array(z.number()),
+});
+
+export const DocumentIndexSchema = z.object({
+    version: z.number().int(),
+    embedder: z.string(),
+    canonicalVersion: z.number().int(),
+    storagePath: z.string(),
+    passages: z.array(PassageSchema),
+});
+export type DocumentIndex = z.infer<typeof DocumentIndexSchema>;
+
+type Span = { start: number, end: number };
+
+// Splits a span that is too long for one passage at sentence ends, or failing that at spaces.
+const splitLongSpan = (text: string, span: Span): Span[] => {
+    const spans: Span[] = [];
+    let start = span.start;
+    while (span.end - start > PASSAGE_CHARS) {
+        const window = text.slice(start, start + PASSAGE_CHARS);
+        const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n'));
+        const cut = sentenceEnd > PASSAGE_CHARS / 2 ? sentenceEnd + 1 : window.lastIndexOf(' ') > 0 ? window.lastIndexOf(' ') : PASSAGE_CHARS;
+        spans.push({ start, end: start + cut });
+        start += cut;
+        while (start < span.end && /\s/.test(text[start])) start++;
+    }
+    if (start < span.end) spans.push({ start, end: span.end });
+    return spans;
+};
+
+/**
+ * Splits the canonical text into passages of whole paragraphs, up to `RAG_PASSAGE_CHARS` each. A passage
+ * never runs across the start of a top-level section, so each one stays about a single topic.
+ */
+export function splitPassages(document: CanonicalDocument): Span[] {
+    const { text } = document;
+    const sectionStarts = new Set(document.sections
+        .filter(section => section.level === Math.min(...document.sections.map(s => s.level)))
+        .map(section => section.start));
+
+    const paragraphs: Span[] = [];
+    for (const match of text.matchAll(/[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g)) {
+        const indent = match[0].search(/\S/);
+        if (indent >= 0) {
+            paragraphs.push(...splitLongSpan(text, { start: match.index! + indent, end: match.index! + match[0].trimEnd().length }));
+        }
+    }
+
+    const passages: Span[] = [];
+    for (const paragraph of paragraphs) {
+        const current = passages[passages.length - 1];
+        const startsSection = [...sectionStarts].some(start => start >= (current?.end ?? 0) && start <= paragraph.start);
+        if (current && !startsSection && paragraph.end - current.start <= PASSAGE_CHARS) {
+            current.end = paragraph.end;
+        } else {
+            passages.push({ ...paragraph });
+        }
+    }
+
+    // Fold fragments (a lone heading, a signature line) into the passage before them.
+    return passages.reduce<Span[]>((merged, passage) => {
+        const previous = merged[merged.length - 1];
+        if (previous && passage.end - passage.start < MIN_PASSAGE_CHARS && passage.end - previous.start <= PASSAGE_CHARS) {
+            previous.end = passage.end;
+        } else {
+            merged.push(passage);
+        }
+        return merged;
+    }, []);
+}
+
+const embed = async (content: string) => (await ai.embed({ embedder: embedderFor(), content }))[0].embedding;
+
+export async function buildDocumentIndex(document: CanonicalDocument, storagePath: string): Promise<DocumentIndex> {
+    const passages = [];
+    for (const span of splitPassages(document)) {
+        passages.push({ ...span, embedding: await embed(document.text.slice(span.start, span.end)) });
+    }
+    return {
+        version: INDEX_VERSION,
+        embedder: configuredEmbedder(),
+        canonicalVersion: document.version,
+        storagePath,
+        passages,
+    };
+}
+
+export async function saveDocumentIndex(userId: string, historyId: string, index: DocumentIndex) {
+    await storage.bucket().file(indexPath(userId, historyId)).save(JSON.stringify(index), {
+        metadata: { contentType: 'application/json' },
+    });
+}
+
+/**
+ * The stored index of a history item, built and stored now if there is none yet (analyses from before
+ * indexing) or it no longer matches the document, the embedder or the passage splitting.
+ */
+export async function loadDocumentIndex(userId: string, historyId: string, document: CanonicalDocument, storagePath: string): Promise<DocumentIndex> {
+    const file = storage.bucket().file(indexPath(userId, historyId));
+    const [exists] = await file.exists();
+    if (exists) {
+        const [contents] = await file.download();
+        const parsed = DocumentIndexSchema.safeParse(JSON.parse(contents.toString('utf-8')));
+        if (parsed.success
+            && parsed.data.version === INDEX_VERSION
+            && parsed.data.embedder === configuredEmbedder()
+            && parsed.data.canonicalVersion === document.version
+            && parsed.data.storagePath === storagePath) {
+            return parsed.data;
+        }
+    }
+
+    const index = await buildDocumentIndex(document, storagePath);
+    try {
+        await saveDocumentIndex(userId, historyId, index);
+    } catch (e) {
+        console.error('Failed to store the document index:', e);
+    }
+    return index;
+}
+
+const cosine = (a: number[], b: number[]) => {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * The `RAG_TOP_K` passages most similar to the question, in document order, as anchors whose score is
+ * the similarity. Short documents with no more passages than that are returned whole.
+ */
+export async function retrievePassages(document: CanonicalDocument, index: DocumentIndex, question: string): Promise<TextAnchor[]> {
+    let ranked = index.passages.map(passage => ({ passage, score: 1 }));
+    if (index.passages.length > TOP_K) {
+        const query = await embed(question);
+        ranked = index.passages
+            .map(passage => ({ passage, score: Math.max(0, cosine(query, passage.embedding)) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, TOP_K);
+    }
+    return ranked
+        .sort((a, b) => a.passage.start - b.passage.start)
+        .map(({ passage, score }) => toAnchor(document, passage.start, passage.end, 'exact', score));
+}
+
+// Retrieved passages as sent to the model, each labelled with where it is in the document.
+export const renderPassages = (document: CanonicalDocument, passages: TextAnchor[]) => passages
+    .map((passage) => {
+        const location = [passage.page && `Page ${passage.page}`, passage.section && `Section ${passage.section}`].filter(Boolean).join(', ');
+        return `<passage${location ? ` location="${location}"` : ''}>\n${document.text.slice(passage.start, passage.end)}\n</passage>`;
+    })
+    .join('\n\n');
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { storage } from '@/lib/firebase-admin';
+import { documentStoragePath, type StoredDocument } from '@/lib/documents';
+
+const SIGNED_URL_TTL_MS = 15 * 60 * 1000;
+
+export const sha256Hex = (bytes: Buffer) => createHash('sha256').update(bytes).digest('hex');
+
+export async function readDocument(storagePath: string): Promise<Buffer> {
+    const [contents] = await storage.bucket().file(storagePath).download();
+    return contents;
+}
+
+// Stores bytes under the owner's content-addressed path. Uploading the same file twice is a no-op.
+export async function saveDocument(userId: string, bytes: Buffer, mimeType: string): Promise<StoredDocument> {
+    const contentHash = sha256Hex(bytes);
+    const storagePath = documentStoragePath(userId, contentHash);
+    const file = storage.bucket().file(storagePath);
+
+    const [exists] = await file.exists();
+    if (!exists) {
+        await file.save(bytes, { metadata: { contentType: mimeType } });
+    }
+    return { storagePath, contentHash, size: bytes.length, mimeType };
+}
+
+// Short-lived read URL, so the link in a shared screenshot or browser history stops working quickly.
+export async function getDocumentSignedUrl(storagePath: string): Promise<string> {
+    const [url] = await storage.bucket().file(storagePath).getSignedUrl({
+        action: 'read',
+        expires: Date.now() + SIGNED_URL_TTL_MS,
+    });
+    return url;
+}
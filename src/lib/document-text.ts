@@ -0,0 +1,47 @@
+import { extractText } from 'unpdf';
+import { modelReadsFiles, type ModelFlow } from '@/ai/genkit';
+import type { CanonicalDocument } from '@/lib/anchor-types';
+import { buildCanonicalDocument, renderForModel } from '@/lib/anchors';
+import { convertToText, needsConversion, textDocument } from '@/lib/document-conversion';
+import { SCANNED_PAGES_MIME_TYPE } from '@/lib/documents';
+import type { OcrPage } from '@/lib/ocr';
+import { recognizeScannedDocument } from '@/lib/scanned-documents';
+
+export type DocumentText = {
+    canonical: CanonicalDocument;
+    ocrPages?: OcrPage[]; // Set for scanned documents
+};
+
+/**
+ * Extracts the canonical text of a stored document, with page boundaries where the format has pages.
+ * A PDF without a text layer yields empty text rather than an error: the model can still read it,
+ * but none of its references can be anchored.
+ */
+export async function extractDocumentText(userId: string, storagePath: string, mimeType: string, bytes: Buffer): Promise<DocumentText> {
+    if (mimeType === SCANNED_PAGES_MIME_TYPE) {
+        const recognized = await recognizeScannedDocument(userId, storagePath, bytes);
+        return { canonical: buildCanonicalDocument(recognized.pageTexts, true), ocrPages: recognized.pages };
+    }
+    if (mimeType === 'application/pdf') {
+        const { text } = await extractText(new Uint8Array(bytes), { mergePages: false });
+        return { canonical: buildCanonicalDocument(text, true) };
+    }
+    if (needsConversion(mimeType)) {
+        return { canonical: buildCanonicalDocument([await convertToText(bytes, mimeType)], false) };
+    }
+    return { canonical: buildCanonicalDocument([bytes.toString('utf-8')], false) };
+}
+
+// Gemini reads PDFs natively; every other format, and every format for a local model, is sent as its canonical text.
+export const modelInputFor = (bytes: Buffer, mimeType: string, canonical: CanonicalDocument, flow: ModelFlow) => {
+    if (mimeType !== 'application/pdf') {
+        return textDocument(renderForModel(canonical));
+    }
+    if (modelReadsFiles(flow)) {
+        return { fileAsBase64: bytes.toString('base64'), mimeType };
+    }
+    if (!canonical.text) {
+        throw new Error('This PDF has no text layer, and the configured model can only read text. Upload photos of its pages instead.');
+    }
+    return textDocument(renderForModel(canonical));
+};
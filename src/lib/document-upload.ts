@@ -0,0 +1,32 @@
+"use client";
+
+import { getStorage, ref, uploadBytes } from 'firebase/storage';
+import { app } from '@/lib/firebase-config';
+import { documentStoragePath, MAX_DOCUMENT_BYTES, MAX_SCANNED_PAGES, SCANNED_PAGES_MIME_TYPE, type ScannedPagesManifest, type StoredDocument } from '@/lib/documents';
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Uploads an original straight from the browser to Cloud Storage, so the file never passes through a server action.
+export async function uploadDocument(userId: string, bytes: ArrayBuffer, mimeType: string): Promise<StoredDocument> {
+    if (bytes.byteLength > MAX_DOCUMENT_BYTES) {
+        throw new Error(`The file is larger than ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB.`);
+    }
+    const contentHash = toHex(await crypto.subtle.digest('SHA-256', bytes));
+    const storagePath = documentStoragePath(userId, contentHash);
+
+    await uploadBytes(ref(getStorage(app), storagePath), bytes, { contentType: mimeType });
+    return { storagePath, contentHash, size: bytes.byteLength, mimeType };
+}
+
+// Uploads each page image, then a manifest listing them in order. The manifest is what gets analyzed.
+export async function uploadScannedPages(userId: string, pages: { bytes: ArrayBuffer, mimeType: string }[]): Promise<StoredDocument> {
+    if (pages.length > MAX_SCANNED_PAGES) {
+        throw new Error(`A scanned document can have at most ${MAX_SCANNED_PAGES} pages.`);
+    }
+    const manifest: ScannedPagesManifest = { pages: [] };
+    for (const page of pages) {
+        manifest.pages.push(await uploadDocument(userId, page.bytes, page.mimeType));
+    }
+    const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+    return uploadDocument(userId, manifestBytes.buffer as ArrayBuffer, SCANNED_PAGES_MIME_TYPE);
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+// Shared by the browser upload and the server, so it must stay free of SDK imports.
+
+// Uploaded originals live at `documents/{uid}/{sha256}`: one object per distinct file per user.
+export const documentStoragePath = (userId: string, contentHash: string) => `documents/${userId}/${contentHash}`;
+
+export const isOwnDocumentPath = (userId: string, storagePath: string) =>
+    storagePath.startsWith(`documents/${userId}/`) && !storagePath.includes('..');
+
+// Upload formats the verifier accepts, with the extension shown to users. PDF and plain text go to the
+// model as-is; the rest are converted to text on the server (see src/lib/document-conversion).
+export const DOCUMENT_FILE_TYPES: Record<string, string> = {
+    'text/plain': '.txt',
+    'application/pdf': '.pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+    'application/vnd.oasis.opendocument.text': '.odt',
+    'application/rtf': '.rtf',
+    'text/rtf': '.rtf',
+    'text/html': '.html',
+    'application/xhtml+xml': '.xhtml',
+};
+
+// Photos and scans are uploaded one image per page and sent together as a scanned-pages manifest.
+export const IMAGE_FILE_TYPES: Record<string, string> = {
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/webp': '.webp',
+    'image/heic': '.heic',
+    'image/heif': '.heif',
+};
+
+const EXTENSION_ALIASES: Record<string, string> = { '.htm': '.html', '.jpeg': '.jpg' };
+
+// Browsers often report an empty or generic type for .rtf/.odt/.heic, so fall back to the file extension.
+export const resolveMimeType = (fileName: string, reportedType: string, fileTypes: Record<string, string> = DOCUMENT_FILE_TYPES): string | null => {
+    if (reportedType in fileTypes) return reportedType;
+    const extension = fileName.toLowerCase().match(/\.[a-z]+$/)?.[0];
+    if (!extension) return null;
+    const canonical = EXTENSION_ALIASES[extension] ?? extension;
+    return Object.keys(fileTypes).find(type => fileTypes[type] === canonical) ?? null;
+};
+
+// Pasted text (terms of service, forwarded clauses, email bodies) is analyzed as a .txt upload.
+export const MIN_PASTED_TEXT_LENGTH = 200;
+const MAX_PASTED_TITLE_LENGTH = 100;
+
+// Tidies line endings, email quote markers and trailing spaces but keeps the blank lines between
+// paragraphs, so the model's clause references still match what the user pasted.
+export const normalizePastedText = (text: string) => text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00a0/g, ' ')
+    .replace(/^(?:> ?)+/gm, '')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// History lists documents by file name, so pasted text gets one made from its title (or the date).
+export const pastedTextFileName = (title: string) => {
+    const cleaned = title.replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_PASTED_TITLE_LENGTH);
+    return `${cleaned || `Pasted text ${new Date().toISOString().slice(0, 10)}`}.txt`;
+};
+
+// Gemini accepts inline files up to 20 MB; storage.rules enforces the same cap on upload.
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+// A reference to an uploaded original. This is what task payloads and history records hold instead of the file.
+export const StoredDocumentSchema = z.object({
+    storagePath: z.string().min(1),
+    contentHash: z.string().regex(/^[a-f0-9]{64}$/, 'Expected a hex SHA-256 digest.'),
+    size: z.number().int().positive().max(MAX_DOCUMENT_BYTES),
+    mimeType: z.string().min(1),
+});
+export type StoredDocument = z.infer<typeof StoredDocumentSchema>;
+
+// A multi-page scan is stored as a small JSON manifest listing its page images in reading order.
+// The manifest is uploaded like any other document, so its hash identifies the page set for dedup.
+export const SCANNED_PAGES_MIME_TYPE = 'application/vnd.legalintel.scanned-pages+json';
+export const MAX_SCANNED_PAGES = 30;
+
+export const ScannedPagesManifestSchema = z.object({
+    pages: z.array(StoredDocumentSchema.extend({
+        mimeType: z.string().refine(type => type in IMAGE_FILE_TYPES, 'Expected an image page.'),
+    })).min(1).max(MAX_SCANNED_PAGES),
+});
+export type ScannedPagesManifest = z.infer<typeof ScannedPagesManifestSchema>;
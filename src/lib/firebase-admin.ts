@@ -4,21 +4,25 @@ import { getFirestore } from 'firebase-admin/firestore';
 import { getStorage } from 'firebase-admin/storage';
 import { getAuth } from 'firebase-admin/auth';
 
-if (!process.env.FIREBASE_PROJECT_ID || !process.env.FIREBASE_CLIENT_EMAIL || !process.env.FIREBASE_PRIVATE_KEY) {
+// The Admin SDK talks to the local emulators whenever FIRESTORE_EMULATOR_HOST is set.
+// They don't check credentials, so a service account is only required against a real project.
+const useEmulators = !!process.env.FIRESTORE_EMULATOR_HOST;
+
+if (!useEmulators && (!process.env.FIREBASE_PROJECT_ID || !process.env.FIREBASE_CLIENT_EMAIL || !process.env.FIREBASE_PRIVATE_KEY)) {
   throw new Error('Firebase environment variables are not set.');
 }
 
 export const serviceAccount = {
-  projectId: process.env.FIREBASE_PROJECT_ID,
+  projectId: process.env.FIREBASE_PROJECT_ID ?? 'demo-legalintel',
   clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
-  privateKey: process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n'),
+  privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
 } as ServiceAccount;
 
 
 // This check prevents re-initialization in hot-reload environments
 if (!getApps().length) {
   initializeApp({
-    credential: cert(serviceAccount),
+    ...(useEmulators ? {} : { credential: cert(serviceAccount) }),
     projectId: serviceAccount.projectId,
     storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
   });
@@ -1,5 +1,8 @@
 import { initializeApp, getApps, getApp } from 'firebase/app';
 import { getAnalytics } from "firebase/analytics";
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 
 // This is a public configuration. It is safe to expose this.
 // Your web app's Firebase configuration
@@ -17,6 +20,16 @@ const firebaseConfig = {
 // Initialize Firebase
 export const app = !getApps().length ? initializeApp(firebaseConfig) : getApp();
 
-if (typeof window !== 'undefined') {
+// Point the client SDKs at the local emulators (see firebase.json) when running `npm run emulators`.
+// The flag on globalThis stops hot reloads from connecting twice, which the SDK rejects.
+const globalForEmulators = globalThis as typeof globalThis & { __firebaseEmulatorsConnected?: boolean };
+if (process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === 'true' && !globalForEmulators.__firebaseEmulatorsConnected) {
+    connectAuthEmulator(getAuth(app), 'http://127.0.0.1:9099', { disableWarnings: true });
+    connectFirestoreEmulator(getFirestore(app), '127.0.0.1', 8080);
+    connectStorageEmulator(getStorage(app), '127.0.0.1', 9199);
+    globalForEmulators.__firebaseEmulatorsConnected = true;
+}
+
+if (typeof window !== 'undefined' && process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS !== 'true') {
     getAnalytics(app);
 }
@@ -0,0 +1,108 @@
+import { classifyDocumentChunk, combineChunkAnalyses } from '@/ai/flows/classify-uploaded-document';
+import type { ClassifyDocumentResult } from '@/ai/schemas/classify-document';
+import type { CanonicalDocument } from '@/lib/anchor-types';
+import { renderForModel } from '@/lib/anchors';
+import { textDocument } from '@/lib/document-conversion';
+import { mergeChunkResults, type ChunkAnalysis, type DocumentChunk } from '@/lib/document-chunks';
+import { isTransientError } from '@/lib/task-retry';
+
+/**
+ * Map-reduce analysis for documents too long for one prompt. The canonical text is split into chunks at
+ * section and page boundaries, each chunk gets a clause-level analysis, and a final call writes the
+ * document-level sections (summary, risk radar, fairness, actions) from the chunk results.
+ */
+
+const CHUNK_CONCURRENCY = Number(process.env.ANALYSIS_CHUNK_CONCURRENCY ?? 3);
+
+/**
+ * Runs the clause-level analysis on each chunk, a few at a time. A chunk whose analysis fails outright
+ * is recorded as failed and left out, but transient errors are thrown so the whole task is retried.
+ * Throws if no chunk could be analyzed.
+ */
+export async function analyzeChunks(document: CanonicalDocument, chunks: DocumentChunk[], throwIfCancelled: () => Promise<void>): Promise<ChunkAnalysis[]> {
+    const analyses: ChunkAnalysis[] = new Array(chunks.length);
+    let next = 0;
+    let stopped = false;
+
+    const worker = async () => {
+        while (next < chunks.length && !stopped) {
+            const chunk = chunks[next++];
+            await throwIfCancelled();
+            const result = await classifyDocumentChunk({
+                ...textDocument(renderForModel(document, chunk)),
+                part: chunk.index + 1,
+                totalParts: chunks.length,
+            });
+            if ('error' in result) {
+                if (isTransientError(result.error)) {
+                    throw new Error(result.error);
+                }
+                analyses[chunk.index] = { coverage: { ...chunk, status: 'failed', error: result.error }, result: null };
+            } else {
+                analyses[chunk.index] = {
+                    coverage: { ...chunk, status: 'analyzed', ...(result.degradedSections.length && { degradedSections: result.degradedSections }) },
+                    result,
+                };
+            }
+        }
+    };
+    // Once one worker throws, the others finish their current chunk but don't start another.
+    await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, () => worker().catch((e) => {
+        stopped = true;
+        throw e;
+    })));
+
+    if (analyses.every(a => !a.result)) {
+        throw new Error(`None of the document's ${chunks.length} parts could be analyzed. ${analyses[0].coverage.error}`);
+    }
+    return analyses;
+}
+
+/**
+ * Merges the chunk analyses into one classification: clause-level lists come from `mergeChunkResults`
+ * and the model writes the rest.
+ */
+export async function combineAnalyses(analyses: ChunkAnalysis[]): Promise<ClassifyDocumentResult> {
+    const analyzed = analyses.flatMap(a => a.result ? [{ ...a, result: a.result }] : []);
+
+    const partAnalyses = analyzed.map(({ coverage, result }) => ({
+        part: coverage.index + 1,
+        pages: coverage.firstPage && `${coverage.firstPage}-${coverage.lastPage}`,
+        sections: coverage.sections,
+        summary: result.summary,
+        keyFacts: result.keyFacts,
+        clauses: result.clauseByClause.map(({ clause, simplification, riskLevel, riskReason }) => ({ clause, simplification, riskLevel, riskReason })),
+        hiddenTraps: result.hiddenTraps,
+        deadlines: result.timeBombDetector,
+        privacyDataUse: result.privacyDataUse,
+    }));
+
+    const combined = await combineChunkAnalyses({ totalParts: analyses.length, partAnalyses: JSON.stringify(partAnalyses) });
+    if ('error' in combined) {
+        throw new Error(combined.error);
+    }
+
+    const merged = mergeChunkResults(analyses);
+
+    return {
+        executiveSummary: combined.executiveSummary,
+        clauseByClause: merged.clauseByClause,
+        riskRadar: combined.riskRadar,
+        hiddenTraps: merged.hiddenTraps,
+        jargonBuster: merged.jargonBuster,
+        timeBombDetector: merged.timeBombDetector,
+        privacyDataUse: merged.privacyDataUse,
+        consumerChecklist: combined.consumerChecklist,
+        negotiationPlaybook: merged.negotiationPlaybook,
+        costBenefitSnapshot: combined.costBenefitSnapshot,
+        fairnessScoreJurisdiction: combined.fairnessScoreJurisdiction,
+        complianceEthicalNote: combined.complianceEthicalNote,
+        actionPrioritizer: combined.actionPrioritizer,
+        expenditureAnalysis: combined.expenditureAnalysis,
+        lawyerCategory: combined.lawyerCategory,
+        // A section is degraded if it was in any part; the coverage says which parts. Part summaries and
+        // key facts only feed the combine step, so they aren't sections of the result.
+        degradedSections: [...new Set([...analyzed.flatMap(a => a.result.degradedSections), ...combined.degradedSections])]
+            .filter(section => section !== 'summary' && section !== 'keyFacts'),
+    };
+}
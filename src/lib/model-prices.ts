@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+/**
+ * Model prices for usage accounting (src/lib/usage.ts), kept apart from it so the cost arithmetic has
+ * no Firebase dependency.
+ */
+
+const ModelPriceSchema = z.object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative(),
+});
+type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
+// USD per million tokens, as listed by the provider when this was written. Audio output of the TTS model
+// is billed as tokens too. Override or add models with AI_MODEL_PRICES, e.g.
+// {"googleai/gemini-2.0-flash": {"input": 0.1, "output": 0.4}}. Local and fake models cost nothing.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'googleai/gemini-1.5-flash-latest': { input: 0.075, output: 0.3 },
+    'googleai/gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'googleai/gemini-1.5-pro-latest': { input: 1.25, output: 5 },
+    'googleai/gemini-1.5-pro': { input: 1.25, output: 5 },
+    'googleai/gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'googleai/gemini-2.5-pro': { input: 1.25, output: 10 },
+    'googleai/gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+};
+
+let parsed: { source: string | undefined, prices: Record<string, ModelPrice> } | null = null;
+
+// Read on first use rather than at import, so a malformed AI_MODEL_PRICES is reported by the calls that
+// need a price instead of breaking every module that imports this one.
+const modelPrices = () => {
+    const source = process.env.AI_MODEL_PRICES;
+    if (!parsed || parsed.source !== source) {
+        let overrides: Record<string, ModelPrice> = {};
+        if (source) {
+            try {
+                overrides = z.record(ModelPriceSchema).parse(JSON.parse(source));
+            } catch (e) {
+                const reason = e instanceof z.ZodError
+                    ? e.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+                    : e instanceof Error ? e.message : String(e);
+                throw new Error(`AI_MODEL_PRICES must be a JSON object of {"input": <USD>, "output": <USD>} per million tokens, keyed by model (${reason}).`);
+            }
+        }
+        parsed = { source, prices: { ...DEFAULT_PRICES, ...overrides } };
+    }
+    return parsed.prices;
+};
+
+// Null when the model has no known price, so unpriced calls aren't mistaken for free ones.
+export const estimateCostUsd = (model: string, inputTokens: number, outputTokens: number): number | null => {
+    if (model.startsWith('local/') || model.startsWith('fake/')) {
+        return 0;
+    }
+    const price = modelPrices()[model];
+    return price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : null;
+};
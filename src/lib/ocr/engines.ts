@@ -0,0 +1,83 @@
+import { execFile } from 'child_process';
+import engTrainedData from '@tesseract.js-data/eng';
+import { createWorker, OEM, type Worker } from 'tesseract.js';
+import tesseractJsPackage from 'tesseract.js/package.json';
+import { parseTesseractTsv, type OcrPageText } from './tsv';
+
+// Anything that can read the text off a normalized page image. Engines must work without network access.
+export type OcrEngine = {
+    name: string;
+    // The engine build and languages, e.g. `5.3.4-eng`. Cached OCR output is only reused for the same version.
+    version: () => Promise<string>;
+    recognize: (image: Buffer) => Promise<OcrPageText>;
+};
+
+const OCR_LANGUAGES = process.env.OCR_LANGUAGES ?? 'eng';
+
+// tesseract.js runs the Tesseract WASM build in a worker thread. Language data is read from disk:
+// the bundled English model by default, or OCR_LANG_PATH for other languages.
+const createTesseractJsEngine = (): OcrEngine => {
+    let worker: Promise<Worker> | null = null;
+    const getWorker = () => {
+        worker ??= createWorker(OCR_LANGUAGES, OEM.LSTM_ONLY, {
+            langPath: process.env.OCR_LANG_PATH ?? engTrainedData.langPath,
+            gzip: !process.env.OCR_LANG_PATH,
+            cacheMethod: 'none',
+        });
+        return worker;
+    };
+
+    return {
+        name: 'tesseract',
+        version: async () => `${tesseractJsPackage.version}-${OCR_LANGUAGES}`,
+        recognize: async (image) => {
+            const { data } = await (await getWorker()).recognize(image);
+            return { text: data.text, confidence: data.confidence };
+        },
+    };
+};
+
+// Shells out to a system `tesseract` binary, which is faster than WASM on large batches.
+const createTesseractCliEngine = (): OcrEngine => {
+    const binary = process.env.OCR_TESSERACT_BIN ?? 'tesseract';
+    let version: Promise<string> | null = null;
+
+    return {
+        name: 'tesseract-cli',
+        // `tesseract --version` prints e.g. `tesseract 5.3.4` on its first line.
+        version: () => version ??= new Promise((resolve, reject) => {
+            execFile(binary, ['--version'], (error, stdout) => error
+                ? reject(error)
+                : resolve(`${stdout.split('\n')[0].replace(/^tesseract\s+/, '').trim()}-${OCR_LANGUAGES}`));
+        }),
+        recognize: (image) => new Promise((resolve, reject) => {
+            const child = execFile(
+                binary,
+                ['stdin', 'stdout', '-l', OCR_LANGUAGES.replace(/,/g, '+'), 'tsv'],
+                { maxBuffer: 16 * 1024 * 1024 },
+                (error, stdout) => error ? reject(error) : resolve(parseTesseractTsv(stdout)),
+            );
+            child.stdin?.end(image);
+        }),
+    };
+};
+
+const OCR_ENGINES: Record<string, () => OcrEngine> = {
+    'tesseract': createTesseractJsEngine,
+    'tesseract-cli': createTesseractCliEngine,
+};
+
+let engine: OcrEngine | null = null;
+
+// The engine named by OCR_ENGINE (default `tesseract`), created once per process.
+export function getOcrEngine(): OcrEngine {
+    if (!engine) {
+        const name = process.env.OCR_ENGINE ?? 'tesseract';
+        const create = OCR_ENGINES[name];
+        if (!create) {
+            throw new Error(`Unknown OCR_ENGINE '${name}'. Expected one of: ${Object.keys(OCR_ENGINES).join(', ')}.`);
+        }
+        engine = create();
+    }
+    return engine;
+}
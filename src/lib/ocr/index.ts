@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { getOcrEngine } from './engines';
+import { normalizePageImage } from './normalize';
+
+export { getOcrEngine, type OcrEngine } from './engines';
+export type { OcrPageText } from './tsv';
+
+// Pages below this mean word confidence are flagged so users know to check them against the photo.
+export const LOW_CONFIDENCE_THRESHOLD = Number(process.env.OCR_LOW_CONFIDENCE ?? 60);
+
+export const OcrPageSchema = z.object({
+    page: z.number().int().positive(), // 1-based, in upload order
+    confidence: z.number().min(0).max(100),
+    lowConfidence: z.boolean(),
+});
+export type OcrPage = z.infer<typeof OcrPageSchema>;
+
+export type RecognizedDocument = {
+    pageTexts: string[];
+    pages: OcrPage[];
+    engine: string;
+};
+
+/**
+ * OCRs page images one at a time, in page order. Pages are loaded lazily so only one photo
+ * is held in memory at a time.
+ */
+export async function recognizePages(pages: { mimeType: string, load: () => Promise<Buffer> }[]): Promise<RecognizedDocument> {
+    const engine = getOcrEngine();
+    const pageTexts: string[] = [];
+    const summaries: OcrPage[] = [];
+
+    for (const [index, page] of pages.entries()) {
+        const image = await normalizePageImage(await page.load(), page.mimeType);
+        const { text, confidence } = await engine.recognize(image);
+        const pageText = text.trim();
+        const rounded = Math.round(pageText ? confidence : 0);
+
+        pageTexts.push(pageText);
+        summaries.push({ page: index + 1, confidence: rounded, lowConfidence: rounded < LOW_CONFIDENCE_THRESHOLD });
+    }
+
+    if (summaries.every(page => page.confidence === 0)) {
+        throw new Error('No text could be recognized in the uploaded images.');
+    }
+    return { pageTexts, pages: summaries, engine: engine.name };
+}
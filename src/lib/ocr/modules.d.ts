@@ -0,0 +1,12 @@
+// These packages ship without type declarations; only the parts used here are declared.
+
+declare module 'heic-decode' {
+    type DecodedImage = { width: number; height: number; data: Uint8ClampedArray };
+    function decode(options: { buffer: Buffer | ArrayBuffer }): Promise<DecodedImage>;
+    export default decode;
+}
+
+declare module '@tesseract.js-data/eng' {
+    const data: { code: string; gzip: boolean; langPath: string };
+    export default data;
+}
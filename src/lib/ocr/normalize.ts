@@ -0,0 +1,30 @@
+import decodeHeic from 'heic-decode';
+import sharp, { type Sharp } from 'sharp';
+
+// Long edge of a normalized page: roughly A4 at 300 DPI, enough for OCR without wasting time on huge photos.
+const MAX_PAGE_EDGE = 3000;
+
+const HEIF_MIME_TYPES = ['image/heic', 'image/heif'];
+
+/**
+ * Turns an uploaded photo or scan into a PNG Tesseract reads well: upright according to its EXIF
+ * orientation, no larger than MAX_PAGE_EDGE, greyscale and contrast-stretched.
+ */
+export async function normalizePageImage(bytes: Buffer, mimeType: string): Promise<Buffer> {
+    let image: Sharp;
+    if (HEIF_MIME_TYPES.includes(mimeType)) {
+        // sharp's prebuilt libvips can't decode HEVC-coded HEIC. heic-decode applies the container's
+        // rotation itself, so the decoded pixels are already upright.
+        const { width, height, data } = await decodeHeic({ buffer: bytes });
+        image = sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 } });
+    } else {
+        image = sharp(bytes).rotate();
+    }
+
+    return image
+        .resize({ width: MAX_PAGE_EDGE, height: MAX_PAGE_EDGE, fit: 'inside', withoutEnlargement: true })
+        .grayscale()
+        .normalise()
+        .png()
+        .toBuffer();
+}
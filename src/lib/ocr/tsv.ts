@@ -0,0 +1,36 @@
+export type OcrPageText = {
+    text: string;
+    confidence: number; // Mean word confidence, 0-100
+};
+
+// Rebuilds the page text from Tesseract's word-level TSV, keeping its line and paragraph breaks.
+export const parseTesseractTsv = (tsv: string): OcrPageText => {
+    const lines: string[] = [];
+    const confidences: number[] = [];
+    let lineKey = '';
+    let paragraphKey = '';
+
+    for (const row of tsv.split('\n').slice(1)) {
+        const cols = row.split('\t');
+        if (cols.length < 12 || cols[0] !== '5') continue; // Level 5 rows are words
+        const [, page, block, paragraph, line] = cols;
+        const conf = Number(cols[10]);
+        const word = cols[11].trim();
+        if (!word) continue;
+
+        const nextParagraph = `${page}.${block}.${paragraph}`;
+        const nextLine = `${nextParagraph}.${line}`;
+        if (nextLine !== lineKey) {
+            if (paragraphKey && nextParagraph !== paragraphKey) lines.push('');
+            lines.push(word);
+            lineKey = nextLine;
+            paragraphKey = nextParagraph;
+        } else {
+            lines[lines.length - 1] += ` ${word}`;
+        }
+        if (conf >= 0) confidences.push(conf);
+    }
+
+    const confidence = confidences.length ? confidences.reduce((a, b) => a + b, 0) / confidences.length : 0;
+    return { text: lines.join('\n'), confidence };
+};
@@ -0,0 +1,58 @@
+// Types for per-user quotas on model-backed actions. Safe to import from both client and server code.
+
+import { z } from 'zod';
+import type { UserRole } from '@/lib/auth-types';
+
+export const QUOTA_KINDS = ['documentAnalyses', 'questionsPerDocument', 'ttsCharacters', 'rolePlayTurns'] as const;
+export type QuotaKind = typeof QUOTA_KINDS[number];
+
+// Every quota is counted over a sliding 24-hour window.
+export const QUOTA_WINDOW_HOURS = 24;
+
+export const QUOTA_LABELS: Record<QuotaKind, { label: string, unit: string }> = {
+    documentAnalyses: { label: 'Document analyses', unit: 'document analyses' },
+    questionsPerDocument: { label: 'Questions per document', unit: 'questions about this document' },
+    ttsCharacters: { label: 'Read-aloud characters', unit: 'characters of read-aloud audio' },
+    rolePlayTurns: { label: 'Role-play turns', unit: 'role-play turns' },
+};
+
+// A limit per quota; null means unlimited.
+export const QuotaLimitsSchema = z.record(z.enum(QUOTA_KINDS), z.number().int().nonnegative().nullable());
+export type QuotaLimits = Record<QuotaKind, number | null>;
+
+// The limits that apply to a user: their role's, with any admin overrides on top.
+export type UserQuotaLimits = {
+    role: UserRole;
+    roleLimits: QuotaLimits;
+    overrides: Partial<QuotaLimits>;
+    limits: QuotaLimits;
+};
+
+// An amount counted against a quota, kept so it can be refunded if the work it paid for fails.
+export type QuotaCharge = {
+    kind: QuotaKind;
+    scope: string | null;
+    amount: number;
+    bucket: number; // Start of the hourly bucket it was counted in, in epoch milliseconds
+};
+
+export type QuotaExceeded = {
+    kind: QuotaKind;
+    limit: number;
+    // When enough of the window has passed for the request to fit; null if it never will (it's larger than the limit).
+    resetAt: string | null;
+};
+
+// The error shape of server actions that spend a quota.
+export type QuotaActionError = { error: string, quotaExceeded?: QuotaExceeded };
+
+export const describeQuotaExceeded = ({ kind, limit, resetAt }: QuotaExceeded) => {
+    const reached = `You've reached your limit of ${limit.toLocaleString()} ${QUOTA_LABELS[kind].unit} per ${QUOTA_WINDOW_HOURS} hours.`;
+    return resetAt
+        ? `${reached} You can continue after ${new Date(resetAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}.`
+        : `${reached} This request is larger than the limit; ask an administrator to raise it.`;
+};
+
+// The message to show for a failed action, with the reset time when it failed on a quota.
+export const describeActionError = (response: QuotaActionError) =>
+    response.quotaExceeded ? describeQuotaExceeded(response.quotaExceeded) : response.error;
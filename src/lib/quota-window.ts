@@ -0,0 +1,105 @@
+import { USER_ROLES, type UserRole } from '@/lib/auth-types';
+import {
+    QUOTA_WINDOW_HOURS,
+    QuotaLimitsSchema,
+    type QuotaKind,
+    type QuotaLimits,
+    type UserQuotaLimits,
+} from '@/lib/quota-types';
+
+/**
+ * The arithmetic behind quotas (src/lib/quotas.ts): which limits apply to a user, and how usage is
+ * counted in hourly buckets over the sliding window. Nothing here reads or writes Firestore.
+ */
+
+export const WINDOW_MS = QUOTA_WINDOW_HOURS * 60 * 60 * 1000;
+export const BUCKET_MS = 60 * 60 * 1000;
+
+// Override with QUOTA_LIMITS, e.g. {"user": {"documentAnalyses": 5}, "lawyer": {"ttsCharacters": null}}.
+const DEFAULT_LIMITS: Record<UserRole, QuotaLimits> = {
+    user: { documentAnalyses: 10, questionsPerDocument: 30, ttsCharacters: 20_000, rolePlayTurns: 100 },
+    lawyer: { documentAnalyses: 50, questionsPerDocument: 100, ttsCharacters: 100_000, rolePlayTurns: 300 },
+    paralegal: { documentAnalyses: 50, questionsPerDocument: 100, ttsCharacters: 100_000, rolePlayTurns: 300 },
+    firmAdmin: { documentAnalyses: 50, questionsPerDocument: 100, ttsCharacters: 100_000, rolePlayTurns: 300 },
+    admin: { documentAnalyses: null, questionsPerDocument: null, ttsCharacters: null, rolePlayTurns: null },
+};
+
+// The limits per role: the defaults, with whatever QUOTA_LIMITS (passed as `source`) changes on top.
+export function parseRoleLimits(source: string | undefined): Record<UserRole, QuotaLimits> {
+    try {
+        const configured = source ? JSON.parse(source) : {};
+        return Object.fromEntries(USER_ROLES.map(role => [
+            role,
+            { ...DEFAULT_LIMITS[role], ...QuotaLimitsSchema.parse(configured[role] ?? {}) },
+        ])) as Record<UserRole, QuotaLimits>;
+    } catch (e) {
+        throw new Error(`QUOTA_LIMITS is not a valid JSON object of limits per role: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+// A user's limits from their stored role and overrides. Unknown roles get the `user` limits, and
+// overrides that don't parse are ignored.
+export function resolveQuotaLimits(roleLimits: Record<UserRole, QuotaLimits>, storedRole: unknown, storedOverrides: unknown): UserQuotaLimits {
+    const role: UserRole = USER_ROLES.includes(storedRole as UserRole) ? storedRole as UserRole : 'user';
+    const parsedOverrides = QuotaLimitsSchema.safeParse(storedOverrides ?? {});
+    const overrides = parsedOverrides.success ? parsedOverrides.data : {};
+    return { role, roleLimits: roleLimits[role], overrides, limits: { ...roleLimits[role], ...overrides } };
+}
+
+// Questions are limited per document, so their counter is scoped to it.
+export const counterId = (userId: string, kind: QuotaKind, scope?: string | null) =>
+    [userId, kind, ...(scope ? [encodeURIComponent(scope)] : [])].join('_');
+
+export type Buckets = Record<string, number>; // Count per bucket, keyed by the bucket's start in epoch milliseconds
+
+export const liveBuckets = (buckets: Buckets, now: number) =>
+    Object.entries(buckets)
+        .map(([start, count]) => ({ start: Number(start), count }))
+        .filter(bucket => bucket.start > now - WINDOW_MS)
+        .sort((a, b) => a.start - b.start);
+
+export const usedInWindow = (buckets: Buckets, now: number) =>
+    liveBuckets(buckets, now).reduce((sum, bucket) => sum + bucket.count, 0);
+
+/**
+ * Adds `amount` to the current bucket, dropping buckets that have left the window. If that would go
+ * over `limit`, returns when the request would fit instead: once enough of the oldest buckets have
+ * left the window, or null if it never will.
+ */
+export function addToWindow(buckets: Buckets, now: number, amount: number, limit: number):
+    { buckets: Buckets, bucket: number } | { exceeded: true, resetAt: number | null } {
+    const live = liveBuckets(buckets, now);
+    const used = live.reduce((sum, bucket) => sum + bucket.count, 0);
+
+    if (used + amount > limit) {
+        let resetAt: number | null = null;
+        if (amount <= limit) {
+            let remaining = used;
+            for (const bucket of live) {
+                remaining -= bucket.count;
+                if (remaining + amount <= limit) {
+                    resetAt = bucket.start + WINDOW_MS;
+                    break;
+                }
+            }
+        }
+        return { exceeded: true, resetAt };
+    }
+
+    const current = now - now % BUCKET_MS;
+    const next: Buckets = Object.fromEntries(live.map(bucket => [bucket.start, bucket.count]));
+    next[current] = (next[current] ?? 0) + amount;
+    return { buckets: next, bucket: current };
+}
+
+// Takes `amount` back off the bucket it was added to.
+export function removeFromBucket(buckets: Buckets, bucket: number, amount: number): Buckets {
+    const next = { ...buckets };
+    const remaining = (next[bucket] ?? 0) - amount;
+    if (remaining > 0) {
+        next[bucket] = remaining;
+    } else {
+        delete next[bucket];
+    }
+    return next;
+}
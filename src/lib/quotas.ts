@@ -0,0 +1,127 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '@/lib/firebase-admin';
+import { getUserRole } from '@/lib/roles';
+import type { UserRole } from '@/lib/auth-types';
+import {
+    QUOTA_KINDS,
+    QUOTA_LABELS,
+    QUOTA_WINDOW_HOURS,
+    QuotaLimitsSchema,
+    type QuotaActionError,
+    type QuotaCharge,
+    type QuotaExceeded,
+    type QuotaKind,
+    type QuotaLimits,
+    type UserQuotaLimits,
+} from '@/lib/quota-types';
+import { addToWindow, counterId, parseRoleLimits, removeFromBucket, resolveQuotaLimits, usedInWindow, type Buckets } from '@/lib/quota-window';
+
+/**
+ * Per-user limits on the server actions that call paid models. Each quota is counted over a sliding
+ * 24-hour window, kept server-side in `quotaCounters` as hourly buckets, so the window slides an hour
+ * at a time. Limits come from the user's role, with admin overrides per user in `quotaOverrides/{uid}`.
+ * Work that fails is refunded: by the action for direct model calls, and by `failTask` for tasks.
+ */
+
+let roleLimits: Record<UserRole, QuotaLimits> | undefined;
+
+// Parsed on first use rather than on import, so a bad QUOTA_LIMITS only breaks the actions that check quotas.
+const configuredLimits = (): Record<UserRole, QuotaLimits> => {
+    roleLimits ??= parseRoleLimits(process.env.QUOTA_LIMITS);
+    return roleLimits;
+};
+
+export class QuotaExceededError extends Error {
+    constructor(readonly details: QuotaExceeded) {
+        super(`Quota exceeded: ${QUOTA_LABELS[details.kind].label} (limit ${details.limit} per ${QUOTA_WINDOW_HOURS} hours).`);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+// The error a server action returns for a failed quota check, or null if `e` is some other error.
+export const quotaActionError = (e: unknown): QuotaActionError | null =>
+    e instanceof QuotaExceededError ? { error: e.message, quotaExceeded: e.details } : null;
+
+export async function getQuotaLimits(userId: string): Promise<UserQuotaLimits> {
+    const [role, overridesSnap] = await Promise.all([
+        getUserRole(userId),
+        db.collection('quotaOverrides').doc(userId).get(),
+    ]);
+    return resolveQuotaLimits(configuredLimits(), role, overridesSnap.data()?.limits);
+}
+
+// Replaces a user's overrides. Quotas left out go back to the role's limit; null makes one unlimited.
+export async function setQuotaOverrides(userId: string, overrides: Partial<QuotaLimits>, updatedBy: string) {
+    await db.collection('quotaOverrides').doc(userId).set({
+        limits: QuotaLimitsSchema.parse(overrides),
+        updatedBy,
+        updatedAt: FieldValue.serverTimestamp(),
+    });
+}
+
+const counterRef = (userId: string, kind: QuotaKind, scope?: string | null) =>
+    db.collection('quotaCounters').doc(counterId(userId, kind, scope));
+
+/**
+ * Counts `amount` against a quota, or throws QuotaExceededError without counting anything if it
+ * would go over the limit. Returns what was counted, for `refundQuota`, or null for an unlimited quota.
+ */
+export async function consumeQuota(userId: string, kind: QuotaKind, amount = 1, scope?: string): Promise<QuotaCharge | null> {
+    const limit = (await getQuotaLimits(userId)).limits[kind];
+    if (limit === null) {
+        return null;
+    }
+
+    const ref = counterRef(userId, kind, scope);
+    return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const added = addToWindow((snap.data()?.buckets ?? {}) as Buckets, Date.now(), amount, limit);
+        if ('exceeded' in added) {
+            throw new QuotaExceededError({ kind, limit, resetAt: added.resetAt === null ? null : new Date(added.resetAt).toISOString() });
+        }
+        tx.set(ref, { userId, kind, scope: scope ?? null, buckets: added.buckets, updatedAt: FieldValue.serverTimestamp() });
+        return { kind, scope: scope ?? null, amount, bucket: added.bucket };
+    });
+}
+
+// Takes a charge back off its quota, for work that couldn't be done.
+export async function refundQuota(userId: string, charge: QuotaCharge | null) {
+    if (!charge) {
+        return;
+    }
+    const ref = counterRef(userId, charge.kind, charge.scope);
+    await db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const buckets = removeFromBucket((snap.data()?.buckets ?? {}) as Buckets, charge.bucket, charge.amount);
+        tx.set(ref, { buckets, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+    });
+}
+
+/**
+ * Runs a direct model call against a quota: counts `amount` first, and refunds it if the call throws or
+ * returns an error, so users aren't charged for answers they didn't get.
+ */
+export async function withQuota<T>(userId: string, kind: QuotaKind, amount: number, work: () => Promise<T>): Promise<T> {
+    const charge = await consumeQuota(userId, kind, amount);
+    let failed = true;
+    try {
+        const result = await work();
+        failed = typeof result === 'object' && result !== null && 'error' in result;
+        return result;
+    } finally {
+        if (failed) {
+            await refundQuota(userId, charge).catch(e => console.error('Error refunding quota:', e));
+        }
+    }
+}
+
+// How much of each quota a user has used in the current window. Per-document quotas aren't totalled.
+export async function getQuotaUsage(userId: string): Promise<Partial<Record<QuotaKind, number>>> {
+    const now = Date.now();
+    const kinds = QUOTA_KINDS.filter(kind => kind !== 'questionsPerDocument');
+    const snaps = await Promise.all(kinds.map(kind => counterRef(userId, kind).get()));
+    return Object.fromEntries(kinds.map((kind, i) => [
+        kind,
+        usedInWindow((snaps[i].data()?.buckets ?? {}) as Buckets, now),
+    ]));
+}
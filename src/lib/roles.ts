@@ -0,0 +1,49 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { auth, db } from '@/lib/firebase-admin';
+import { accessFromClaims, roleNeedsFirm, type Access, type UserRole } from '@/lib/auth-types';
+
+/**
+ * A user's role, and the firm they belong to if any, are the `role` and `firmId` custom claims on their
+ * Firebase account, so they're carried in their ID token and only the Admin SDK can change them. The
+ * `role` and `firmId` on their `users` doc are copies for queries, display and security rules, kept in
+ * sync here.
+ *
+ * Changing either also sets `claimsUpdatedAt` on the doc. Signed-in clients watch it and refresh their
+ * token to pick up the new claims (see src/hooks/use-auth.tsx), and `authorize` rejects tokens issued
+ * before it, so an old role can't be used until the token expires.
+ */
+
+export async function getUserAccess(uid: string): Promise<Access> {
+    return { uid, ...accessFromClaims((await auth.getUser(uid)).customClaims ?? {}) };
+}
+
+export async function getUserRole(uid: string): Promise<UserRole> {
+    return (await getUserAccess(uid)).role;
+}
+
+export async function hasAssignedRole(uid: string): Promise<boolean> {
+    return (await auth.getUser(uid)).customClaims?.role !== undefined;
+}
+
+// How long after creating an account the signup page may still pick its role.
+const SIGNUP_WINDOW_MS = 10 * 60 * 1000;
+
+export async function isNewAccount(uid: string): Promise<boolean> {
+    const { metadata } = await auth.getUser(uid);
+    return Date.now() - Date.parse(metadata.creationTime) <= SIGNUP_WINDOW_MS;
+}
+
+// Throws if `role` needs a firm and none is given. A user's firm is dropped when `firmId` is left out.
+export async function setUserRole(uid: string, role: UserRole, firmId?: string) {
+    if (roleNeedsFirm(role) && !firmId) {
+        throw new Error('Paralegals and firm admins must belong to a firm.');
+    }
+    const claims: { [key: string]: unknown } = { ...(await auth.getUser(uid)).customClaims, role };
+    delete claims.firmId;
+    await auth.setCustomUserClaims(uid, { ...claims, ...(firmId && { firmId }) });
+    await db.collection('users').doc(uid).set({
+        role,
+        firmId: firmId || FieldValue.delete(),
+        claimsUpdatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+}
@@ -0,0 +1,57 @@
+import { readDocument, sha256Hex } from '@/lib/document-storage';
+import { isOwnDocumentPath, ScannedPagesManifestSchema } from '@/lib/documents';
+import { storage } from '@/lib/firebase-admin';
+import { getOcrEngine, recognizePages, type RecognizedDocument } from '@/lib/ocr';
+
+// OCR output is stored next to the manifest so follow-up questions don't re-read every page. The path names
+// the engine and its version, so switching OCR_ENGINE or upgrading Tesseract re-reads the pages.
+const ocrCachePath = (manifestPath: string, engine: string, version: string) =>
+    `${manifestPath}.ocr.${`${engine}-${version}`.replace(/[^a-zA-Z0-9.+-]/g, '_')}.json`;
+
+/**
+ * Lists the page images a scanned-pages manifest points at. Each page is checked to belong to the
+ * user, and to still match the hash recorded in the manifest when it is loaded.
+ */
+function parseScannedPages(userId: string, manifestBytes: Buffer) {
+    let manifest;
+    try {
+        manifest = ScannedPagesManifestSchema.parse(JSON.parse(manifestBytes.toString('utf-8')));
+    } catch {
+        throw new Error('The scanned document manifest is invalid.');
+    }
+
+    return manifest.pages.map((page, index) => {
+        if (!isOwnDocumentPath(userId, page.storagePath)) {
+            throw new Error(`Page ${index + 1} does not belong to this user.`);
+        }
+        return {
+            mimeType: page.mimeType,
+            load: async () => {
+                const bytes = await readDocument(page.storagePath);
+                if (sha256Hex(bytes) !== page.contentHash) {
+                    throw new Error(`Page ${index + 1} does not match its content hash.`);
+                }
+                return bytes;
+            },
+        };
+    });
+}
+
+// Returns the page-ordered OCR text and per-page confidence for a scanned document, reusing an earlier run if there is one.
+export async function recognizeScannedDocument(userId: string, manifestPath: string, manifestBytes: Buffer): Promise<RecognizedDocument> {
+    const engine = getOcrEngine();
+    const cacheFile = storage.bucket().file(ocrCachePath(manifestPath, engine.name, await engine.version()));
+    const [cached] = await cacheFile.exists();
+    if (cached) {
+        const [contents] = await cacheFile.download();
+        return JSON.parse(contents.toString('utf-8')) as RecognizedDocument;
+    }
+
+    const recognized = await recognizePages(parseScannedPages(userId, manifestBytes));
+    try {
+        await cacheFile.save(JSON.stringify(recognized), { metadata: { contentType: 'application/json' } });
+    } catch (e) {
+        console.error('Failed to cache OCR output:', e);
+    }
+    return recognized;
+}
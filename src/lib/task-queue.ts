@@ -0,0 +1,334 @@
+import { randomUUID } from 'crypto';
+import { FieldValue, Timestamp, type DocumentReference, type Transaction } from 'firebase-admin/firestore';
+import { db } from '@/lib/firebase-admin';
+import type { QuotaCharge } from '@/lib/quota-types';
+import { refundQuota } from '@/lib/quotas';
+import { backoffDelayMs, isTransientError } from '@/lib/task-retry';
+import { isTerminalTaskStatus, type TaskStageStatus, type TaskStatus } from '@/lib/task-types';
+import type { TaskStageDefinition } from '@/lib/tasks';
+
+/**
+ * Durable task queue backed by Firestore.
+ *
+ * The user-facing task document lives at `users/{uid}/tasks/{taskId}` (this is what `useTask` listens to).
+ * Alongside it, a queue entry at `taskQueue/{taskId}` tracks scheduling state. A worker claims an entry by
+ * pushing its `availableAt` forward by the lease duration, so a worker that crashes mid-task simply lets the
+ * lease run out and the entry becomes claimable again without any separate recovery sweep.
+ */
+
+const QUEUE_COLLECTION = 'taskQueue';
+const DEAD_LETTER_COLLECTION = 'taskDeadLetters';
+
+export const DEFAULT_MAX_ATTEMPTS = Number(process.env.TASK_MAX_ATTEMPTS ?? 5);
+export const LEASE_DURATION_MS = Number(process.env.TASK_LEASE_MS ?? 2 * 60 * 1000);
+
+type QueueEntry = {
+    userId: string;
+    taskId: string;
+    type: string;
+    attempts: number;
+    maxAttempts: number;
+    availableAt: Timestamp;
+    leaseId: string | null;
+    leaseOwner: string | null;
+    // What creating the task counted against the user's quota, refunded if the task fails.
+    quota?: QuotaCharge | null;
+};
+
+// Thrown from a task handler once it notices the user cancelled the task.
+export class TaskCancelledError extends Error {
+    constructor(taskId: string) {
+        super(`Task ${taskId} was cancelled.`);
+        this.name = 'TaskCancelledError';
+    }
+}
+
+// Thrown from a task handler once its worker has lost the lease, so another worker may be running the task.
+export class TaskLeaseLostError extends Error {
+    constructor(taskId: string) {
+        super(`Lost the lease on task ${taskId}.`);
+        this.name = 'TaskLeaseLostError';
+    }
+}
+
+// A task that a worker currently holds the lease for.
+export type LeasedTask = {
+    taskId: string;
+    userId: string;
+    type: string;
+    payload: unknown;
+    attempt: number;
+    maxAttempts: number;
+    leaseId: string;
+    quota: QuotaCharge | null;
+};
+
+const taskRef = (userId: string, taskId: string) =>
+    db.collection('users').doc(userId).collection('tasks').doc(taskId);
+
+const queueRef = (taskId: string) => db.collection(QUEUE_COLLECTION).doc(taskId);
+
+type StageRecord = TaskStageDefinition & {
+    status: TaskStageStatus;
+    startedAt?: Timestamp;
+    completedAt?: Timestamp;
+};
+
+const pendingStages = (stages: TaskStageDefinition[] = []): StageRecord[] =>
+    stages.map(({ key, label }) => ({ key, label, status: 'pending' }));
+
+export async function enqueueTask(userId: string, type: string, payload: unknown, options: { maxAttempts?: number, stages?: TaskStageDefinition[], quota?: QuotaCharge | null } = {}): Promise<string> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const ref = db.collection('users').doc(userId).collection('tasks').doc();
+
+    const batch = db.batch();
+    batch.set(ref, {
+        type,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts,
+        stages: pendingStages(options.stages),
+        progress: 0,
+        createdAt: FieldValue.serverTimestamp(),
+    });
+    batch.set(queueRef(ref.id), {
+        userId,
+        taskId: ref.id,
+        type,
+        attempts: 0,
+        maxAttempts,
+        availableAt: Timestamp.now(),
+        leaseId: null,
+        leaseOwner: null,
+        quota: options.quota ?? null,
+        enqueuedAt: FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+
+    return ref.id;
+}
+
+/**
+ * Claims up to `limit` tasks whose `availableAt` has passed. Each claim runs in its own transaction,
+ * so two workers racing for the same entry cannot both win it.
+ */
+export async function claimTasks(workerId: string, limit: number): Promise<LeasedTask[]> {
+    const candidates = await db.collection(QUEUE_COLLECTION)
+        .where('availableAt', '<=', Timestamp.now())
+        .orderBy('availableAt')
+        .limit(limit)
+        .get();
+
+    const claimed: LeasedTask[] = [];
+    for (const candidate of candidates.docs) {
+        const leased = await db.runTransaction(async (tx) => {
+            const entrySnap = await tx.get(candidate.ref);
+            if (!entrySnap.exists) return null;
+
+            const entry = entrySnap.data() as QueueEntry;
+            if (entry.availableAt.toMillis() > Date.now()) {
+                return null; // Another worker got here first
+            }
+
+            const taskSnap = await tx.get(taskRef(entry.userId, entry.taskId));
+            if (!taskSnap.exists || taskSnap.data()?.status === 'cancelled') {
+                // The task was deleted or cancelled out from under us; drop the orphaned queue entry.
+                tx.delete(candidate.ref);
+                return null;
+            }
+
+            const attempt = entry.attempts + 1;
+            const leaseId = randomUUID();
+            tx.update(candidate.ref, {
+                attempts: attempt,
+                leaseId,
+                leaseOwner: workerId,
+                availableAt: Timestamp.fromMillis(Date.now() + LEASE_DURATION_MS),
+            });
+            tx.update(taskSnap.ref, {
+                status: 'processing',
+                attempts: attempt,
+                startedAt: FieldValue.serverTimestamp(),
+            });
+
+            return {
+                taskId: entry.taskId,
+                userId: entry.userId,
+                type: entry.type,
+                payload: taskSnap.data()?.payload,
+                attempt,
+                maxAttempts: entry.maxAttempts,
+                leaseId,
+                quota: entry.quota ?? null,
+            };
+        });
+
+        if (leased) claimed.push(leased);
+    }
+    return claimed;
+}
+
+// Runs `fn` against the queue entry only if `task` still holds the lease on it.
+const withLease = async (task: LeasedTask, fn: (tx: Transaction, ref: DocumentReference) => void): Promise<boolean> => {
+    return db.runTransaction(async (tx) => {
+        const ref = queueRef(task.taskId);
+        const snap = await tx.get(ref);
+        if (!snap.exists || (snap.data() as QueueEntry).leaseId !== task.leaseId) {
+            return false;
+        }
+        fn(tx, ref);
+        return true;
+    });
+};
+
+// Pushes the lease forward for long-running tasks. Returns false if the lease was lost.
+export async function renewLease(task: LeasedTask): Promise<boolean> {
+    return withLease(task, (tx, ref) => {
+        tx.update(ref, { availableAt: Timestamp.fromMillis(Date.now() + LEASE_DURATION_MS) });
+    });
+}
+
+export async function completeTask(task: LeasedTask, result: unknown): Promise<boolean> {
+    return withLease(task, (tx, ref) => {
+        tx.delete(ref);
+        tx.update(taskRef(task.userId, task.taskId), {
+            status: 'completed',
+            result,
+            completedAt: FieldValue.serverTimestamp(),
+        });
+    });
+}
+
+/**
+ * Records a failed attempt. Transient errors are rescheduled with exponential backoff until
+ * `maxAttempts` is reached, after which the task is moved to the dead-letter collection.
+ * Any other error fails the task immediately. A task that ends either way gets its quota refunded.
+ */
+export async function failTask(task: LeasedTask, error: unknown): Promise<boolean> {
+    const message = error instanceof Error ? error.message : String(error);
+    const transient = isTransientError(error);
+    const retrying = transient && task.attempt < task.maxAttempts;
+
+    const held = await withLease(task, (tx, ref) => {
+        const userTaskRef = taskRef(task.userId, task.taskId);
+
+        if (retrying) {
+            const nextAttemptAt = Timestamp.fromMillis(Date.now() + backoffDelayMs(task.attempt));
+            tx.update(ref, { availableAt: nextAttemptAt, leaseId: null, leaseOwner: null, lastError: message });
+            tx.update(userTaskRef, { status: 'retrying', lastError: message, nextAttemptAt });
+            return;
+        }
+
+        tx.delete(ref);
+        if (transient) {
+            tx.set(db.collection(DEAD_LETTER_COLLECTION).doc(task.taskId), {
+                userId: task.userId,
+                taskId: task.taskId,
+                type: task.type,
+                attempts: task.attempt,
+                error: message,
+                deadLetteredAt: FieldValue.serverTimestamp(),
+            });
+            tx.update(userTaskRef, {
+                status: 'dead_letter',
+                error: `Gave up after ${task.attempt} attempts. ${message}`,
+                completedAt: FieldValue.serverTimestamp(),
+            });
+        } else {
+            tx.update(userTaskRef, { status: 'failed', error: message, completedAt: FieldValue.serverTimestamp() });
+        }
+    });
+
+    if (held && !retrying) {
+        await refundQuota(task.userId, task.quota).catch(e => console.error(`Failed to refund the quota of task ${task.taskId}:`, e));
+    }
+    return held;
+}
+
+/**
+ * Cancels a task that hasn't finished yet. The queue entry is removed straight away, so a pending task
+ * is never claimed and a running one loses its lease and can't complete. Handlers also call
+ * `throwIfCancelled` between stages so they stop before doing further work or writing history.
+ * Returns false if the task had already finished.
+ */
+export async function cancelQueuedTask(userId: string, taskId: string): Promise<boolean> {
+    return db.runTransaction(async (tx) => {
+        const ref = taskRef(userId, taskId);
+        const snap = await tx.get(ref);
+        if (!snap.exists) {
+            throw new Error('Task not found.');
+        }
+        if (isTerminalTaskStatus(snap.data()?.status as TaskStatus)) {
+            return false;
+        }
+
+        tx.delete(queueRef(taskId));
+        tx.update(ref, { status: 'cancelled', completedAt: FieldValue.serverTimestamp() });
+        return true;
+    });
+}
+
+export async function throwIfCancelled(task: Pick<LeasedTask, 'userId' | 'taskId'>): Promise<void> {
+    const snap = await taskRef(task.userId, task.taskId).get();
+    if (!snap.exists || snap.data()?.status === 'cancelled') {
+        throw new TaskCancelledError(task.taskId);
+    }
+}
+
+export type StageReporter = {
+    start: (key: string) => Promise<void>;
+    skip: (key: string) => Promise<void>;
+    finish: () => Promise<void>;
+};
+
+/**
+ * Tracks a task's stages for one attempt and writes them, with an overall percentage, to the task doc.
+ * Each attempt starts from a clean list so a retry doesn't show stale timings.
+ * Timestamps come from the worker's clock because server timestamps aren't allowed inside arrays.
+ */
+export function createStageReporter(task: Pick<LeasedTask, 'userId' | 'taskId'>, definitions: TaskStageDefinition[] = []): StageReporter {
+    const stages = pendingStages(definitions);
+
+    const find = (key: string) => {
+        const stage = stages.find(s => s.key === key);
+        if (!stage) throw new Error(`Unknown stage '${key}' for task ${task.taskId}.`);
+        return stage;
+    };
+
+    const completeRunning = () => {
+        for (const stage of stages) {
+            if (stage.status === 'running') {
+                stage.status = 'completed';
+                stage.completedAt = Timestamp.now();
+            }
+        }
+    };
+
+    const write = () => {
+        const done = stages.filter(s => s.status === 'completed' || s.status === 'skipped').length;
+        const progress = stages.length ? Math.round((done / stages.length) * 100) : 0;
+        return taskRef(task.userId, task.taskId).update({ stages, progress });
+    };
+
+    return {
+        start: async (key) => {
+            const stage = find(key);
+            completeRunning();
+            stage.status = 'running';
+            stage.startedAt = Timestamp.now();
+            await write();
+        },
+        skip: async (key) => {
+            const stage = find(key);
+            completeRunning();
+            stage.status = 'skipped';
+            await write();
+        },
+        finish: async () => {
+            if (!stages.length) return;
+            completeRunning();
+            await write();
+        },
+    };
+}
@@ -0,0 +1,21 @@
+/**
+ * Retry policy for the task queue. Kept free of Firestore so it can be unit-tested on its own.
+ */
+
+const BASE_BACKOFF_MS = Number(process.env.TASK_BACKOFF_MS ?? 2000);
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// Errors worth retrying: rate limits, overloaded or unreachable model endpoints, timeouts.
+// Anything else, including schema validation errors, fails the task on the first attempt.
+const TRANSIENT_ERROR_PATTERN = /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|rate limit|timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|fetch failed|socket hang up/i;
+
+export const isTransientError = (error: unknown): boolean => {
+    const message = error instanceof Error ? error.message : String(error);
+    return TRANSIENT_ERROR_PATTERN.test(message);
+};
+
+// Exponential backoff with jitter: attempt 1 waits BASE/2..BASE, attempt 2 waits BASE..2*BASE, and so on.
+export const backoffDelayMs = (attempt: number) => {
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
@@ -0,0 +1,43 @@
+// Shared task lifecycle types. Safe to import from both client and server code.
+
+import type { TaskInput, TaskOutput, TaskType } from '@/lib/tasks';
+
+export type TaskStatus =
+    | 'pending'      // Queued, waiting for a worker to claim it
+    | 'processing'   // Leased by a worker
+    | 'retrying'     // A transient failure occurred, waiting for the backoff to elapse
+    | 'completed'
+    | 'failed'       // Permanent failure, will not be retried
+    | 'dead_letter'  // Transient failures exhausted every attempt
+    | 'cancelled';   // Stopped by the user; no result or history record is written
+
+export const TERMINAL_TASK_STATUSES: TaskStatus[] = ['completed', 'failed', 'dead_letter', 'cancelled'];
+
+export const isTerminalTaskStatus = (status: TaskStatus) => TERMINAL_TASK_STATUSES.includes(status);
+
+export type TaskStageStatus = 'pending' | 'running' | 'completed' | 'skipped';
+
+// One named step of a task's pipeline, as written to the task document by the worker.
+export type TaskStage = {
+    key: string;
+    label: string;
+    status: TaskStageStatus;
+    startedAt?: { toDate: () => Date };
+    completedAt?: { toDate: () => Date };
+};
+
+export type TaskDoc<T extends TaskType = TaskType> = {
+    type: T;
+    payload: TaskInput<T>;
+    status: TaskStatus;
+    attempts: number;
+    maxAttempts: number;
+    result?: TaskOutput<T>;
+    stages?: TaskStage[];
+    progress?: number; // 0-100, derived from the completed stages
+    error?: string;
+    lastError?: string;
+    nextAttemptAt?: { toDate: () => Date };
+    createdAt?: { toDate: () => Date };
+    completedAt?: { toDate: () => Date };
+};
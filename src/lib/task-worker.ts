@@ -0,0 +1,126 @@
+import { hostname } from 'os';
+import { claimTasks, completeTask, createStageReporter, failTask, renewLease, throwIfCancelled, LEASE_DURATION_MS, TaskCancelledError, TaskLeaseLostError, type LeasedTask } from '@/lib/task-queue';
+import { getTaskDefinition } from '@/lib/tasks';
+import { withUsageAttribution } from '@/lib/usage';
+
+export type TaskWorkerOptions = {
+    workerId?: string;
+    concurrency?: number;
+    pollIntervalMs?: number;
+};
+
+export type TaskWorker = {
+    workerId: string;
+    stop: () => Promise<void>;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function runTask(task: LeasedTask, workerId: string) {
+    const definition = getTaskDefinition(task.type);
+
+    // Keep the lease alive while the handler runs so slow model calls aren't picked up twice. Once it's lost,
+    // another worker may have claimed the task, so the handler is stopped at its next check.
+    let leaseLost = false;
+    const heartbeat = setInterval(() => {
+        renewLease(task).then((held) => {
+            if (!held && !leaseLost) {
+                leaseLost = true;
+                clearInterval(heartbeat);
+                console.warn(`[${workerId}] Lost lease on task ${task.taskId}; stopping at the next check.`);
+            }
+        }).catch((e) => console.error(`[${workerId}] Failed to renew lease on task ${task.taskId}:`, e));
+    }, LEASE_DURATION_MS / 3);
+
+    const throwIfStopped = async () => {
+        await throwIfCancelled(task);
+        if (leaseLost) {
+            throw new TaskLeaseLostError(task.taskId);
+        }
+    };
+
+    try {
+        if (!definition) {
+            throw new Error(`Unknown task type '${task.type}'.`);
+        }
+        const input = definition.input.parse(task.payload);
+        const stages = createStageReporter(task, definition.stages);
+        // Model calls made by the handler are accounted to the task and its user.
+        const output = await withUsageAttribution({ userId: task.userId, taskId: task.taskId }, () => definition.handler(input, {
+            userId: task.userId,
+            taskId: task.taskId,
+            attempt: task.attempt,
+            throwIfCancelled: throwIfStopped,
+            startStage: async (key) => {
+                await throwIfStopped();
+                await stages.start(key);
+            },
+            skipStage: (key) => stages.skip(key),
+        }));
+        const result = definition.output.parse(output);
+        await stages.finish();
+        if (!await completeTask(task, result)) {
+            console.warn(`[${workerId}] Task ${task.taskId} finished after its lease was lost; result discarded.`);
+        }
+    } catch (e) {
+        if (e instanceof TaskCancelledError) {
+            // cancelQueuedTask already removed the queue entry and marked the task.
+            return;
+        }
+        if (e instanceof TaskLeaseLostError) {
+            // Whoever holds the lease now owns the task; recording a failure here could clobber their run.
+            return;
+        }
+        console.error(`[${workerId}] Error processing ${task.type} task ${task.taskId} (attempt ${task.attempt}/${task.maxAttempts}):`, e);
+        try {
+            await failTask(task, e);
+        } catch (failError) {
+            // Left to the lease: once it runs out the task is claimed and retried like after a crash.
+            console.error(`[${workerId}] Failed to record the failure of task ${task.taskId}; it will be retried when its lease expires:`, failError);
+        }
+    } finally {
+        clearInterval(heartbeat);
+    }
+}
+
+/**
+ * Starts a polling worker that claims and runs queued tasks until `stop()` is called.
+ * `stop()` stops claiming new work and resolves once in-flight tasks have settled.
+ */
+export function startTaskWorker(options: TaskWorkerOptions = {}): TaskWorker {
+    const workerId = options.workerId ?? `${hostname()}-${process.pid}`;
+    const concurrency = options.concurrency ?? Number(process.env.TASK_WORKER_CONCURRENCY ?? 2);
+    const pollIntervalMs = options.pollIntervalMs ?? Number(process.env.TASK_WORKER_POLL_MS ?? 2000);
+
+    const inFlight = new Set<Promise<void>>();
+    let running = true;
+
+    const loop = async () => {
+        while (running) {
+            const capacity = concurrency - inFlight.size;
+            if (capacity > 0) {
+                try {
+                    const tasks = await claimTasks(workerId, capacity);
+                    for (const task of tasks) {
+                        const run = runTask(task, workerId).finally(() => inFlight.delete(run));
+                        inFlight.add(run);
+                    }
+                } catch (e) {
+                    console.error(`[${workerId}] Failed to claim tasks:`, e);
+                }
+            }
+            await sleep(pollIntervalMs);
+        }
+    };
+
+    const loopDone = loop();
+
+    return {
+        workerId,
+        stop: async () => {
+            running = false;
+            await loopDone;
+            await Promise.allSettled(inFlight);
+        },
+    };
+}
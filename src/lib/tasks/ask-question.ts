@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { askDocumentQuestion } from '@/ai/flows/ask-document-question';
+import { AskDocumentQuestionOutputSchema } from '@/ai/schemas/ask-document-question';
+import { SourceCheckSchema, TextAnchorSchema } from '@/lib/anchor-types';
+import { checkSources } from '@/lib/anchors';
+import { loadConversationContext, saveConversationExchange, type ConversationContext } from '@/lib/conversations';
+import { buildDocumentIndex, loadDocumentIndex, renderPassages, retrievePassages } from '@/lib/document-index';
+import { readDocument } from '@/lib/document-storage';
+import { extractDocumentText, modelInputFor } from '@/lib/document-text';
+import { isOwnDocumentPath, StoredDocumentSchema } from '@/lib/documents';
+import { defineTask } from './define-task';
+
+export const askQuestionTask = defineTask({
+    input: StoredDocumentSchema.pick({ storagePath: true, mimeType: true }).extend({
+        question: z.string().min(1),
+        // The analysis the question is about, whose retrieval index and conversation are reused. Without it
+        // the document is indexed for this question only, and the question is asked without earlier turns.
+        historyId: z.string().min(1).optional(),
+    }),
+    output: AskDocumentQuestionOutputSchema.extend({
+        // Where each of `sources` was found in the canonical text; null if it couldn't be located.
+        sourceAnchors: z.array(TextAnchorSchema.nullable()),
+        // Whether each of `sources` is really in the document. Missing on answers from before sources were checked.
+        sourceChecks: z.array(SourceCheckSchema).optional(),
+        // The model's own confidence, before `confidenceScore` was lowered for sources that couldn't be found.
+        modelConfidenceScore: z.number().optional(),
+        // The passages retrieved for the question and sent to the model. Missing when the document has no
+        // extracted text and the whole file was sent, and on answers from before retrieval.
+        passageAnchors: z.array(TextAnchorSchema).optional(),
+    }),
+    quota: payload => ({ kind: 'questionsPerDocument', scope: payload.storagePath }),
+    handler: async (payload, { userId, taskId, throwIfCancelled }) => {
+        if (!isOwnDocumentPath(userId, payload.storagePath)) {
+            throw new Error('The document does not belong to this user.');
+        }
+        const fileBytes = await readDocument(payload.storagePath);
+        const { canonical } = await extractDocumentText(userId, payload.storagePath, payload.mimeType, fileBytes);
+
+        const conversation: ConversationContext = payload.historyId
+            ? await loadConversationContext(userId, payload.historyId, payload.storagePath)
+            : { history: [] };
+
+        // Questions are answered from the passages closest to them. A PDF without a text layer has nothing
+        // to retrieve from, so the model is given the whole file instead. A follow-up ("and after 6 months?")
+        // is retrieved together with the question before it, which says what it is about.
+        let passageAnchors;
+        if (canonical.text) {
+            const index = payload.historyId
+                ? await loadDocumentIndex(userId, payload.historyId, canonical, payload.storagePath)
+                : await buildDocumentIndex(canonical, payload.storagePath);
+            const previousQuestion = conversation.history.findLast(turn => turn.role === 'user')?.content;
+            passageAnchors = await retrievePassages(canonical, index, previousQuestion ? `${previousQuestion}\n${payload.question}` : payload.question);
+        }
+
+        await throwIfCancelled();
+        const result = await askDocumentQuestion({
+            ...(passageAnchors
+                ? { passages: renderPassages(canonical, passageAnchors) }
+                : modelInputFor(fileBytes, payload.mimeType, canonical, 'askQuestion')),
+            question: payload.question,
+            ...conversation,
+        });
+
+        if ('error' in result) {
+            throw new Error(result.error);
+        }
+
+        // The model is asked for verbatim quotes, so a source that isn't in the document was made up.
+        // Each one takes its share of the confidence with it.
+        const { anchors, checks } = checkSources(canonical, result.sources);
+        const unverified = checks.filter(check => check === 'unverified').length;
+        const confidenceScore = unverified
+            ? Math.round(result.confidenceScore * (1 - unverified / result.sources.length))
+            : result.confidenceScore;
+
+        const answer = {
+            ...result,
+            confidenceScore,
+            modelConfidenceScore: result.confidenceScore,
+            sourceAnchors: anchors,
+            sourceChecks: checks,
+            ...(passageAnchors && { passageAnchors }),
+        };
+
+        // The exchange is stored before the task completes, so an answer the chat shows is never missing from
+        // the next question's context. If the write fails the task does too, and a retry overwrites the same exchange.
+        if (payload.historyId) {
+            await saveConversationExchange(userId, payload.historyId, taskId, payload.question, answer);
+        }
+        return answer;
+    },
+});
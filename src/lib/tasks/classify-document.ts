@@ -0,0 +1,227 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { classifyDocument } from '@/ai/flows/classify-uploaded-document';
+import { configuredModel } from '@/ai/genkit';
+import { ClassifyDocumentResultSchema, type ClassifyDocumentResult } from '@/ai/schemas/classify-document';
+import { ClassificationAnchorsSchema } from '@/lib/anchor-types';
+import { anchorClassification } from '@/lib/anchors';
+import { AnalysisCoverageSchema, chunkDocument, isLongDocument, singlePassCoverage, type AnalysisCoverage } from '@/lib/document-chunks';
+import { buildDocumentIndex, saveDocumentIndex } from '@/lib/document-index';
+import { readDocument, sha256Hex } from '@/lib/document-storage';
+import { extractDocumentText, modelInputFor } from '@/lib/document-text';
+import { DOCUMENT_FILE_TYPES, isOwnDocumentPath, MIN_PASTED_TEXT_LENGTH, SCANNED_PAGES_MIME_TYPE, StoredDocumentSchema } from '@/lib/documents';
+import { db } from '@/lib/firebase-admin';
+import { analyzeChunks, combineAnalyses } from '@/lib/long-documents';
+import { OcrPageSchema } from '@/lib/ocr';
+import { defineTask } from './define-task';
+
+// Identifies the model and prompt that produced an analysis. The model comes from the flow config, read
+// when it's needed rather than at import so a bad model setting fails the task instead of the module;
+// bump the prompt version whenever the prompt changes so re-uploads of a previously analyzed file
+// are analyzed afresh instead of served from history.
+export const analysisVersion = () => `${configuredModel('classify')}/v3`;
+
+const RecommendedLawyerSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    specialty: z.string(),
+    location: z.string(),
+    contact: z.string(),
+    costPerHearing: z.number(),
+});
+
+// The model's analysis plus what the handler adds from Firestore.
+const ClassifyDocumentTaskOutputSchema = ClassifyDocumentResultSchema.extend({
+    // Missing on analyses made before schema repair.
+    degradedSections: ClassifyDocumentResultSchema.shape.degradedSections.optional(),
+    recommendedLawyers: z.array(RecommendedLawyerSchema),
+    expenditureAnalysis: ClassifyDocumentResultSchema.shape.expenditureAnalysis.extend({
+        estimatedCostRange: z.string(),
+    }),
+    // Only set for scanned uploads: how confident OCR was about each page.
+    ocrPages: z.array(OcrPageSchema).optional(),
+    // Where each clause reference points in the canonical text. Missing on analyses made before anchoring.
+    anchors: ClassificationAnchorsSchema.optional(),
+    // Which parts of the canonical text the analysis covered. Missing on analyses made before chunking.
+    analysisCoverage: AnalysisCoverageSchema.optional(),
+});
+
+export const classifyDocumentTask = defineTask({
+    input: StoredDocumentSchema.extend({
+        fileName: z.string().min(1),
+        // 'paste' documents were typed or pasted into the verifier rather than uploaded as a file.
+        source: z.enum(['upload', 'paste']).default('upload'),
+    }),
+    output: ClassifyDocumentTaskOutputSchema,
+    quota: () => ({ kind: 'documentAnalyses' }),
+    findCachedResult: async (payload, { userId }) => {
+        const snapshot = await db.collection('users').doc(userId).collection('history')
+            .where('contentHash', '==', payload.contentHash)
+            .where('analysisVersion', '==', analysisVersion())
+            .limit(1)
+            .get();
+        if (snapshot.empty) {
+            return null;
+        }
+
+        const historyDoc = snapshot.docs[0];
+        // The output schema strips the history-only fields (file reference, timestamps) back off.
+        const parsed = ClassifyDocumentTaskOutputSchema.safeParse(historyDoc.data());
+        if (!parsed.success) {
+            return null;
+        }
+        return {
+            result: parsed.data,
+            historyId: historyDoc.id,
+            analyzedAt: historyDoc.data().createdAt?.toDate().toISOString() ?? null,
+        };
+    },
+    stages: [
+        { key: 'validate', label: 'Validating file' },
+        { key: 'extract', label: 'Extracting text' },
+        { key: 'analyze', label: 'AI analysis' },
+        { key: 'combine', label: 'Combining section analyses' },
+        { key: 'anchor', label: 'Linking clauses to the text' },
+        { key: 'index', label: 'Indexing for questions' },
+        { key: 'lawyers', label: 'Matching lawyers' },
+        { key: 'cost', label: 'Computing cost range' },
+        { key: 'save', label: 'Saving history' },
+    ],
+    handler: async (payload, { userId, taskId, throwIfCancelled, startStage, skipStage }) => {
+        await startStage('validate');
+        if (!(payload.mimeType in DOCUMENT_FILE_TYPES) && payload.mimeType !== SCANNED_PAGES_MIME_TYPE) {
+            throw new Error(`Unsupported file type '${payload.mimeType}'.`);
+        }
+        if (payload.source === 'paste' && payload.mimeType !== 'text/plain') {
+            throw new Error('Pasted documents must be plain text.');
+        }
+        if (!isOwnDocumentPath(userId, payload.storagePath)) {
+            throw new Error('The document does not belong to this user.');
+        }
+        const fileBytes = await readDocument(payload.storagePath);
+        if (fileBytes.length === 0) {
+            throw new Error('The uploaded file is empty.');
+        }
+        // The hash comes from the browser; check it so the dedup lookup can trust it next time.
+        if (sha256Hex(fileBytes) !== payload.contentHash) {
+            throw new Error('The uploaded file does not match its content hash.');
+        }
+
+        // Scans are OCRed and word-processor and HTML files converted here, so an empty document fails
+        // before the model call. The canonical text is also what clause references are anchored to.
+        await startStage('extract');
+        const { canonical, ocrPages } = await extractDocumentText(userId, payload.storagePath, payload.mimeType, fileBytes);
+        if (payload.mimeType === 'text/plain') {
+            if (!canonical.text) {
+                throw new Error('The uploaded document contains no text.');
+            }
+            if (payload.source === 'paste' && canonical.text.length < MIN_PASTED_TEXT_LENGTH) {
+                throw new Error(`Pasted text must be at least ${MIN_PASTED_TEXT_LENGTH} characters long.`);
+            }
+        }
+
+        // Long documents are analyzed section by section, then combined. A PDF without a text layer
+        // can't be split, so it always goes to the model whole.
+        await startStage('analyze');
+        let result: ClassifyDocumentResult;
+        let analysisCoverage: AnalysisCoverage;
+        if (isLongDocument(canonical)) {
+            const analyses = await analyzeChunks(canonical, chunkDocument(canonical), throwIfCancelled);
+            await startStage('combine');
+            result = await combineAnalyses(analyses);
+            analysisCoverage = { strategy: 'map-reduce', chunks: analyses.map(a => a.coverage) };
+        } else {
+            const response = await classifyDocument(modelInputFor(fileBytes, payload.mimeType, canonical, 'classify'));
+            if ('error' in response) {
+                throw new Error(response.error);
+            }
+            await skipStage('combine');
+            result = response;
+            analysisCoverage = singlePassCoverage(canonical);
+        }
+
+        await startStage('anchor');
+        const anchors = anchorClassification(canonical, result);
+
+        // Index the text for Q&A now, under the history doc's ID, so the first question doesn't wait for it.
+        // Questions rebuild a missing index, so a failure here doesn't fail the analysis.
+        if (canonical.text) {
+            await startStage('index');
+            try {
+                await saveDocumentIndex(userId, taskId, await buildDocumentIndex(canonical, payload.storagePath));
+            } catch (e) {
+                console.error('Failed to index the document for questions:', e);
+            }
+        } else {
+            await skipStage('index');
+        }
+
+        await startStage('lawyers');
+        let recommendedLawyers: z.infer<typeof RecommendedLawyerSchema>[] = [];
+        let estimatedCostRange = 'N/A';
+
+        if (result.lawyerCategory) {
+            const lawyersSnapshot = await db.collection('lawyers')
+                .where('specialty', '==', result.lawyerCategory)
+                .limit(3)
+                .get();
+
+            if (!lawyersSnapshot.empty) {
+                // Skip lawyer profiles that are missing fields rather than failing the analysis.
+                recommendedLawyers = lawyersSnapshot.docs
+                    .map(doc => RecommendedLawyerSchema.safeParse({ id: doc.id, ...doc.data() }))
+                    .flatMap(parsed => parsed.success ? [parsed.data] : []);
+            }
+        }
+
+        // Calculate estimated cost range
+        await startStage('cost');
+        if (result.expenditureAnalysis.estimatedHearings > 0 && recommendedLawyers.length > 0) {
+            const costs = recommendedLawyers
+                .map(l => l.costPerHearing * result.expenditureAnalysis.estimatedHearings)
+                .filter(c => c > 0);
+
+            if (costs.length > 0) {
+                const minCost = Math.min(...costs);
+                const maxCost = Math.max(...costs);
+                estimatedCostRange = `₹${minCost.toLocaleString()} - ₹${maxCost.toLocaleString()}`;
+            }
+        }
+
+        const finalResult = {
+            ...result,
+            ...(ocrPages && { ocrPages }),
+            anchors,
+            analysisCoverage,
+            recommendedLawyers,
+            expenditureAnalysis: {
+                ...result.expenditureAnalysis,
+                estimatedCostRange: estimatedCostRange,
+            }
+        };
+
+        // startStage checks for cancellation, so a cancelled analysis never reaches the history write.
+        await startStage('save');
+
+        // Save to history. The history doc shares the task's ID so a retried attempt overwrites
+        // rather than duplicates the record.
+        try {
+            await db.collection('users').doc(userId).collection('history').doc(taskId).set({
+                ...finalResult,
+                fileName: payload.fileName,
+                source: payload.source,
+                storagePath: payload.storagePath,
+                contentHash: payload.contentHash,
+                size: payload.size,
+                mimeType: payload.mimeType,
+                analysisVersion: analysisVersion(),
+                createdAt: FieldValue.serverTimestamp(),
+            });
+        } catch (dbError) {
+            console.error('Firestore history write error:', dbError);
+            // Don't fail the whole task if history write fails
+        }
+
+        return finalResult;
+    },
+});
@@ -0,0 +1,47 @@
+import type { z } from 'zod';
+import type { QuotaKind } from '@/lib/quota-types';
+
+export type TaskContext = {
+    userId: string;
+    taskId: string;
+    attempt: number;
+    // Throws TaskCancelledError if the user has cancelled the task, or TaskLeaseLostError if the worker lost
+    // its lease. Call it between expensive stages.
+    throwIfCancelled: () => Promise<void>;
+    // Marks the named stage as running (and the previous one as completed). Also checks for cancellation.
+    startStage: (key: string) => Promise<void>;
+    // Marks the named stage as not applicable to this input.
+    skipStage: (key: string) => Promise<void>;
+};
+
+export type CachedTaskResult<O> = {
+    result: O;
+    historyId: string;
+    analyzedAt: string | null; // ISO timestamp of the original run
+};
+
+export type TaskStageDefinition = {
+    key: string;
+    label: string;
+};
+
+/**
+ * A kind of background work the task queue can run. `input` is checked when the task is created and
+ * again before the handler runs; `output` is checked before the result is written to the task document.
+ */
+export type TaskDefinition<I extends z.ZodTypeAny = z.ZodTypeAny, O extends z.ZodTypeAny = z.ZodTypeAny> = {
+    input: I;
+    output: O;
+    handler: (input: z.infer<I>, context: TaskContext) => Promise<z.infer<O>>;
+    // Looks up an earlier result for identical input so `createTask` can return it without queueing new work.
+    findCachedResult?: (input: z.infer<I>, context: { userId: string }) => Promise<CachedTaskResult<z.infer<O>> | null>;
+    // The quota a new task counts against (see src/lib/quotas.ts). Cached results don't count.
+    quota?: (input: z.infer<I>) => { kind: QuotaKind, scope?: string };
+    // Named pipeline steps reported to the task document, in the order the handler runs them.
+    stages?: TaskStageDefinition[];
+    // Overrides the queue-wide TASK_MAX_ATTEMPTS for this task type.
+    maxAttempts?: number;
+};
+
+// Identity helper so each definition infers its own input/output types.
+export const defineTask = <I extends z.ZodTypeAny, O extends z.ZodTypeAny>(definition: TaskDefinition<I, O>) => definition;
@@ -0,0 +1,25 @@
+import type { z } from 'zod';
+import { classifyDocumentTask } from './classify-document';
+import { askQuestionTask } from './ask-question';
+import type { TaskDefinition } from './define-task';
+
+export { defineTask, type CachedTaskResult, type TaskContext, type TaskDefinition, type TaskStageDefinition } from './define-task';
+
+/**
+ * Every kind of background work the task queue knows how to run, keyed by task type.
+ * To add one, write a `defineTask(...)` module next to this file and list it here.
+ */
+export const taskRegistry = {
+    classifyDocument: classifyDocumentTask,
+    askQuestion: askQuestionTask,
+};
+
+export type TaskType = keyof typeof taskRegistry;
+export type TaskInput<T extends TaskType> = z.input<(typeof taskRegistry)[T]['input']>;
+export type TaskOutput<T extends TaskType> = z.infer<(typeof taskRegistry)[T]['output']>;
+
+export const isTaskType = (type: string): type is TaskType => Object.prototype.hasOwnProperty.call(taskRegistry, type);
+
+// Erases the per-type generics for callers (the worker, `createTask`) that only know the type at runtime.
+export const getTaskDefinition = (type: string): TaskDefinition | undefined =>
+    isTaskType(type) ? taskRegistry[type] as unknown as TaskDefinition : undefined;
@@ -0,0 +1,97 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { GenerationUsage } from 'genkit';
+import type { ModelMiddleware } from 'genkit/model';
+import { db } from '@/lib/firebase-admin';
+import { estimateCostUsd } from '@/lib/model-prices';
+
+/**
+ * Token, latency and cost accounting for model calls. Every flow's model gets `usageRecorder` as
+ * middleware (see `modelFor` in src/ai/genkit.ts), which records each call under the user and task it
+ * was made for. Callers say who that is by running the work inside `withUsageAttribution`: the task
+ * worker does so for every task, and the server actions for the calls they make directly.
+ *
+ * Each call is stored in `usageEvents`, and added to a daily total per user and flow in `usageDaily`.
+ * Calls made outside any attribution (scripts, evals) aren't recorded.
+ */
+
+export type UsageAttribution = {
+    userId: string;
+    taskId?: string;
+};
+
+const attributionStorage = new AsyncLocalStorage<UsageAttribution>();
+
+export const withUsageAttribution = <T>(attribution: UsageAttribution, work: () => Promise<T>): Promise<T> =>
+    attributionStorage.run(attribution, work);
+
+// The day a call is counted under, in UTC so totals don't depend on the server's time zone.
+export const usageDay = (date: Date) => date.toISOString().slice(0, 10);
+
+type ModelCall = {
+    flow: string;
+    model: string;
+    usage?: GenerationUsage;
+    latencyMs: number;
+    error?: string;
+};
+
+async function recordModelCall(attribution: UsageAttribution, call: ModelCall) {
+    const inputTokens = call.usage?.inputTokens ?? 0;
+    const outputTokens = call.usage?.outputTokens ?? 0;
+    const costUsd = estimateCostUsd(call.model, inputTokens, outputTokens);
+    const day = usageDay(new Date());
+
+    const batch = db.batch();
+    batch.create(db.collection('usageEvents').doc(), {
+        userId: attribution.userId,
+        taskId: attribution.taskId ?? null,
+        flow: call.flow,
+        model: call.model,
+        inputTokens,
+        outputTokens,
+        latencyMs: call.latencyMs,
+        estimatedCostUsd: costUsd,
+        error: call.error ?? null,
+        day,
+        createdAt: FieldValue.serverTimestamp(),
+    });
+    batch.set(db.collection('usageDaily').doc(`${day}_${attribution.userId}_${call.flow}`), {
+        day,
+        userId: attribution.userId,
+        flow: call.flow,
+        calls: FieldValue.increment(1),
+        failedCalls: FieldValue.increment(call.error ? 1 : 0),
+        unpricedCalls: FieldValue.increment(costUsd === null ? 1 : 0),
+        inputTokens: FieldValue.increment(inputTokens),
+        outputTokens: FieldValue.increment(outputTokens),
+        latencyMs: FieldValue.increment(call.latencyMs),
+        estimatedCostUsd: FieldValue.increment(costUsd ?? 0),
+        updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+    await batch.commit();
+}
+
+/**
+ * Middleware that records every call to a flow's model, including failed ones. Recording is best effort:
+ * a failed write is logged, and never fails the call.
+ */
+export const usageRecorder = (flow: string, model: string): ModelMiddleware => async (request, next) => {
+    const attribution = attributionStorage.getStore();
+    if (!attribution) {
+        return next(request);
+    }
+
+    const started = Date.now();
+    const record = (call: Omit<ModelCall, 'flow' | 'model' | 'latencyMs'>) =>
+        recordModelCall(attribution, { ...call, flow, model, latencyMs: Date.now() - started })
+            .catch(e => console.error('Failed to record model usage:', e));
+    try {
+        const response = await next(request);
+        await record({ usage: response.usage });
+        return response;
+    } catch (e) {
+        await record({ error: e instanceof Error ? e.message.slice(0, 200) : String(e) });
+        throw e;
+    }
+};
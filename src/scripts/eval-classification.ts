@@ -0,0 +1,340 @@
+import 'dotenv/config';
+import { execSync } from 'node:child_process';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import { askDocumentQuestion } from '@/ai/flows/ask-document-question';
+import { classifyDocument } from '@/ai/flows/classify-uploaded-document';
+import { configuredEmbedder, configuredModel } from '@/ai/genkit';
+import { AskDocumentQuestionOutputSchema } from '@/ai/schemas/ask-document-question';
+import { ClassifyDocumentOutputSchema, type ClassifyDocumentResult } from '@/ai/schemas/classify-document';
+import type { CanonicalDocument, TextAnchor } from '@/lib/anchor-types';
+import { anchorClassification, buildCanonicalDocument, findText, renderForModel, resolveReference } from '@/lib/anchors';
+import { textDocument } from '@/lib/document-conversion';
+import { chunkDocument, isLongDocument } from '@/lib/document-chunks';
+import { buildDocumentIndex, renderPassages, retrievePassages } from '@/lib/document-index';
+import { analyzeChunks, combineAnalyses } from '@/lib/long-documents';
+import { analysisVersion } from '@/lib/tasks/classify-document';
+
+/**
+ * Runs the classification and Q&A flows over the annotated contracts in `evals/golden` and scores them,
+ * so a prompt or model change can be compared against the last known-good run before it ships.
+ *
+ *   npm run eval
+ *   npm run eval -- --only rent,nda --out evals/reports/flash.json
+ *   npm run eval -- --baseline evals/baseline.json --max-drop 0.05
+ *
+ * Each `<name>.txt` has a `<name>.json` annotation listing the hidden traps and deadlines a good analysis
+ * should flag (each with a verbatim excerpt and keywords), the governing-law aliases, and questions with
+ * the excerpt that answers them. With `--baseline`, exits non-zero if any metric drops by more than
+ * `--max-drop` (default 0.05).
+ */
+
+const GOLDEN_DIR = path.join(process.cwd(), 'evals', 'golden');
+const REPORTS_DIR = path.join(process.cwd(), 'evals', 'reports');
+
+const option = (name: string) => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const ExpectedFindingSchema = z.object({
+    id: z.string(),
+    excerpt: z.string().min(1), // Verbatim from the document
+    keywords: z.array(z.string()), // Any of these in the model's description also counts as a hit
+});
+
+const AnnotationSchema = z.object({
+    title: z.string(),
+    category: z.string(),
+    jurisdiction: z.array(z.string()).min(1), // Accepted names for the governing law
+    hiddenTraps: z.array(ExpectedFindingSchema),
+    deadlines: z.array(ExpectedFindingSchema),
+    questions: z.array(z.object({
+        question: z.string(),
+        expectedExcerpt: z.string(),
+    })),
+});
+type Annotation = z.infer<typeof AnnotationSchema>;
+
+const METRICS = ['trapRecall', 'deadlineRecall', 'jurisdictionAccuracy', 'sourceValidity', 'answerGrounding', 'retrievalRecall', 'schemaConformance'] as const;
+type Metric = typeof METRICS[number];
+
+// Hits and totals, so the summary weights every trap, source and call equally across documents.
+type Score = { hits: number, total: number };
+type DocumentReport = {
+    name: string;
+    title: string;
+    durationMs: number;
+    errors: string[];
+    scores: Record<Metric, Score>;
+    missedTraps: string[];
+    missedDeadlines: string[];
+    jurisdiction: string | null;
+    invalidSources: string[];
+};
+
+const ReportSchema = z.object({
+    createdAt: z.string(),
+    commit: z.string().nullable(),
+    analysisVersion: z.string(),
+    models: z.object({ classify: z.string(), askQuestion: z.string(), embedder: z.string().optional() }),
+    summary: z.record(z.enum(METRICS), z.number().nullable()),
+    documents: z.array(z.any()),
+});
+type Report = z.infer<typeof ReportSchema>;
+
+const ratio = ({ hits, total }: Score) => total ? hits / total : null;
+const score = (hits: number, total: number): Score => ({ hits, total });
+
+const overlaps = (anchor: TextAnchor | null, span: { start: number, end: number }) =>
+    !!anchor && anchor.start < span.end && span.start < anchor.end;
+
+const mentions = (text: string, keywords: string[]) =>
+    keywords.some(keyword => text.toLowerCase().includes(keyword.toLowerCase()));
+
+// The annotations are only useful if their excerpts can be found in the document.
+const locate = (document: CanonicalDocument, name: string, excerpt: string) => {
+    const anchor = findText(document, excerpt);
+    if (anchor?.method !== 'exact') {
+        throw new Error(`${name}: annotated excerpt "${excerpt}" is not in the document.`);
+    }
+    return anchor;
+};
+
+type Flagged = { text: string, anchor: TextAnchor | null };
+
+// An expected finding counts as found when a flagged item is anchored over its excerpt or names one of its keywords.
+const recall = (document: CanonicalDocument, name: string, expected: Annotation['hiddenTraps'], flagged: Flagged[]) => {
+    const missed = expected.filter((finding) => {
+        const span = locate(document, name, finding.excerpt);
+        return !flagged.some(item => overlaps(item.anchor, span) || mentions(item.text, finding.keywords));
+    });
+    return { score: score(expected.length - missed.length, expected.length), missed: missed.map(f => f.id) };
+};
+
+async function analyze(document: CanonicalDocument): Promise<ClassifyDocumentResult> {
+    if (isLongDocument(document)) {
+        return combineAnalyses(await analyzeChunks(document, chunkDocument(document), async () => {}));
+    }
+    const result = await classifyDocument(textDocument(renderForModel(document)));
+    if ('error' in result) {
+        throw new Error(result.error);
+    }
+    return result;
+}
+
+async function evaluateDocument(name: string, text: string, annotation: Annotation): Promise<DocumentReport> {
+    const started = Date.now();
+    const document = buildCanonicalDocument([text], false);
+    const errors: string[] = [];
+    let calls = 0;
+    let conforming = 0;
+
+    const report: DocumentReport = {
+        name,
+        title: annotation.title,
+        durationMs: 0,
+        errors,
+        scores: {
+            trapRecall: score(0, annotation.hiddenTraps.length),
+            deadlineRecall: score(0, annotation.deadlines.length),
+            jurisdictionAccuracy: score(0, 1),
+            sourceValidity: score(0, 0),
+            answerGrounding: score(0, annotation.questions.length),
+            retrievalRecall: score(0, annotation.questions.length),
+            schemaConformance: score(0, 0),
+        },
+        missedTraps: annotation.hiddenTraps.map(t => t.id),
+        missedDeadlines: annotation.deadlines.map(d => d.id),
+        jurisdiction: null,
+        invalidSources: [],
+    };
+
+    calls++;
+    try {
+        const analysis = await analyze(document);
+        // Output that only validates because sections were filled with placeholders doesn't count.
+        if (ClassifyDocumentOutputSchema.safeParse(analysis).success && !analysis.degradedSections.length) conforming++;
+        const anchors = anchorClassification(document, analysis);
+
+        // Traps are often reported under the risk radar or as risky clauses rather than as hidden traps.
+        const traps = recall(document, name, annotation.hiddenTraps, [
+            ...analysis.hiddenTraps.map((t, i) => ({ text: `${t.clause} ${t.trap}`, anchor: anchors.hiddenTraps[i] })),
+            ...analysis.riskRadar.map((r, i) => ({ text: `${r.clause} ${r.risk}`, anchor: anchors.riskRadar[i] })),
+            ...analysis.clauseByClause
+                .map((c, i) => ({ item: c, anchor: anchors.clauseByClause[i] }))
+                .filter(({ item }) => item.riskLevel !== 'Low')
+                .map(({ item, anchor }) => ({ text: `${item.clause} ${item.riskReason ?? ''}`, anchor })),
+        ]);
+        const deadlines = recall(document, name, annotation.deadlines, analysis.timeBombDetector.map((d, i) => ({
+            text: `${d.action} ${d.deadline} ${d.consequence}`,
+            anchor: anchors.timeBombDetector[i],
+        })));
+
+        report.scores.trapRecall = traps.score;
+        report.missedTraps = traps.missed;
+        report.scores.deadlineRecall = deadlines.score;
+        report.missedDeadlines = deadlines.missed;
+        report.jurisdiction = analysis.fairnessScoreJurisdiction.jurisdiction;
+        report.scores.jurisdictionAccuracy = score(mentions(report.jurisdiction, annotation.jurisdiction) ? 1 : 0, 1);
+    } catch (e) {
+        errors.push(`classify: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    let validSources = 0;
+    let totalSources = 0;
+    let grounded = 0;
+    let retrieved = 0;
+    // Questions go through retrieval as in the app, so a question can fail because its passage wasn't
+    // retrieved; retrievalRecall tells that apart from a wrong answer.
+    const index = await buildDocumentIndex(document, `evals/golden/${name}.txt`);
+    for (const { question, expectedExcerpt } of annotation.questions) {
+        const expected = locate(document, name, expectedExcerpt);
+        const passages = await retrievePassages(document, index, question);
+        if (passages.some(passage => overlaps(passage, expected))) retrieved++;
+        calls++;
+        const answer = await askDocumentQuestion({ passages: renderPassages(document, passages), question });
+        if ('error' in answer) {
+            errors.push(`ask "${question}": ${answer.error}`);
+            continue;
+        }
+        if (AskDocumentQuestionOutputSchema.safeParse(answer).success) conforming++;
+
+        // Sources are meant to be verbatim, so only an exact match counts; the answer is grounded when
+        // one of them resolves to the passage that answers the question.
+        for (const source of answer.sources) {
+            totalSources++;
+            if (findText(document, source)?.method === 'exact') {
+                validSources++;
+            } else {
+                report.invalidSources.push(source);
+            }
+        }
+        if (answer.sources.some(source => overlaps(resolveReference(document, source), expected))) grounded++;
+    }
+
+    report.scores.sourceValidity = score(validSources, totalSources);
+    report.scores.answerGrounding = score(grounded, annotation.questions.length);
+    report.scores.retrievalRecall = score(retrieved, annotation.questions.length);
+    report.scores.schemaConformance = score(conforming, calls);
+    report.durationMs = Date.now() - started;
+    return report;
+}
+
+async function loadGolden(only: string[] | null) {
+    const names = (await readdir(GOLDEN_DIR))
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.replace(/\.json$/, ''))
+        .filter(name => !only || only.includes(name))
+        .sort();
+    if (!names.length) {
+        throw new Error(`No annotated documents found in ${GOLDEN_DIR}${only ? ` matching ${only.join(', ')}` : ''}.`);
+    }
+    return Promise.all(names.map(async (name) => {
+        const annotation = AnnotationSchema.parse(JSON.parse(await readFile(path.join(GOLDEN_DIR, `${name}.json`), 'utf-8')));
+        const text = await readFile(path.join(GOLDEN_DIR, `${name}.txt`), 'utf-8');
+        // Check the excerpts before spending any model calls.
+        const document = buildCanonicalDocument([text], false);
+        [...annotation.hiddenTraps, ...annotation.deadlines].forEach(f => locate(document, name, f.excerpt));
+        annotation.questions.forEach(q => locate(document, name, q.expectedExcerpt));
+        return { name, text, annotation };
+    }));
+}
+
+const currentCommit = () => {
+    try {
+        return execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+    } catch {
+        return null;
+    }
+};
+
+const formatRatio = (value: number | null | undefined) => value == null ? '—' : `${(value * 100).toFixed(0)}%`;
+
+function printReport(report: Report, documents: DocumentReport[], baseline: Report | null) {
+    console.log(`\n${report.models.classify} (classify), ${report.models.askQuestion} (Q&A), ${report.models.embedder ?? 'none'} (retrieval) at ${report.commit ?? 'unknown commit'}\n`);
+    console.table(Object.fromEntries(documents.map(d => [d.name, {
+        ...Object.fromEntries(METRICS.map(metric => [metric, `${d.scores[metric].hits}/${d.scores[metric].total}`])),
+        seconds: Math.round(d.durationMs / 1000),
+    }])));
+    console.table(Object.fromEntries(METRICS.map(metric => [metric, {
+        score: formatRatio(report.summary[metric]),
+        ...(baseline && { baseline: formatRatio(baseline.summary[metric]) }),
+    }])));
+
+    for (const d of documents) {
+        const notes = [
+            // Schema errors carry the whole schema; the first line says what went wrong.
+            ...d.errors.map(error => error.split('\n')[0]),
+            ...(d.missedTraps.length ? [`missed traps: ${d.missedTraps.join(', ')}`] : []),
+            ...(d.missedDeadlines.length ? [`missed deadlines: ${d.missedDeadlines.join(', ')}`] : []),
+            ...(d.scores.jurisdictionAccuracy.hits ? [] : [`jurisdiction: ${d.jurisdiction ?? 'none'}`]),
+            ...d.invalidSources.map(source => `unverifiable source: "${source.slice(0, 80)}"`),
+        ];
+        if (notes.length) console.log(`${d.name}:\n${notes.map(n => `  - ${n}`).join('\n')}`);
+    }
+}
+
+// Metrics that fell by more than `maxDrop` since the baseline. Metrics with no data on either side are skipped.
+const regressions = (report: Report, baseline: Report, maxDrop: number) => METRICS.flatMap((metric) => {
+    const current = report.summary[metric];
+    const previous = baseline.summary[metric];
+    if (current == null || previous == null || previous - current <= maxDrop) return [];
+    return [`${metric} dropped from ${formatRatio(previous)} to ${formatRatio(current)}`];
+});
+
+async function main() {
+    const only = option('only')?.split(',').map(name => name.trim()) ?? null;
+    const baselinePath = option('baseline');
+    const maxDrop = Number(option('max-drop') ?? 0.05);
+    if (Number.isNaN(maxDrop)) {
+        throw new Error('--max-drop must be a number.');
+    }
+
+    const baseline = baselinePath ? ReportSchema.parse(JSON.parse(await readFile(baselinePath, 'utf-8'))) : null;
+    const golden = await loadGolden(only);
+
+    // One document at a time, so durations are comparable and rate limits aren't hit.
+    const documents: DocumentReport[] = [];
+    for (const { name, text, annotation } of golden) {
+        console.log(`Evaluating ${name} (${annotation.title})...`);
+        documents.push(await evaluateDocument(name, text, annotation));
+    }
+
+    const report: Report = {
+        createdAt: new Date().toISOString(),
+        commit: currentCommit(),
+        analysisVersion: analysisVersion(),
+        models: { classify: configuredModel('classify'), askQuestion: configuredModel('askQuestion'), embedder: configuredEmbedder() },
+        summary: Object.fromEntries(METRICS.map(metric => [metric, ratio(documents.reduce(
+            (sum, d) => score(sum.hits + d.scores[metric].hits, sum.total + d.scores[metric].total),
+            score(0, 0),
+        ))])) as Report['summary'],
+        documents,
+    };
+
+    const out = option('out') ?? path.join(REPORTS_DIR, `${report.createdAt.replace(/[:.]/g, '-')}.json`);
+    await mkdir(path.dirname(out), { recursive: true });
+    await writeFile(out, `${JSON.stringify(report, null, 4)}\n`);
+
+    printReport(report, documents, baseline);
+    console.log(`\nReport written to ${out}`);
+
+    if (baseline) {
+        if (baseline.analysisVersion !== report.analysisVersion) {
+            console.log(`Comparing against a baseline from ${baseline.analysisVersion}.`);
+        }
+        const dropped = regressions(report, baseline, maxDrop);
+        if (dropped.length) {
+            console.error(`\nRegressions against ${baselinePath}:\n${dropped.map(d => `  - ${d}`).join('\n')}`);
+            process.exit(1);
+        }
+        console.log(`No metric dropped by more than ${formatRatio(maxDrop)} against ${baselinePath}.`);
+    }
+}
+
+main().then(() => process.exit(0)).catch((e) => {
+    console.error('Evaluation failed:', e);
+    process.exit(1);
+});
@@ -0,0 +1,77 @@
+import 'dotenv/config';
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '@/lib/firebase-admin';
+import { saveDocument } from '@/lib/document-storage';
+
+/**
+ * One-off migration: moves `fileAsBase64` out of `users/{uid}/history` records into Cloud Storage,
+ * replacing it with a storage reference, and strips the same field from old task payloads.
+ *
+ *   npm run migrate:history-to-storage -- --dry-run
+ *   npm run migrate:history-to-storage
+ *
+ * Safe to re-run: migrated records no longer have the field, and uploads are content-addressed.
+ * It walks users one at a time rather than using a collection-group query, which would need an index.
+ */
+
+const dryRun = process.argv.includes('--dry-run');
+const prefix = dryRun ? '[dry run] ' : '';
+
+async function migrateHistory(userId: string) {
+    let migrated = 0;
+    const history = await db.collection('users').doc(userId).collection('history').get();
+
+    for (const doc of history.docs) {
+        const { fileAsBase64, mimeType, fileName } = doc.data();
+        if (typeof fileAsBase64 !== 'string') continue;
+
+        const bytes = Buffer.from(fileAsBase64, 'base64');
+        console.log(`${prefix}${doc.ref.path}: ${fileName ?? 'untitled'} (${bytes.length} bytes)`);
+        if (dryRun) continue;
+
+        const stored = await saveDocument(userId, bytes, mimeType ?? 'application/octet-stream');
+        await doc.ref.update({
+            ...stored,
+            fileAsBase64: FieldValue.delete(),
+        });
+        migrated++;
+    }
+    return migrated;
+}
+
+// Finished tasks only needed the file while running; the history record keeps the reference.
+async function stripTaskPayloads(userId: string) {
+    let stripped = 0;
+    const tasks = await db.collection('users').doc(userId).collection('tasks').get();
+
+    for (const doc of tasks.docs) {
+        if (typeof doc.data().payload?.fileAsBase64 !== 'string') continue;
+
+        console.log(`${prefix}${doc.ref.path}: removing embedded file from payload`);
+        if (dryRun) continue;
+
+        await doc.ref.update({ 'payload.fileAsBase64': FieldValue.delete() });
+        stripped++;
+    }
+    return stripped;
+}
+
+async function main() {
+    let migrated = 0;
+    let stripped = 0;
+
+    // listDocuments also returns users that only exist as a parent of subcollections.
+    for (const userRef of await db.collection('users').listDocuments()) {
+        migrated += await migrateHistory(userRef.id);
+        stripped += await stripTaskPayloads(userRef.id);
+    }
+
+    console.log(dryRun
+        ? 'Dry run complete. No changes were made.'
+        : `Moved ${migrated} history file(s) to Storage and stripped ${stripped} task payload(s).`);
+}
+
+main().then(() => process.exit(0)).catch((e) => {
+    console.error('Migration failed:', e);
+    process.exit(1);
+});
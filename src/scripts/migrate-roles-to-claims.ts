@@ -0,0 +1,56 @@
+import 'dotenv/config';
+import { auth, db } from '@/lib/firebase-admin';
+import { USER_ROLES, type UserRole } from '@/lib/auth-types';
+import { getUserRole, setUserRole } from '@/lib/roles';
+
+/**
+ * One-off migration: copies each user's `role` from their `users` doc to the `role` custom claim, which
+ * is what the app now checks (see src/lib/roles.ts). Until it has run, existing lawyers and admins are
+ * treated as regular users.
+ *
+ *   npm run migrate:roles-to-claims -- --dry-run
+ *   npm run migrate:roles-to-claims
+ *
+ * Safe to re-run: users whose claim already matches are skipped. Signed-in users pick up their claim
+ * without signing out again.
+ */
+
+const dryRun = process.argv.includes('--dry-run');
+const prefix = dryRun ? '[dry run] ' : '';
+
+async function main() {
+    let migrated = 0;
+    let skipped = 0;
+
+    for (const doc of (await db.collection('users').get()).docs) {
+        const role = doc.data().role;
+        if (!USER_ROLES.includes(role)) {
+            console.warn(`${prefix}${doc.ref.path}: skipping, no valid role (${role ?? 'unset'})`);
+            skipped++;
+            continue;
+        }
+        try {
+            await auth.getUser(doc.id);
+        } catch {
+            console.warn(`${prefix}${doc.ref.path}: skipping, no Firebase account with this uid`);
+            skipped++;
+            continue;
+        }
+        if (await getUserRole(doc.id) === role) continue;
+
+        console.log(`${prefix}${doc.ref.path}: setting role claim to '${role}'`);
+        if (dryRun) continue;
+
+        await setUserRole(doc.id, role as UserRole);
+        migrated++;
+    }
+
+    console.log(dryRun
+        ? 'Dry run complete. No changes were made.'
+        : `Set the role claim of ${migrated} user(s); skipped ${skipped}.`);
+}
+
+main().then(() => process.exit(0)).catch((e) => {
+    console.error('Migration failed:', e);
+    process.exit(1);
+});
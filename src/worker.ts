@@ -0,0 +1,15 @@
+import 'dotenv/config';
+import { startTaskWorker } from '@/lib/task-worker';
+
+// Standalone entry point for the task worker: `npm run worker`.
+// Set FIRESTORE_EMULATOR_HOST to run against the local emulator (see `npm run worker:emulator`).
+const worker = startTaskWorker();
+
+const shutdown = async (signal: string) => {
+  console.log(`[${worker.workerId}] Received ${signal}, draining in-flight tasks...`);
+  await worker.stop();
+  process.exit(0);
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
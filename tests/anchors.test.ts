@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCanonicalDocument, findText, verifyQuote } from '@/lib/anchors';
+
+/**
+ * Tests for matching the model's references and quotes to the document text (src/lib/anchors.ts).
+ * Run with `npm test`.
+ */
+
+const lease = buildCanonicalDocument([
+    '1. Payment\nThe current is due to the landlord by the fifth.\n\n2. Rent\nThe rent is due on the first day of each month.',
+], false);
+
+describe('findText', () => {
+    it('matches whole words only', () => {
+        const anchor = findText(lease, 'rent is due');
+        assert.ok(anchor);
+        assert.equal(anchor.method, 'exact');
+        assert.equal(lease.text.slice(anchor.start, anchor.end), 'rent is due');
+        assert.equal(anchor.section, '2');
+    });
+
+    it("doesn't match a quote that only appears inside longer words", () => {
+        const document = buildCanonicalDocument(['The current is due back to the parent company.'], false);
+        assert.equal(findText(document, 'rent is due'), null);
+    });
+
+    it('ignores case, punctuation and spacing', () => {
+        const anchor = findText(lease, 'THE RENT  is due, on the first day');
+        assert.equal(anchor?.method, 'exact');
+        assert.equal(anchor && lease.text.slice(anchor.start, anchor.end), 'The rent is due on the first day');
+    });
+
+    it('only matches inside the given range', () => {
+        const section2 = lease.sections.find(section => section.number === '2')!;
+        const anchor = findText(lease, 'is due', undefined, section2);
+        assert.ok(anchor && anchor.start >= section2.start);
+        assert.equal(anchor.section, '2');
+        assert.equal(findText(lease, 'by the fifth', undefined, section2), null);
+    });
+});
+
+describe('verifyQuote', () => {
+    it('checks each part of a quote with omissions', () => {
+        const anchor = verifyQuote(lease, 'The rent ... first day of each month');
+        assert.equal(anchor && lease.text.slice(anchor.start, anchor.end), 'The rent is due on the first day of each month');
+        assert.equal(verifyQuote(lease, 'The rent ... last day of the year'), null);
+    });
+
+    it('rejects parts that appear in a different order', () => {
+        assert.equal(verifyQuote(lease, 'first day of each month ... The rent'), null);
+    });
+
+    it('rejects parts too far apart to be one quote', () => {
+        const document = buildCanonicalDocument([`The tenant shall pay the rent. ${'Filler words here. '.repeat(200)}On the first day of the month.`], false);
+        assert.equal(verifyQuote(document, 'The tenant shall pay ... first day of the month'), null);
+    });
+
+    it('tries later occurrences of the first part', () => {
+        const document = buildCanonicalDocument([`The tenant shall pay the deposit. ${'Filler words here. '.repeat(200)}The tenant shall pay the rent monthly.`], false);
+        const anchor = verifyQuote(document, 'The tenant shall pay ... rent monthly');
+        assert.equal(anchor && document.text.slice(anchor.start, anchor.end), 'The tenant shall pay the rent monthly');
+        assert.equal(anchor?.method, 'exact');
+    });
+});
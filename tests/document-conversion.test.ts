@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import JSZip from 'jszip';
+import { convertToText } from '@/lib/document-conversion';
+
+/**
+ * Tests for the HTML, RTF and ODT converters in src/lib/document-conversion, the latter two against the
+ * fixtures in tests/fixtures. Run with `npm test`.
+ */
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+const fromHtml = (html: string) => convertToText(Buffer.from(html, 'utf-8'), 'text/html');
+
+// Packs a content.xml into the smallest zip odtToBlocks accepts.
+async function odtWith(contentXml: Buffer) {
+    const zip = new JSZip();
+    zip.file('mimetype', 'application/vnd.oasis.opendocument.text');
+    zip.file('content.xml', contentXml);
+    return convertToText(await zip.generateAsync({ type: 'nodebuffer' }), 'application/vnd.oasis.opendocument.text');
+}
+
+describe('HTML conversion', () => {
+    it('joins paragraphs that are wrapped in the source', async () => {
+        assert.equal(
+            await fromHtml('<p>The tenant shall pay\nthe rent on the first\n    day of each month.</p>'),
+            'The tenant shall pay the rent on the first day of each month.',
+        );
+    });
+
+    it('breaks lines only at <br> and block boundaries', async () => {
+        assert.equal(
+            await fromHtml('<p>Landlord:\n  A. Mehta<br>\n  Pune</p>\n<p>Tenant: B. Rao</p>'),
+            'Landlord: A. Mehta\nPune\n\nTenant: B. Rao',
+        );
+    });
+
+    it('keeps line breaks inside <pre>', async () => {
+        assert.equal(await fromHtml('<pre>Clause 1\nClause 2</pre>'), 'Clause 1\nClause 2');
+    });
+
+    it('keeps headings and list numbering', async () => {
+        assert.equal(
+            await fromHtml('<h2>Payment\n  terms</h2><ol><li>Rent is due\n monthly.</li><li>Late fees apply.</li></ol>'),
+            '## Payment terms\n\n1. Rent is due monthly.\n2. Late fees apply.',
+        );
+    });
+});
+
+describe('RTF conversion', async () => {
+    const paragraphs = (await convertToText(fixture('lease.rtf'), 'application/rtf')).split('\n\n');
+
+    it('drops font, colour, info and other skipped groups', () => {
+        assert.equal(paragraphs[0], '# Residential Lease');
+        for (const metadata of ['Times New Roman', 'Arial', 'Riched20', 'A. Mehta', 'clausetwo']) {
+            assert.ok(paragraphs.every(paragraph => !paragraph.includes(metadata)), metadata);
+        }
+    });
+
+    it("decodes \\uN escapes, skipping their fallback characters, and \\'hh escapes", () => {
+        assert.equal(paragraphs[1], "The tenant shall pay the rent of ₹ 25,000 to the landlord's agent at the Café Mehta,\nPune.");
+        // `\uc2` makes the next \u escape drop two fallback bytes instead of one.
+        assert.equal(paragraphs[5], 'Signed 你 in {duplicate} at C:\\leases.');
+    });
+
+    it('keeps outline levels as headings and list numbers from \\listtext', () => {
+        assert.equal(paragraphs[2], '## 2. Security Deposit');
+        assert.equal(paragraphs[3], '1. A deposit of two months’ rent—payable in advance.');
+    });
+
+    it('leaves footnotes out of the sentence they are attached to', () => {
+        assert.equal(paragraphs[4], '2. Returned within 30 days.');
+        assert.equal(paragraphs.length, 6);
+    });
+});
+
+describe('ODT conversion', async () => {
+    const text = await odtWith(fixture('lease-content.xml'));
+
+    it('keeps headings and paragraphs, without footnote bodies', () => {
+        assert.ok(text.startsWith([
+            '# Residential Lease',
+            'The tenant shall pay the rent on the first day of each month.',
+            'Landlord: A. Mehta\nPune',
+            '## Obligations',
+        ].join('\n\n')));
+        assert.ok(!text.includes('next working day'));
+    });
+
+    it('numbers lists from their automatic style and bullets nested levels', () => {
+        assert.ok(text.includes([
+            '1. Pay rent on time.',
+            '2. Keep the premises in good repair:',
+            '  - plumbing',
+            '  - electrical fittings',
+            '3. Allow inspections & repairs.',
+        ].join('\n')));
+    });
+
+    it('puts each table row on one line', () => {
+        assert.ok(text.endsWith('Rent | 25,000\n\nDeposit | 50,000'));
+    });
+});
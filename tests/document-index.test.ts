@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCanonicalDocument } from '@/lib/anchors';
+import { buildDocumentIndex, retrievePassages, splitPassages } from '@/lib/document-index';
+
+/**
+ * Tests for splitting a document into passages and retrieving the ones that answer a question
+ * (src/lib/document-index.ts), with the built-in embedder. Importing genkit needs the Firebase
+ * environment, so these run with `npm run test:fake-backend`.
+ */
+
+const TOPICS = [
+    ['Rent', 'The tenant shall pay a monthly rent of 25,000 rupees on the first day of each month.'],
+    ['Security Deposit', 'The tenant shall pay a security deposit of two months\' rent, refunded within 30 days of moving out.'],
+    ['Maintenance', 'The landlord shall keep the roof, walls and plumbing in good repair.'],
+    ['Utilities', 'The tenant shall pay for electricity, water and gas used at the property.'],
+    ['Pets', 'No pets may be kept at the property without the landlord\'s written consent.'],
+    ['Subletting', 'The tenant may not sublet any part of the property to another person.'],
+    ['Insurance', 'The tenant is responsible for insuring their own belongings against theft and fire.'],
+    ['Termination', 'Either party may terminate this agreement by giving the other two months\' written notice.'],
+];
+
+const lease = buildCanonicalDocument([
+    TOPICS.map(([heading, text], i) => `${i + 1}. ${heading}\n${text}`).join('\n\n'),
+], false);
+
+describe('document index', () => {
+    it('splits passages at top-level sections', () => {
+        const passages = splitPassages(lease);
+        assert.equal(passages.length, TOPICS.length);
+        assert.ok(lease.text.slice(passages[7].start, passages[7].end).startsWith('8. Termination'));
+    });
+
+    it('retrieves the passages closest to the question, in document order', async () => {
+        const index = await buildDocumentIndex(lease, 'documents/test/lease.txt');
+        const passages = await retrievePassages(lease, index, 'How much notice do I need to give to terminate the lease?');
+
+        // RAG_TOP_K (6) of the 8 passages.
+        assert.equal(passages.length, 6);
+        assert.deepEqual(passages.map(p => p.start), [...passages.map(p => p.start)].sort((a, b) => a - b));
+        const best = passages.reduce((a, b) => b.score > a.score ? b : a);
+        assert.equal(best.section, '8');
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashedEmbedding } from '@/ai/embeddings';
+
+/**
+ * Tests for the built-in embedder behind document Q&A retrieval (src/ai/embeddings.ts).
+ * Run with `npm test`.
+ */
+
+const PASSAGES = [
+    'The tenant shall pay a monthly rent of 25,000 rupees on the first day of each month.',
+    'The tenant shall pay a security deposit of two months\' rent, refunded within 30 days of moving out.',
+    'Either party may terminate this agreement by giving the other two months\' written notice.',
+    'No pets may be kept at the property without the landlord\'s written consent.',
+];
+
+const similarity = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+// Passage indexes from most to least similar to the question.
+const rank = (question: string) => {
+    const query = hashedEmbedding(question);
+    return PASSAGES
+        .map((passage, index) => ({ index, score: similarity(query, hashedEmbedding(passage)) }))
+        .sort((a, b) => b.score - a.score)
+        .map(({ index }) => index);
+};
+
+describe('hashedEmbedding', () => {
+    it('returns the same unit vector for the same text', () => {
+        const vector = hashedEmbedding(PASSAGES[0]);
+        assert.deepEqual(hashedEmbedding(PASSAGES[0]), vector);
+        assert.ok(Math.abs(Math.hypot(...vector) - 1) < 1e-9);
+    });
+
+    it('ranks the passage that shares the question\'s words first', () => {
+        assert.equal(rank('When is the rent due each month?')[0], 0);
+        assert.equal(rank('Will I get my security deposit back?')[0], 1);
+        assert.equal(rank('Can I keep pets in the flat?')[0], 3);
+    });
+
+    it('matches other forms of a word', () => {
+        assert.equal(rank('How can the lease be terminated?')[0], 2);
+    });
+
+    it('ignores words that are too common to tell passages apart', () => {
+        assert.ok(hashedEmbedding('What is the ... of the?').every(value => value === 0));
+    });
+});
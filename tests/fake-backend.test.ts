@@ -0,0 +1,143 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { db, storage } from '@/lib/firebase-admin';
+import { saveDocument } from '@/lib/document-storage';
+import { enqueueTask } from '@/lib/task-queue';
+import { startTaskWorker, type TaskWorker } from '@/lib/task-worker';
+import { analysisVersion, classifyDocumentTask } from '@/lib/tasks/classify-document';
+
+/**
+ * End-to-end run of a document analysis with the fake models (src/ai/fake-model.ts), against the
+ * Firestore and Storage emulators: queue a classify task, let a worker process it, and check the task
+ * result, the history record, the matched lawyers and the Q&A index. Then check that each simulated
+ * failure ends the task the way a real one would. Run with `npm run test:fake-backend`, which starts
+ * the emulators around it and sets AI_FAKE_MODEL.
+ */
+
+const USER = `fake-backend-${Date.now()}`;
+const TASK_TIMEOUT_MS = 60_000;
+
+const LEASE = `RESIDENTIAL LEASE AGREEMENT
+
+1. Rent
+The tenant shall pay a monthly rent of 25,000 rupees on the first day of each month.
+
+2. Security Deposit
+The tenant shall pay a security deposit of two months' rent before moving in.
+
+3. Termination
+Either party may end this agreement by giving the other two months' written notice.
+`;
+
+// The fake classifier answers `Contract Law`, so only the first two should be recommended.
+const LAWYERS = {
+    'fake-backend-contract-1': { name: 'Lee', specialty: 'Contract Law', location: 'Pune', contact: 'lee@example.com', costPerHearing: 300 },
+    'fake-backend-contract-2': { name: 'Mehta', specialty: 'Contract Law', location: 'Mumbai', contact: 'mehta@example.com', costPerHearing: 500 },
+    'fake-backend-family-1': { name: 'Rao', specialty: 'Family Law', location: 'Pune', contact: 'rao@example.com', costPerHearing: 400 },
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function waitForEnd(taskId: string) {
+    const ref = db.collection('users').doc(USER).collection('tasks').doc(taskId);
+    const deadline = Date.now() + TASK_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+        const task = (await ref.get()).data();
+        if (['completed', 'failed', 'dead_letter', 'cancelled'].includes(task?.status)) return task!;
+        await sleep(250);
+    }
+    assert.fail(`Task ${taskId} didn't finish within ${TASK_TIMEOUT_MS / 1000}s.`);
+}
+
+async function waitForTask(taskId: string) {
+    const task = await waitForEnd(taskId);
+    if (task.status !== 'completed') assert.fail(`Task ended as ${task.status}: ${task.error ?? task.lastError}`);
+    return task;
+}
+
+// Queues a classify task that may be tried once, so a transient failure is dead-lettered straight away
+// instead of waiting out the backoff.
+async function classifyOnce(text: string) {
+    const stored = await saveDocument(USER, Buffer.from(text, 'utf-8'), 'text/plain');
+    const payload = classifyDocumentTask.input.parse({ ...stored, fileName: 'lease.txt' });
+    return enqueueTask(USER, 'classifyDocument', payload, { maxAttempts: 1, stages: classifyDocumentTask.stages });
+}
+
+let worker: TaskWorker;
+
+before(async () => {
+    assert.ok(process.env.FIRESTORE_EMULATOR_HOST, 'Run this through `npm run test:fake-backend`, which starts the emulators.');
+    assert.ok(['1', 'true'].includes(process.env.AI_FAKE_MODEL ?? ''), 'AI_FAKE_MODEL must be set, or this would call Gemini.');
+    await Promise.all(Object.entries(LAWYERS).map(([id, lawyer]) => db.collection('lawyers').doc(id).set({ ...lawyer, uid: id })));
+    worker = startTaskWorker({ workerId: 'fake-backend-test', concurrency: 1, pollIntervalMs: 200 });
+});
+
+after(async () => {
+    await worker?.stop();
+    await Promise.all(Object.keys(LAWYERS).map(id => db.collection('lawyers').doc(id).delete()));
+});
+
+describe('document analysis with the fake models', () => {
+    it('processes a classify task, matches lawyers and writes history', async () => {
+        const stored = await saveDocument(USER, Buffer.from(LEASE, 'utf-8'), 'text/plain');
+        const payload = classifyDocumentTask.input.parse({ ...stored, fileName: 'lease.txt' });
+        const taskId = await enqueueTask(USER, 'classifyDocument', payload, { stages: classifyDocumentTask.stages });
+
+        const task = await waitForTask(taskId);
+        assert.equal(task.progress, 100);
+        assert.ok(task.stages.every((stage: { status: string }) => stage.status === 'completed' || stage.status === 'skipped'));
+
+        const lawyerIds = (lawyers: { id: string }[]) => lawyers.map(lawyer => lawyer.id).sort();
+        assert.deepEqual(lawyerIds(task.result.recommendedLawyers), ['fake-backend-contract-1', 'fake-backend-contract-2']);
+        // Three hearings (the fake's estimate) at each recommended lawyer's fee.
+        assert.equal(task.result.expenditureAnalysis.estimatedCostRange, '₹900 - ₹1,500');
+        // The fake quotes the document in its clause references, so they anchor to the text.
+        assert.ok(task.result.anchors.clauseByClause.some((anchor: unknown) => anchor !== null));
+
+        // The history record shares the task's ID.
+        const history = (await db.collection('users').doc(USER).collection('history').doc(taskId).get()).data();
+        assert.ok(history, 'No history record was written.');
+        assert.equal(history.fileName, 'lease.txt');
+        assert.equal(history.storagePath, stored.storagePath);
+        assert.equal(history.contentHash, stored.contentHash);
+        assert.equal(history.analysisVersion, analysisVersion());
+        assert.deepEqual(lawyerIds(history.recommendedLawyers), ['fake-backend-contract-1', 'fake-backend-contract-2']);
+
+        const [indexed] = await storage.bucket().file(`indexes/${USER}/${taskId}.json`).exists();
+        assert.ok(indexed, 'The document was not indexed for questions.');
+
+        assert.equal((await db.collection('taskQueue').doc(taskId).get()).exists, false);
+    });
+});
+
+// Timeouts are retried like a real DEADLINE_EXCEEDED; every other failure fails the task on the first
+// attempt. Each case uses its own text so the analysis cache can't answer it.
+const FAILURES = [
+    { failure: 'timeout', status: 'dead_letter', error: /DEADLINE_EXCEEDED/ },
+    { failure: 'empty', status: 'failed', error: /could not recover executiveSummary/ },
+    { failure: 'safety', status: 'failed', error: /blocked for SAFETY/ },
+    { failure: 'malformed-json', status: 'failed', error: /could not recover/ },
+];
+
+describe('simulated model failures', () => {
+    for (const { failure, status, error } of FAILURES) {
+        it(`ends the task as ${status} on a [[fake:${failure}]] marker`, async () => {
+            const taskId = await classifyOnce(`${LEASE}\n4. Notices\nMarker case ${failure}. [[fake:${failure}]]\n`);
+            const task = await waitForEnd(taskId);
+            assert.equal(task.status, status);
+            assert.match(task.error, error);
+        });
+    }
+
+    it('fails only the flows named in AI_FAKE_FAILURE', async () => {
+        process.env.AI_FAKE_FAILURE = 'askQuestion=safety,classify=timeout';
+        try {
+            const taskId = await classifyOnce(`${LEASE}\n4. Notices\nEnvironment case.\n`);
+            const task = await waitForEnd(taskId);
+            assert.equal(task.status, 'dead_letter');
+            assert.match(task.error, /DEADLINE_EXCEEDED/);
+        } finally {
+            delete process.env.AI_FAKE_FAILURE;
+        }
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ClassifyDocumentChunkResult } from '@/ai/schemas/classify-document';
+import { buildCanonicalDocument } from '@/lib/anchors';
+import { chunkDocument, mergeChunkResults, type ChunkAnalysis, type DocumentChunk } from '@/lib/document-chunks';
+
+/**
+ * Tests for splitting long documents into chunks and merging the chunks' analyses
+ * (src/lib/document-chunks.ts). Run with `npm test`.
+ */
+
+const section = (number: number, title: string) =>
+    `${number}. ${title}\n` + `The ${title.toLowerCase()} terms of this agreement apply as written here. `.repeat(2);
+
+const lease = buildCanonicalDocument([
+    [section(1, 'Rent'), section(2, 'Deposit'), section(3, 'Repairs'), section(4, 'Termination')].join('\n\n'),
+], false);
+
+const textOf = (document: { text: string }, chunk: DocumentChunk) => document.text.slice(chunk.start, chunk.end);
+
+// Every character belongs to exactly one chunk, apart from the whitespace skipped between them.
+const assertContiguous = (document: { text: string }, chunks: DocumentChunk[]) => {
+    assert.equal(chunks[0].start, 0);
+    assert.equal(chunks[chunks.length - 1].end, document.text.length);
+    for (let i = 1; i < chunks.length; i++) {
+        assert.ok(chunks[i].start >= chunks[i - 1].end, `chunk ${i} overlaps the one before it`);
+        assert.match(document.text.slice(chunks[i - 1].end, chunks[i].start), /^\s*$/, `text lost before chunk ${i}`);
+    }
+};
+
+describe('chunkDocument', () => {
+    it('keeps a short document in one chunk', () => {
+        const [chunk, ...rest] = chunkDocument(lease, 10_000);
+        assert.equal(rest.length, 0);
+        assert.deepEqual(chunk.sections, ['1', '2', '3', '4']);
+        assert.equal(textOf(lease, chunk), lease.text);
+    });
+
+    it('splits at top-level sections', () => {
+        const chunks = chunkDocument(lease, 300);
+        assert.deepEqual(chunks.map(chunk => chunk.sections), [['1', '2'], ['3', '4']]);
+        assert.ok(textOf(lease, chunks[1]).startsWith('3. Repairs'));
+        assert.ok(chunks.every(chunk => chunk.end - chunk.start <= 300));
+        assertContiguous(lease, chunks);
+    });
+
+    it('splits at page breaks when there are no sections to split at', () => {
+        const scan = buildCanonicalDocument(['word '.repeat(40), 'more '.repeat(40), 'last '.repeat(40)], true);
+        const chunks = chunkDocument(scan, 300);
+        assert.deepEqual(chunks.map(chunk => [chunk.firstPage, chunk.lastPage]), [[1, 1], [2, 2], [3, 3]]);
+        assertContiguous(scan, chunks);
+    });
+
+    it("splits a long paragraph between words and doesn't overlap or drop any", () => {
+        const words = Array.from({ length: 200 }, (_, i) => `word${i}`);
+        const document = buildCanonicalDocument([words.join(' ')], false);
+        const chunks = chunkDocument(document, 250);
+        assert.ok(chunks.length > 1);
+        assertContiguous(document, chunks);
+        assert.deepEqual(chunks.flatMap(chunk => textOf(document, chunk).split(' ')), words);
+    });
+});
+
+describe('mergeChunkResults', () => {
+    const clause = (reference: string, simplification: string) =>
+        ({ clause: reference, simplification, riskLevel: 'Low' as const, suggestions: [], clarityScore: 8 });
+
+    const part = (index: number, result: Partial<ClassifyDocumentChunkResult> | null): ChunkAnalysis => ({
+        coverage: { index, start: 0, end: 0, firstPage: null, lastPage: null, sections: [], status: result ? 'analyzed' : 'failed' },
+        result: result && {
+            summary: '', keyFacts: [], clauseByClause: [], hiddenTraps: [], jargonBuster: [],
+            timeBombDetector: [], privacyDataUse: [], negotiationPlaybook: [], degradedSections: [], ...result,
+        },
+    });
+
+    const merged = mergeChunkResults([
+        part(0, {
+            clauseByClause: [clause('1 "The rent terms"', 'Pay on time.'), clause('2 "The deposit terms"', 'Two months up front.')],
+            jargonBuster: [{ term: 'Security deposit', explanation: 'Money held against damage.', clause: '2' }],
+            hiddenTraps: [{ clause: '2', trap: 'Deductions are at the landlord\'s discretion.' }],
+        }),
+        part(1, null),
+        part(2, {
+            // Section 2 straddled the split, so this part analyzed it too.
+            clauseByClause: [clause('2  "The DEPOSIT terms"', 'A deposit is due.'), clause('4 "The termination terms"', 'Two months\' notice.')],
+            jargonBuster: [{ term: 'security deposit ', explanation: 'A refundable sum.', clause: '2' }, { term: 'Notice', explanation: 'A written warning.', clause: '4' }],
+            hiddenTraps: [{ clause: '2', trap: 'Interest on the deposit is not paid.' }],
+        }),
+    ]);
+
+    it('keeps a clause that two parts analyzed once, from the earlier part', () => {
+        assert.deepEqual(merged.clauseByClause.map(item => item.simplification), ['Pay on time.', 'Two months up front.', 'Two months\' notice.']);
+    });
+
+    it('keeps the first explanation of a glossary term', () => {
+        assert.deepEqual(merged.jargonBuster.map(item => item.explanation), ['Money held against damage.', 'A written warning.']);
+    });
+
+    it('keeps every entry of lists that allow several per clause, in document order', () => {
+        assert.deepEqual(merged.hiddenTraps.map(item => item.trap), ['Deductions are at the landlord\'s discretion.', 'Interest on the deposit is not paid.']);
+    });
+});
@@ -0,0 +1,47 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateCostUsd } from '@/lib/model-prices';
+
+/**
+ * Tests for the cost estimates in usage accounting (src/lib/model-prices.ts). Run with `npm test`.
+ */
+
+afterEach(() => {
+    delete process.env.AI_MODEL_PRICES;
+});
+
+describe('estimateCostUsd', () => {
+    it('prices input and output tokens per million', () => {
+        // gemini-2.5-flash: $0.30 in, $2.50 out.
+        assert.equal(estimateCostUsd('googleai/gemini-2.5-flash', 1_000_000, 0), 0.3);
+        assert.equal(estimateCostUsd('googleai/gemini-2.5-flash', 2_000, 1_000), (2_000 * 0.3 + 1_000 * 2.5) / 1_000_000);
+    });
+
+    it('counts local and fake models as free', () => {
+        assert.equal(estimateCostUsd('local/llama3.1', 5_000, 5_000), 0);
+        assert.equal(estimateCostUsd('fake/classify', 5_000, 5_000), 0);
+    });
+
+    it('returns null for a model without a price', () => {
+        assert.equal(estimateCostUsd('googleai/gemini-9-ultra', 1_000, 1_000), null);
+    });
+
+    it('adds and overrides prices from AI_MODEL_PRICES', () => {
+        process.env.AI_MODEL_PRICES = JSON.stringify({
+            'googleai/gemini-9-ultra': { input: 10, output: 20 },
+            'googleai/gemini-2.5-flash': { input: 1, output: 1 },
+        });
+        assert.equal(estimateCostUsd('googleai/gemini-9-ultra', 1_000_000, 1_000_000), 30);
+        assert.equal(estimateCostUsd('googleai/gemini-2.5-flash', 1_000_000, 0), 1);
+        // Models it doesn't mention keep their defaults.
+        assert.equal(estimateCostUsd('googleai/gemini-2.5-pro', 1_000_000, 0), 1.25);
+    });
+
+    it('names AI_MODEL_PRICES when it is invalid', () => {
+        process.env.AI_MODEL_PRICES = '{"googleai/gemini-2.5-flash": {"input": 0.3}';
+        assert.throws(() => estimateCostUsd('googleai/gemini-2.5-flash', 1, 1), /AI_MODEL_PRICES/);
+
+        process.env.AI_MODEL_PRICES = '{"googleai/gemini-2.5-flash": {"input": 0.3}}';
+        assert.throws(() => estimateCostUsd('googleai/gemini-2.5-flash', 1, 1), /AI_MODEL_PRICES.*googleai\/gemini-2\.5-flash\.output: Required/);
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import sharp from 'sharp';
+import { normalizePageImage } from '@/lib/ocr/normalize';
+import { parseTesseractTsv } from '@/lib/ocr/tsv';
+
+/**
+ * Tests for the OCR helpers in src/lib/ocr: reading the `tesseract` CLI's TSV output (against the canned
+ * page in tests/fixtures) and normalizing page photos. Run with `npm test`.
+ */
+
+describe('parseTesseractTsv', () => {
+    const page = parseTesseractTsv(readFileSync(new URL('./fixtures/tesseract-page.tsv', import.meta.url), 'utf-8'));
+
+    it('rebuilds lines and paragraphs from the word rows', () => {
+        assert.equal(page.text, 'RESIDENTIAL LEASE\nThis agreement\n\n1. Rent: Rs.25,000\n\n2. Term');
+    });
+
+    it('averages the confidence of recognized words only', () => {
+        // Nine words; the blank word and the page, block, paragraph and line rows (conf -1) don't count.
+        assert.equal(page.confidence.toFixed(2), (674 / 9).toFixed(2));
+    });
+
+    it('returns no text and zero confidence for a blank page', () => {
+        assert.deepEqual(parseTesseractTsv('level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext\n1\t1\t0\t0\t0\t0\t0\t0\t2480\t3508\t-1\t\n'), { text: '', confidence: 0 });
+    });
+});
+
+describe('normalizePageImage', () => {
+    // A colour photo as a phone saves it: landscape pixels, with EXIF saying to rotate it a quarter turn.
+    const photo = (width: number, height: number, orientation?: number) => {
+        const image = sharp({ create: { width, height, channels: 3, background: { r: 200, g: 120, b: 40 } } }).jpeg();
+        return (orientation ? image.withMetadata({ orientation }) : image).toBuffer();
+    };
+
+    it('turns the page upright by its EXIF orientation', async () => {
+        const normalized = await sharp(await normalizePageImage(await photo(400, 300, 6), 'image/jpeg')).metadata();
+        assert.equal(normalized.format, 'png');
+        assert.deepEqual([normalized.width, normalized.height], [300, 400]);
+        assert.equal(normalized.orientation, undefined);
+    });
+
+    it('converts to greyscale', async () => {
+        const { channels } = await sharp(await normalizePageImage(await photo(400, 300), 'image/jpeg')).stats();
+        const means = channels.slice(0, 3).map(channel => Math.round(channel.mean));
+        assert.ok(means.every(mean => mean === means[0]), `channel means ${means.join(', ')}`);
+    });
+
+    it('shrinks large photos to a 3000px long edge without enlarging small ones', async () => {
+        const large = await sharp(await normalizePageImage(await photo(6000, 4000), 'image/jpeg')).metadata();
+        assert.deepEqual([large.width, large.height], [3000, 2000]);
+        const small = await sharp(await normalizePageImage(await photo(800, 600), 'image/jpeg')).metadata();
+        assert.deepEqual([small.width, small.height], [800, 600]);
+    });
+});
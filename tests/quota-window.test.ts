@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    addToWindow,
+    BUCKET_MS,
+    counterId,
+    parseRoleLimits,
+    removeFromBucket,
+    resolveQuotaLimits,
+    usedInWindow,
+    WINDOW_MS,
+} from '@/lib/quota-window';
+
+/**
+ * Tests for quota limits and the sliding window they're counted over (src/lib/quota-window.ts).
+ * Run with `npm test`.
+ */
+
+const HOUR = BUCKET_MS;
+// An instant partway through an hour, so bucket starts are easy to tell apart from it.
+const NOW = Date.UTC(2026, 0, 10, 12, 30);
+const THIS_HOUR = Date.UTC(2026, 0, 10, 12);
+
+describe('addToWindow', () => {
+    it('counts into the bucket for the current hour', () => {
+        const first = addToWindow({}, NOW, 2, 10);
+        assert.deepEqual(first, { buckets: { [THIS_HOUR]: 2 }, bucket: THIS_HOUR });
+
+        const second = addToWindow('buckets' in first ? first.buckets : {}, NOW + 10 * 60 * 1000, 3, 10);
+        assert.deepEqual(second, { buckets: { [THIS_HOUR]: 5 }, bucket: THIS_HOUR });
+    });
+
+    it('drops buckets that have left the window', () => {
+        const stale = THIS_HOUR - WINDOW_MS;
+        const recent = THIS_HOUR - 23 * HOUR;
+        const added = addToWindow({ [stale]: 9, [recent]: 4 }, NOW, 1, 10);
+        assert.deepEqual(added, { buckets: { [recent]: 4, [THIS_HOUR]: 1 }, bucket: THIS_HOUR });
+        assert.equal(usedInWindow({ [stale]: 9, [recent]: 4 }, NOW), 4);
+    });
+
+    it('allows up to the limit and no further', () => {
+        assert.ok('bucket' in addToWindow({ [THIS_HOUR]: 9 }, NOW, 1, 10));
+        assert.ok('exceeded' in addToWindow({ [THIS_HOUR]: 10 }, NOW, 1, 10));
+        assert.ok('exceeded' in addToWindow({}, NOW, 1, 0));
+    });
+
+    it('resets once enough of the oldest buckets have left the window', () => {
+        const buckets = { [THIS_HOUR - 20 * HOUR]: 3, [THIS_HOUR - 10 * HOUR]: 5, [THIS_HOUR]: 2 };
+        // 10 used; 2 more fit once the oldest 3 have gone.
+        assert.deepEqual(addToWindow(buckets, NOW, 2, 10), { exceeded: true, resetAt: THIS_HOUR - 20 * HOUR + WINDOW_MS });
+        // 6 more need the oldest two buckets gone.
+        assert.deepEqual(addToWindow(buckets, NOW, 6, 10), { exceeded: true, resetAt: THIS_HOUR - 10 * HOUR + WINDOW_MS });
+    });
+
+    it('never resets for a request larger than the limit', () => {
+        assert.deepEqual(addToWindow({}, NOW, 11, 10), { exceeded: true, resetAt: null });
+    });
+});
+
+describe('removeFromBucket', () => {
+    it('takes a refund back off its bucket', () => {
+        assert.deepEqual(removeFromBucket({ [THIS_HOUR]: 5 }, THIS_HOUR, 2), { [THIS_HOUR]: 3 });
+        assert.deepEqual(removeFromBucket({ [THIS_HOUR]: 2, [THIS_HOUR - HOUR]: 1 }, THIS_HOUR, 2), { [THIS_HOUR - HOUR]: 1 });
+        // A bucket that has already been dropped stays dropped.
+        assert.deepEqual(removeFromBucket({}, THIS_HOUR - WINDOW_MS, 1), {});
+    });
+});
+
+describe('counterId', () => {
+    it('keeps a separate counter per scope', () => {
+        assert.equal(counterId('u1', 'documentAnalyses'), 'u1_documentAnalyses');
+        const lease = counterId('u1', 'questionsPerDocument', 'documents/u1/lease.pdf');
+        const nda = counterId('u1', 'questionsPerDocument', 'documents/u1/nda.pdf');
+        assert.notEqual(lease, nda);
+        assert.ok(!lease.includes('/'), 'Document IDs cannot contain slashes.');
+    });
+});
+
+describe('quota limits', () => {
+    it('uses the defaults for each role', () => {
+        const limits = parseRoleLimits(undefined);
+        assert.equal(limits.user.documentAnalyses, 10);
+        assert.equal(limits.lawyer.documentAnalyses, 50);
+        assert.equal(limits.admin.documentAnalyses, null);
+    });
+
+    it('applies QUOTA_LIMITS on top of the defaults', () => {
+        const limits = parseRoleLimits('{"user": {"documentAnalyses": 5}, "lawyer": {"ttsCharacters": null}}');
+        assert.equal(limits.user.documentAnalyses, 5);
+        assert.equal(limits.user.questionsPerDocument, 30);
+        assert.equal(limits.lawyer.ttsCharacters, null);
+    });
+
+    it('names QUOTA_LIMITS when it is invalid', () => {
+        assert.throws(() => parseRoleLimits('{"user": {"documentAnalyses": -1}}'), /QUOTA_LIMITS/);
+        assert.throws(() => parseRoleLimits('not json'), /QUOTA_LIMITS/);
+    });
+
+    it("applies a user's overrides on top of their role's limits", () => {
+        const resolved = resolveQuotaLimits(parseRoleLimits(undefined), 'lawyer', { documentAnalyses: 80, ttsCharacters: null });
+        assert.equal(resolved.role, 'lawyer');
+        assert.equal(resolved.roleLimits.documentAnalyses, 50);
+        assert.equal(resolved.limits.documentAnalyses, 80);
+        assert.equal(resolved.limits.ttsCharacters, null);
+        assert.equal(resolved.limits.rolePlayTurns, 300);
+    });
+
+    it('falls back to the user role and ignores invalid overrides', () => {
+        const resolved = resolveQuotaLimits(parseRoleLimits(undefined), 'superuser', { documentAnalyses: 'lots' });
+        assert.equal(resolved.role, 'user');
+        assert.deepEqual(resolved.overrides, {});
+        assert.equal(resolved.limits.documentAnalyses, 10);
+    });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { z, type GenerateOptions } from 'genkit';
+import { ai } from '@/ai/genkit';
+import { generateStructured } from '@/ai/structured-output';
+
+/**
+ * generateStructured against the fake models (src/ai/fake-model.ts), whose `malformed-json` and `empty`
+ * failures stand in for a model that doesn't follow the schema. Needs AI_FAKE_MODEL; run it with
+ * `npm run test:fake-backend`.
+ */
+
+const Schema = z.object({
+    summary: z.string(),
+    parties: z.array(z.string()),
+    clauses: z.array(z.object({ clause: z.string(), note: z.string() })),
+    lawyerCategory: z.string(),
+});
+
+const PROMPT = 'Summarize this lease: "The tenant shall pay the rent on the first day of each month."';
+
+// The prompt of every model call, in order.
+let prompts: string[];
+// Whether AI_FAKE_FAILURE only applies to the first call.
+let failOnce: boolean;
+
+beforeEach(() => {
+    assert.ok(['1', 'true'].includes(process.env.AI_FAKE_MODEL ?? ''), 'AI_FAKE_MODEL must be set, or this would call Gemini.');
+    prompts = [];
+    failOnce = false;
+    const generate = ai.generate.bind(ai);
+    mock.method(ai, 'generate', async (options: GenerateOptions) => {
+        prompts.push(JSON.stringify(options.prompt));
+        try {
+            return await generate(options);
+        } finally {
+            if (failOnce) delete process.env.AI_FAKE_FAILURE;
+        }
+    });
+});
+
+afterEach(() => {
+    mock.restoreAll();
+    delete process.env.AI_FAKE_FAILURE;
+});
+
+describe('generateStructured', () => {
+    it('returns valid output from the first attempt', async () => {
+        const { output, degradedSections } = await generateStructured({ model: 'fake/classify', prompt: PROMPT, schema: Schema });
+        assert.equal(prompts.length, 1);
+        assert.deepEqual(degradedSections, []);
+        assert.ok(output.summary);
+    });
+
+    it('asks again with the validation errors and accepts a repaired answer', async () => {
+        process.env.AI_FAKE_FAILURE = 'malformed-json';
+        failOnce = true;
+
+        const { output, degradedSections } = await generateStructured({ model: 'fake/classify', prompt: PROMPT, schema: Schema });
+        assert.equal(prompts.length, 2);
+        assert.match(prompts[1], /did not match the required JSON schema/);
+        assert.match(prompts[1], /lawyerCategory: Required/);
+        assert.deepEqual(degradedSections, []);
+        assert.ok(output.lawyerCategory);
+    });
+
+    it('keeps the valid sections of malformed output and falls back for the rest', async () => {
+        process.env.AI_FAKE_FAILURE = 'malformed-json';
+        const { output, degradedSections } = await generateStructured({
+            model: 'fake/classify',
+            prompt: PROMPT,
+            schema: Schema,
+            fallbacks: { lawyerCategory: 'General Practice' },
+        });
+
+        // The first attempt and both repairs.
+        assert.equal(prompts.length, 3);
+        // The fake cuts its answer in half, so the sections before the cut survive.
+        assert.equal(output.summary, 'Fake summary 1');
+        assert.deepEqual(output.parties, ['Fake parties 1', 'Fake parties 2']);
+        assert.equal(output.lawyerCategory, 'General Practice');
+        assert.ok(degradedSections.includes('lawyerCategory'));
+        assert.ok(!degradedSections.includes('summary') && !degradedSections.includes('parties'));
+    });
+
+    it('fills every section from fallbacks when the model answers with nothing', async () => {
+        process.env.AI_FAKE_FAILURE = 'empty';
+        const fallbacks = { summary: 'Not found.', parties: [], clauses: [], lawyerCategory: 'General Practice' };
+        const { output, degradedSections } = await generateStructured({ model: 'fake/classify', prompt: PROMPT, schema: Schema, fallbacks });
+
+        assert.equal(prompts.length, 3);
+        assert.match(prompts[1], /previous response was empty/);
+        assert.deepEqual(output, fallbacks);
+        assert.deepEqual(degradedSections, ['summary', 'parties', 'clauses', 'lawyerCategory']);
+    });
+
+    it('fails when a section without a fallback cannot be recovered', async () => {
+        process.env.AI_FAKE_FAILURE = 'empty';
+        await assert.rejects(
+            generateStructured({ model: 'fake/classify', prompt: PROMPT, schema: Schema, fallbacks: { parties: [], clauses: [] } }),
+            /could not recover summary, lawyerCategory/,
+        );
+    });
+});
@@ -0,0 +1,194 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { db } from '@/lib/firebase-admin';
+import { consumeQuota, getQuotaUsage } from '@/lib/quotas';
+import { cancelQueuedTask, claimTasks, completeTask, enqueueTask, failTask, renewLease } from '@/lib/task-queue';
+
+/**
+ * Tests for the Firestore task queue (src/lib/task-queue.ts) against the Firestore emulator: claiming,
+ * lease expiry, retries, dead-lettering, cancellation and quota refunds. Run with `npm run test:queue`, which starts the emulator
+ * around them.
+ */
+
+const USER = 'queue-user';
+
+const taskDoc = (taskId: string) => db.collection('users').doc(USER).collection('tasks').doc(taskId);
+const queueEntry = (taskId: string) => db.collection('taskQueue').doc(taskId);
+
+// Stands in for time passing: makes a leased or backed-off entry claimable again right away.
+const expire = (taskId: string) => queueEntry(taskId).update({ availableAt: Timestamp.fromMillis(Date.now() - 1000) });
+
+beforeEach(async () => {
+    assert.ok(process.env.FIRESTORE_EMULATOR_HOST, 'Run this through `npm run test:queue`, which starts the emulator.');
+    await db.recursiveDelete(db.collection('taskQueue'));
+    await db.recursiveDelete(db.collection('taskDeadLetters'));
+    await db.recursiveDelete(db.collection('users'));
+    await db.recursiveDelete(db.collection('quotaCounters'));
+});
+
+after(async () => {
+    await db.terminate();
+});
+
+describe('claimTasks', () => {
+    it('gives an entry to only one of two racing workers', async () => {
+        const taskId = await enqueueTask(USER, 'askQuestion', { question: 'Can I sublet?' });
+
+        const [first, second] = await Promise.all([claimTasks('worker-a', 1), claimTasks('worker-b', 1)]);
+        const claims = [...first, ...second];
+        assert.equal(claims.length, 1);
+        assert.equal(claims[0].taskId, taskId);
+        assert.equal(claims[0].attempt, 1);
+
+        const entry = (await queueEntry(taskId).get()).data();
+        assert.equal(entry?.leaseId, claims[0].leaseId);
+        assert.equal((await taskDoc(taskId).get()).data()?.status, 'processing');
+    });
+
+    it('re-claims a task once its lease has expired', async () => {
+        const taskId = await enqueueTask(USER, 'askQuestion', { question: 'Can I sublet?' });
+        const [stalled] = await claimTasks('worker-a', 1);
+        assert.deepEqual(await claimTasks('worker-b', 1), [], 'The entry was claimed while leased.');
+
+        await expire(taskId);
+        const [reclaimed] = await claimTasks('worker-b', 1);
+        assert.equal(reclaimed.taskId, taskId);
+        assert.equal(reclaimed.attempt, 2);
+        assert.notEqual(reclaimed.leaseId, stalled.leaseId);
+
+        // The stalled worker can no longer touch the entry; the new owner finishes the task.
+        assert.equal(await renewLease(stalled), false);
+        assert.equal(await completeTask(stalled, { answer: 'stale' }), false);
+        assert.equal(await completeTask(reclaimed, { answer: 'fresh' }), true);
+
+        const task = (await taskDoc(taskId).get()).data();
+        assert.equal(task?.status, 'completed');
+        assert.deepEqual(task?.result, { answer: 'fresh' });
+        assert.equal((await queueEntry(taskId).get()).exists, false);
+    });
+
+    it('drops the entry of a cancelled task instead of claiming it', async () => {
+        const taskId = await enqueueTask(USER, 'askQuestion', { question: 'Can I sublet?' });
+        // The task is marked cancelled but its queue entry is still there.
+        await taskDoc(taskId).update({ status: 'cancelled' });
+
+        assert.deepEqual(await claimTasks('worker-a', 1), []);
+        assert.equal((await queueEntry(taskId).get()).exists, false);
+        assert.equal((await taskDoc(taskId).get()).data()?.status, 'cancelled');
+    });
+});
+
+describe('cancelQueuedTask', () => {
+    it('keeps a pending task from being claimed', async () => {
+        const taskId = await enqueueTask(USER, 'askQuestion', { question: 'Can I sublet?' });
+
+        assert.equal(await cancelQueuedTask(USER, taskId), true);
+        assert.deepEqual(await claimTasks('worker-a', 1), []);
+        assert.equal((await taskDoc(taskId).get()).data()?.status, 'cancelled');
+    });
+
+    it('takes the lease from a running task', async () => {
+        const taskId = await enqueueTask(USER, 'askQuestion', { question: 'Can I sublet?' });
+        const [running] = await claimTasks('worker-a', 1);
+
+        assert.equal(await cancelQueuedTask(USER, taskId), true);
+        assert.equal(await completeTask(running, { answer: 'too late' }), false);
+        assert.equal((await taskDoc(taskId).get()).data()?.status, 'cancelled');
+        assert.equal(await cancelQueuedTask(USER, taskId), false, 'A finished task was cancelled again.');
+    });
+});
+
+describe('failTask', () => {
+    it('reschedules a transient error with backoff', async () => {
+        const taskId = await enqueueTask(USER, 'askQuestion', { question: 'Can I sublet?' }, { maxAttempts: 3 });
+        const [task] = await claimTasks('worker-a', 1);
+
+        assert.equal(await failTask(task, new Error('[503 Service Unavailable] The model is overloaded.')), true);
+
+        const entry = (await queueEntry(taskId).get()).data();
+        assert.equal(entry?.leaseId, null);
+        assert.ok(entry?.availableAt.toMillis() > Date.now(), 'The retry was not pushed back.');
+        const userTask = (await taskDoc(taskId).get()).data();
+        assert.equal(userTask?.status, 'retrying');
+        assert.match(userTask?.lastError, /overloaded/);
+        assert.deepEqual(await claimTasks('worker-a', 1), [], 'The task was retried before its backoff ran out.');
+    });
+
+    it('dead-letters a transient error on the last attempt', async () => {
+        const taskId = await enqueueTask(USER, 'askQuestion', { question: 'Can I sublet?' }, { maxAttempts: 2 });
+        const [first] = await claimTasks('worker-a', 1);
+        await failTask(first, new Error('Request timed out'));
+
+        await expire(taskId);
+        const [second] = await claimTasks('worker-a', 1);
+        assert.equal(second.attempt, 2);
+        await failTask(second, new Error('Request timed out'));
+
+        const userTask = (await taskDoc(taskId).get()).data();
+        assert.equal(userTask?.status, 'dead_letter');
+        assert.match(userTask?.error, /Gave up after 2 attempts/);
+        const deadLetter = (await db.collection('taskDeadLetters').doc(taskId).get()).data();
+        assert.equal(deadLetter?.userId, USER);
+        assert.equal(deadLetter?.attempts, 2);
+        assert.equal((await queueEntry(taskId).get()).exists, false);
+    });
+
+    it('fails a permanent error straight away', async () => {
+        const taskId = await enqueueTask(USER, 'askQuestion', { question: 'Can I sublet?' });
+        const [task] = await claimTasks('worker-a', 1);
+        await failTask(task, new Error('Could not classify the document.'));
+
+        const userTask = (await taskDoc(taskId).get()).data();
+        assert.equal(userTask?.status, 'failed');
+        assert.equal(userTask?.error, 'Could not classify the document.');
+        assert.equal((await queueEntry(taskId).get()).exists, false);
+        assert.equal((await db.collection('taskDeadLetters').doc(taskId).get()).exists, false);
+    });
+
+    it('leaves the task alone once the lease has moved on', async () => {
+        const taskId = await enqueueTask(USER, 'askQuestion', { question: 'Can I sublet?' });
+        const [stalled] = await claimTasks('worker-a', 1);
+        await expire(taskId);
+        await claimTasks('worker-b', 1);
+
+        assert.equal(await failTask(stalled, new Error('Could not classify the document.')), false);
+        assert.equal((await taskDoc(taskId).get()).data()?.status, 'processing');
+    });
+});
+
+describe('quota refunds', () => {
+    const analysesUsed = async () => (await getQuotaUsage(USER)).documentAnalyses;
+
+    it('refunds the quota of a task that fails', async () => {
+        const quota = await consumeQuota(USER, 'documentAnalyses');
+        await enqueueTask(USER, 'classifyDocument', {}, { quota });
+        assert.equal(await analysesUsed(), 1);
+
+        const [task] = await claimTasks('worker-a', 1);
+        await failTask(task, new Error('Could not classify the document.'));
+        assert.equal(await analysesUsed(), 0);
+    });
+
+    it('refunds a dead-lettered task, but not while it is being retried', async () => {
+        const quota = await consumeQuota(USER, 'documentAnalyses');
+        const taskId = await enqueueTask(USER, 'classifyDocument', {}, { maxAttempts: 2, quota });
+
+        const [first] = await claimTasks('worker-a', 1);
+        await failTask(first, new Error('Request timed out'));
+        assert.equal(await analysesUsed(), 1);
+
+        await expire(taskId);
+        const [second] = await claimTasks('worker-a', 1);
+        await failTask(second, new Error('Request timed out'));
+        assert.equal(await analysesUsed(), 0);
+    });
+
+    it('keeps the charge for a completed task', async () => {
+        const quota = await consumeQuota(USER, 'documentAnalyses');
+        await enqueueTask(USER, 'classifyDocument', {}, { quota });
+        const [task] = await claimTasks('worker-a', 1);
+        await completeTask(task, {});
+        assert.equal(await analysesUsed(), 1);
+    });
+});
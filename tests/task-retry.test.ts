@@ -0,0 +1,70 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { backoffDelayMs, isTransientError } from '@/lib/task-retry';
+
+/**
+ * Tests for the task queue's retry policy (src/lib/task-retry.ts). Run with `npm test`.
+ */
+
+describe('isTransientError', () => {
+    it('retries rate limits, overloads, timeouts and network failures', () => {
+        for (const message of [
+            '[429 Too Many Requests] Resource has been exhausted',
+            'RESOURCE_EXHAUSTED: quota exceeded',
+            '[503 Service Unavailable] The model is overloaded.',
+            'UNAVAILABLE: connection reset',
+            'DEADLINE_EXCEEDED',
+            'Request timed out',
+            'connect ECONNREFUSED 127.0.0.1:11434',
+            'TypeError: fetch failed',
+        ]) {
+            assert.equal(isTransientError(new Error(message)), true, message);
+        }
+    });
+
+    it("doesn't retry errors another attempt won't fix", () => {
+        for (const message of [
+            '[400 Bad Request] Unsupported MIME type',
+            'Unknown task type \'summarize\'.',
+            'Could not classify the document.',
+        ]) {
+            assert.equal(isTransientError(new Error(message)), false, message);
+        }
+    });
+
+    it('matches status codes as whole numbers only', () => {
+        assert.equal(isTransientError(new Error('Document has 1429 words')), false);
+        assert.equal(isTransientError(new Error('Page 5030 not found')), false);
+    });
+
+    it('accepts thrown values that are not Errors', () => {
+        assert.equal(isTransientError('503 Service Unavailable'), true);
+        assert.equal(isTransientError({ code: 400 }), false);
+    });
+});
+
+describe('backoffDelayMs', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('doubles the delay range with each attempt', () => {
+        mock.method(Math, 'random', () => 0);
+        assert.deepEqual([1, 2, 3, 4].map(backoffDelayMs), [1000, 2000, 4000, 8000]);
+
+        mock.method(Math, 'random', () => 1);
+        assert.deepEqual([1, 2, 3, 4].map(backoffDelayMs), [2000, 4000, 8000, 16000]);
+    });
+
+    it('caps the delay at five minutes', () => {
+        mock.method(Math, 'random', () => 1);
+        assert.equal(backoffDelayMs(20), 5 * 60 * 1000);
+        mock.method(Math, 'random', () => 0);
+        assert.equal(backoffDelayMs(20), 2.5 * 60 * 1000);
+    });
+
+    it('stays within the range for the attempt', () => {
+        for (let i = 0; i < 100; i++) {
+            const delay = backoffDelayMs(3);
+            assert.ok(delay >= 4000 && delay <= 8000, `${delay}ms`);
+        }
+    });
+});
@@ -0,0 +1,56 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ai, modelFor } from '@/ai/genkit';
+import { db } from '@/lib/firebase-admin';
+import { withUsageAttribution } from '@/lib/usage';
+
+/**
+ * Tests for recording model usage (src/lib/usage.ts) with the fake models, against the Firestore
+ * emulator. Run with `npm run test:fake-backend`.
+ */
+
+const USER = `usage-${Date.now()}`;
+
+const events = () => db.collection('usageEvents').where('userId', '==', USER).get();
+
+before(() => {
+    assert.ok(process.env.FIRESTORE_EMULATOR_HOST, 'Run this through `npm run test:fake-backend`, which starts the emulators.');
+    assert.ok(['1', 'true'].includes(process.env.AI_FAKE_MODEL ?? ''), 'AI_FAKE_MODEL must be set, or this would call Gemini.');
+});
+
+after(async () => {
+    const snapshot = await events();
+    await Promise.all(snapshot.docs.map(doc => doc.ref.delete()));
+});
+
+describe('usage recording', () => {
+    it('records each call and adds it to the daily total for the user and flow', async () => {
+        await withUsageAttribution({ userId: USER, taskId: 'usage-task' }, async () => {
+            await ai.generate({ ...modelFor('askQuestion'), prompt: 'What is the notice period?' });
+            await ai.generate({ ...modelFor('askQuestion'), prompt: 'And the deposit?' });
+            await assert.rejects(ai.generate({ ...modelFor('askQuestion'), prompt: 'Time out [[fake:timeout]]' }), /DEADLINE_EXCEEDED/);
+        });
+
+        const recorded = (await events()).docs.map(doc => doc.data());
+        assert.equal(recorded.length, 3);
+        assert.ok(recorded.every(event => event.taskId === 'usage-task' && event.flow === 'askQuestion' && event.model === 'fake/askQuestion'));
+        assert.equal(recorded.filter(event => event.error).length, 1);
+
+        const day = recorded[0].day;
+        const daily = (await db.collection('usageDaily').doc(`${day}_${USER}_askQuestion`).get()).data();
+        assert.ok(daily, 'No daily total was written.');
+        assert.equal(daily.calls, 3);
+        assert.equal(daily.failedCalls, 1);
+        assert.equal(daily.unpricedCalls, 0);
+        assert.equal(daily.estimatedCostUsd, 0);
+        assert.ok(daily.inputTokens > 0);
+        assert.equal(daily.inputTokens, recorded.reduce((sum, event) => sum + event.inputTokens, 0));
+        assert.equal(daily.outputTokens, recorded.reduce((sum, event) => sum + event.outputTokens, 0));
+    });
+
+    it("doesn't record calls made outside an attribution", async () => {
+        const recordedBefore = (await events()).size;
+        await ai.generate({ ...modelFor('askQuestion'), prompt: 'Unattributed question' });
+        assert.equal((await events()).size, recordedBefore);
+    });
+});